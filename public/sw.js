@@ -0,0 +1,161 @@
+/**
+ * Service Worker
+ *
+ * Keeps the dashboard usable when the network or PokeAPI is unreachable:
+ *
+ * - App shell (pages, scripts, styles): cached on install from the build's
+ *   precache manifest (see vite.config.ts), then network first, cached copy when
+ *   offline. Every route serves the cached index.html, as the router runs client-side.
+ * - Sprites: cache first; they never change once published. They are requested
+ *   with CORS, since opaque responses count for megabytes each against the quota,
+ *   and only the most recent MAX_SPRITES are kept.
+ * - API responses: network first, the last cached copy when the request fails.
+ *
+ * Each API response is reported to the page that asked for it (see
+ * src/utils/offline.ts), so it can tell the user when data is served stale.
+ */
+
+const SHELL_CACHE = "pokemon-shell-v1";
+const SPRITE_CACHE = "pokemon-sprites-v2";
+const API_CACHE = "pokemon-api-v1";
+const CACHES = [SHELL_CACHE, SPRITE_CACHE, API_CACHE];
+
+// Sprites kept in SPRITE_CACHE; the oldest go first
+const MAX_SPRITES = 1500;
+
+const SHELL_URLS = ["/", "/index.html"];
+
+// Written by the build; lists its scripts, styles and assets
+const PRECACHE_MANIFEST_URL = "/precache-manifest.json";
+
+// Must match API_RESPONSE_MESSAGE in src/utils/offline.ts
+const API_RESPONSE_MESSAGE = "pokeapi-response";
+
+// Added to cached API responses: when the copy was stored
+const CACHED_AT_HEADER = "x-cached-at";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then(async (cache) => cache.addAll([...new Set([...SHELL_URLS, ...(await getPrecacheUrls())])]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE).catch(() => caches.match("/index.html")));
+  } else if (url.pathname.includes("/api/v2/")) {
+    event.respondWith(apiResponse(request, event.clientId));
+  } else if (request.destination === "image" || url.pathname.includes("/sprites/")) {
+    event.respondWith(spriteResponse(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});
+
+/**
+ * The built files to cache on install; none when the manifest is missing, e.g. outside a build
+ */
+async function getPrecacheUrls() {
+  try {
+    const response = await fetch(PRECACHE_MANIFEST_URL, { cache: "no-cache" });
+    return response.ok ? await response.json() : [];
+  } catch {
+    return [];
+  }
+}
+
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+/**
+ * Cache first; a host that doesn't allow CORS is still shown, just not cached
+ */
+async function spriteResponse(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  let response;
+  try {
+    response = await fetch(request.url, { mode: "cors", credentials: "omit" });
+  } catch {
+    return fetch(request);
+  }
+  if (response.ok) {
+    const cache = await caches.open(SPRITE_CACHE);
+    await cache.put(request, response.clone());
+    await trimCache(cache, MAX_SPRITES);
+  }
+  return response;
+}
+
+/**
+ * Deletes the oldest entries beyond `maxEntries`; keys() lists entries in the order they were added
+ */
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+/**
+ * Network first; a failed request or a 5xx falls back to the cached copy, reported as stale
+ */
+async function apiResponse(request, clientId) {
+  const cache = await caches.open(API_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.status < 500) {
+      if (response.ok) await cache.put(request, await stampCachedAt(response.clone()));
+      notify(clientId, { url: request.url, stale: false, cachedAt: null });
+      return response;
+    }
+    const cached = await cache.match(request);
+    if (!cached) return response;
+    notify(clientId, { url: request.url, stale: true, cachedAt: Number(cached.headers.get(CACHED_AT_HEADER)) || null });
+    return cached;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (!cached) throw err;
+    notify(clientId, { url: request.url, stale: true, cachedAt: Number(cached.headers.get(CACHED_AT_HEADER)) || null });
+    return cached;
+  }
+}
+
+async function stampCachedAt(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers });
+}
+
+async function notify(clientId, detail) {
+  const client = clientId && (await self.clients.get(clientId));
+  client?.postMessage({ type: API_RESPONSE_MESSAGE, ...detail });
+}
@@ -0,0 +1,205 @@
+/**
+ * Integration tests for App
+ *
+ * These tests reproduce the race between overlapping detail loads, check that
+ * Refresh cancels detail requests from the previous list, that a shared
+ * comparison URL opens the comparison, and that a Pokemon's path and the list
+ * mode open from the URL and take part in browser history. Real timers are used
+ * throughout (see TEST_ISSUE_NOTES.md for why fake timers hang here).
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import App from "./App";
+
+const BASE = "https://pokeapi.co/api/v2";
+
+const jsonResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+
+const pokemonBody = (id: number, name: string) => ({
+  id,
+  name,
+  sprites: { front_default: `${name}.png` },
+  types: [],
+  abilities: [],
+  stats: [],
+  species: { name, url: `${BASE}/pokemon-species/${id}/` },
+});
+
+const speciesBody = (name: string) => ({
+  name,
+  flavor_text_entries: [{ flavor_text: `${name} description`, language: { name: "en", url: "" }, version: { name: "red", url: "" } }],
+});
+
+interface PendingRequest {
+  url: string;
+  signal: AbortSignal;
+  resolve: (body: unknown) => void;
+}
+
+/**
+ * Routes mocked fetch calls by URL; URLs listed in `deferred` stay pending until resolved by the test
+ */
+function mockApi(routes: Record<string, unknown>, deferred: string[] = []) {
+  const pending: PendingRequest[] = [];
+
+  (globalThis.fetch as any).mockImplementation((url: string, init: RequestInit = {}) => {
+    if (deferred.includes(url)) {
+      return new Promise((resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new DOMException("The operation was aborted.", "AbortError")));
+        pending.push({ url, signal: init.signal, resolve: (body) => resolve(jsonResponse(body)) });
+      });
+    }
+    if (url in routes) return Promise.resolve(jsonResponse(routes[url]));
+    return Promise.resolve({ ok: false, status: 404, headers: { get: () => null }, json: async () => ({}) });
+  });
+
+  return pending;
+}
+
+const listBody = {
+  count: 2,
+  next: null,
+  previous: null,
+  results: [
+    { name: "bulbasaur", url: `${BASE}/pokemon/1/` },
+    { name: "charmander", url: `${BASE}/pokemon/4/` },
+  ],
+};
+
+describe("App request cancellation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Selecting a Pokemon changes the path, so every test starts from the list
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should show the last clicked Pokemon when an earlier details request resolves later", async () => {
+    const pending = mockApi(
+      {
+        [`${BASE}/pokemon?limit=1000&offset=0`]: listBody,
+        [`${BASE}/pokemon/1/`]: pokemonBody(1, "bulbasaur"),
+        [`${BASE}/pokemon/4/`]: pokemonBody(4, "charmander"),
+        [`${BASE}/pokemon-species/4/`]: speciesBody("charmander"),
+      },
+      [`${BASE}/pokemon-species/1/`],
+    );
+
+    render(<App persistCache={false} />);
+    const bulbasaurCard = await screen.findByAltText("bulbasaur sprite");
+    const charmanderCard = await screen.findByAltText("charmander sprite");
+
+    // Click bulbasaur (slow species request), then charmander (fast)
+    fireEvent.click(bulbasaurCard);
+    await waitFor(() => expect(pending).toHaveLength(1));
+    fireEvent.click(charmanderCard);
+
+    expect(await screen.findByText("charmander description")).toBeInTheDocument();
+
+    // The superseded request was cancelled, and resolving it late changes nothing
+    expect(pending[0].signal.aborted).toBe(true);
+    pending[0].resolve(speciesBody("bulbasaur"));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(screen.getByText("charmander description")).toBeInTheDocument();
+    expect(screen.queryByText("bulbasaur description")).not.toBeInTheDocument();
+  });
+
+  it("should cancel in-flight card detail requests when Refresh is pressed", async () => {
+    const pending = mockApi({ [`${BASE}/pokemon?limit=1000&offset=0`]: listBody }, [`${BASE}/pokemon/1/`, `${BASE}/pokemon/4/`]);
+
+    render(<App persistCache={false} />);
+    await waitFor(() => expect(pending).toHaveLength(2));
+    expect(screen.getAllByRole("status")).toHaveLength(2);
+
+    fireEvent.click(screen.getByText("Refresh"));
+
+    expect(pending[0].signal.aborted).toBe(true);
+    expect(pending[1].signal.aborted).toBe(true);
+
+    // The refreshed list issues fresh detail requests
+    await waitFor(() => expect(pending).toHaveLength(4));
+    expect(pending[2].signal.aborted).toBe(false);
+  });
+});
+
+describe("App comparison", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should open a shared comparison from the URL", async () => {
+    mockApi({
+      [`${BASE}/pokemon?limit=1000&offset=0`]: listBody,
+      [`${BASE}/pokemon/bulbasaur/`]: { ...pokemonBody(1, "bulbasaur"), stats: [{ base_stat: 45, effort: 0, stat: { name: "speed", url: "" } }] },
+      [`${BASE}/pokemon/charmander/`]: { ...pokemonBody(4, "charmander"), stats: [{ base_stat: 65, effort: 0, stat: { name: "speed", url: "" } }] },
+      [`${BASE}/pokemon-species/1/`]: speciesBody("bulbasaur"),
+      [`${BASE}/pokemon-species/4/`]: speciesBody("charmander"),
+    });
+    window.history.replaceState(null, "", "/?compare=bulbasaur,charmander");
+
+    render(<App persistCache={false} />);
+
+    expect(await screen.findByText("Comparison")).toBeInTheDocument();
+    expect(await screen.findByLabelText("charmander speed (highest)")).toHaveTextContent("65");
+    expect(screen.getByLabelText("bulbasaur speed")).toHaveTextContent("45");
+
+    fireEvent.click(screen.getByText("Close"));
+    expect(window.location.search).not.toContain("compare=");
+    window.history.replaceState(null, "", "/");
+  });
+});
+
+describe("App routing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should open the Pokemon in the path and follow back/forward", async () => {
+    mockApi({
+      [`${BASE}/pokemon?limit=1000&offset=0`]: listBody,
+      [`${BASE}/pokemon/1/`]: pokemonBody(1, "bulbasaur"),
+      [`${BASE}/pokemon/4/`]: pokemonBody(4, "charmander"),
+      [`${BASE}/pokemon/charmander/`]: pokemonBody(4, "charmander"),
+      [`${BASE}/pokemon-species/1/`]: speciesBody("bulbasaur"),
+      [`${BASE}/pokemon-species/4/`]: speciesBody("charmander"),
+    });
+    window.history.replaceState(null, "", "/pokemon/charmander?seed=abc");
+
+    render(<App persistCache={false} />);
+    expect(await screen.findByText("charmander description")).toBeInTheDocument();
+
+    // Selecting another Pokemon pushes its path and keeps the list state
+    fireEvent.click(await screen.findByAltText("bulbasaur sprite"));
+    expect(await screen.findByText("bulbasaur description")).toBeInTheDocument();
+    expect(window.location.pathname).toBe("/pokemon/1");
+    expect(window.location.search).toContain("seed=abc");
+
+    window.history.back();
+    expect(await screen.findByText("charmander description")).toBeInTheDocument();
+    expect(window.location.pathname).toBe("/pokemon/charmander");
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should return to the previous list mode on back", async () => {
+    mockApi({
+      [`${BASE}/pokemon?limit=1000&offset=0`]: listBody,
+      [`${BASE}/pokemon?limit=20&offset=0`]: listBody,
+      [`${BASE}/pokemon/1/`]: pokemonBody(1, "bulbasaur"),
+      [`${BASE}/pokemon/4/`]: pokemonBody(4, "charmander"),
+    });
+    window.history.replaceState(null, "", "/?seed=abc");
+
+    render(<App persistCache={false} />);
+    await screen.findByAltText("bulbasaur sprite");
+
+    // Switching mode pushes an entry rather than replacing the current one
+    fireEvent.click(screen.getByRole("button", { name: "Browse" }));
+    await waitFor(() => expect(window.location.search).toContain("mode=browse"));
+
+    window.history.back();
+    await waitFor(() => expect(screen.getByRole("button", { name: "Random" })).toHaveAttribute("aria-pressed", "true"));
+    expect(window.location.search).toContain("seed=abc");
+    window.history.replaceState(null, "", "/");
+  });
+});
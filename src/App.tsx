@@ -1,8 +1,56 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import styled from "styled-components";
 import { PokemonList } from "./components/PokemonList";
+import type { ListMode } from "./components/PokemonList";
 import { PokemonDetails } from "./components/PokemonDetails";
-import type { PokemonListResponse, PokemonWithImage, Pokemon, PokemonWithDescription, SpeciesData } from "./types/pokemon";
+import { CompareTray } from "./components/CompareTray";
+import { ComparisonView } from "./components/ComparisonView";
+import { TeamPanel } from "./components/TeamPanel";
+import { SettingsBar } from "./components/SettingsBar";
+import { OfflinePanel } from "./components/OfflinePanel";
+import type { OpenAbility } from "./components/AbilityPopover";
+import {
+  fetchPokemonListWithDetails,
+  fetchPokemonDetails,
+  fetchPokemonCard,
+  fetchPokemonIndex,
+  fetchPokemonPage,
+  fetchPokemonCards,
+  fetchFilteredPokemon,
+  fetchTeamMembers,
+  fetchStatsIndex,
+  downloadPokedex,
+  fetchMoves,
+  fetchAbilityDetails,
+  fetchTypeChart,
+  importShowdownTeam,
+  getPageOffset,
+} from "./utils/pokemonFetcher";
+import type { FetchPokemonOptions, PokemonPageInfo } from "./utils/pokemonFetcher";
+import { PokeApiClient } from "./utils/pokeApiClient";
+import { LocalStorageCacheStore } from "./utils/responseCache";
+import { isAbortError } from "./utils/apiErrors";
+import { generateSeed } from "./utils/seededRandom";
+import { getSearchParam, setSearchParams } from "./utils/urlState";
+import { getRoute, navigate, onRouteChange, pokemonRoute } from "./utils/router";
+import type { Route } from "./utils/router";
+import { EMPTY_FILTERS, filtersFromSearchParams, filtersToSearchParams } from "./utils/pokemonFilters";
+import type { PokemonFilters } from "./utils/pokemonFilters";
+import { parseCompareParam, toggleCompared } from "./utils/comparison";
+import { addTeamMember, createTeam, loadTeams, removeTeamMember, saveTeams } from "./utils/teams";
+import type { Team } from "./utils/teams";
+import { getPinned, isFavorite, loadFavorites, saveFavorites, toggleFavorite } from "./utils/favorites";
+import type { PinnedPokemon } from "./utils/favorites";
+import { loadLanguage, saveLanguage } from "./utils/language";
+import { getTranslator } from "./utils/i18n";
+import type { MessageKey } from "./utils/i18n";
+import { loadUnitSystem, saveUnitSystem } from "./utils/units";
+import { loadStatsIndex, saveStatsIndex } from "./utils/statsIndex";
+import { isOfflineReady, loadOfflineDownload, onApiResponse, onOfflineReadyChange, saveOfflineDownload, updateStaleData } from "./utils/offline";
+import type { StaleData } from "./utils/offline";
+import { analyzeTeam } from "./utils/teamAnalysis";
+import type { TypeChart } from "./utils/typeEffectiveness";
+import type { Pokemon, PokemonWithImage, PokemonWithDescription, PokemonListItem, MoveData, NamedAPIResource } from "./types/pokemon";
 
 const AppContainer = styled.div`
   min-height: 100vh;
@@ -29,181 +77,648 @@ const Dashboard = styled.div`
   }
 `;
 
+const LIST_PAGE_SIZE = 20;
+
+const loadInitialTeams = (): Team[] => {
+  const saved = loadTeams();
+  return saved.length ? saved : [createTeam("Team 1")];
+};
+
+const readListMode = (): ListMode => {
+  const mode = getSearchParam("mode");
+  return mode === "browse" || mode === "filter" || mode === "favorites" ? mode : "random";
+};
+
+/**
+ * Page offset in the URL, for the paged mode it belongs to
+ */
+const readListOffset = (mode: ListMode): number => (readListMode() === mode ? Number(getSearchParam("offset")) || 0 : 0);
+
 interface AppProps {
   requestTimeout?: number; // Allow tests to override timeout
+  apiBaseUrl?: string; // Overrides VITE_POKEAPI_BASE_URL, e.g. for a local fixture server
+  persistCache?: boolean; // Keep small responses (list, types) in localStorage across reloads
 }
 
-function App({ requestTimeout = 10000 }: AppProps = {}) {
+function App({ requestTimeout = 10000, apiBaseUrl, persistCache = true }: AppProps = {}) {
+  const client = useMemo(
+    () => new PokeApiClient({ baseUrl: apiBaseUrl, persistentStore: persistCache ? new LocalStorageCacheStore() : undefined }),
+    [apiBaseUrl, persistCache],
+  );
   const [pokemonList, setPokemonList] = useState<PokemonWithImage[]>([]);
   const [selectedPokemon, setSelectedPokemon] = useState<PokemonWithDescription | null>(null);
   const [loading, setLoading] = useState(false);
   const [detailsLoading, setDetailsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [detailsError, setDetailsError] = useState<MessageKey | null>(null);
+  // Move details by name, loaded as learnset rows come on screen
+  const [moveDetails, setMoveDetails] = useState<Record<string, MoveData>>({});
+  const [openAbility, setOpenAbility] = useState<OpenAbility | null>(null);
+  // The selected Pokemon is also in the path (/pokemon/:nameOrId), see utils/router.ts
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null);
+  // Seed for the random list; kept in the URL (?seed=abc) so a list can be shared
+  const [seed, setSeed] = useState(() => getSearchParam("seed") || generateSeed());
+  const [searchIndex, setSearchIndex] = useState<PokemonListItem[]>([]);
+  // Browse and Filter modes page through their results; the mode, page offset and filters are kept in the URL too
+  const [mode, setMode] = useState<ListMode>(readListMode);
+  const [pageUrl, setPageUrl] = useState(() => client.listPokemonUrl({ limit: LIST_PAGE_SIZE, offset: readListOffset("browse") }));
+  const [filters, setFilters] = useState<PokemonFilters>(() => filtersFromSearchParams(getSearchParam));
+  const [filterOffset, setFilterOffset] = useState(() => readListOffset("filter"));
+  const [filterProgress, setFilterProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [page, setPage] = useState<PokemonPageInfo | null>(null);
+  // Comparison tray; while the comparison is open its names are in the URL (?compare=a,b) so it can be shared
+  const [comparedNames, setComparedNames] = useState(() => parseCompareParam(getSearchParam("compare")));
+  const [comparing, setComparing] = useState(() => parseCompareParam(getSearchParam("compare")).length >= 2);
+  const [comparedPokemon, setComparedPokemon] = useState<PokemonWithDescription[]>([]);
+  const [comparisonLoading, setComparisonLoading] = useState(false);
+  const [comparisonError, setComparisonError] = useState<MessageKey | null>(null);
+  // Teams are saved to localStorage on every change; members are loaded by name for the analysis
+  const [teams, setTeams] = useState<Team[]>(loadInitialTeams);
+  const [activeTeamId, setActiveTeamId] = useState(() => teams[0].id);
+  const [teamMembers, setTeamMembers] = useState<Pokemon[]>([]);
+  const [typeChart, setTypeChart] = useState<TypeChart | null>(null);
+  const [teamLoading, setTeamLoading] = useState(false);
+  const [teamError, setTeamError] = useState<MessageKey | null>(null);
+  // Favorites are saved to localStorage on every change, with the option to keep them on Refresh
+  const [favorites, setFavorites] = useState(loadFavorites);
+  // Language of the UI strings and of PokeAPI text (Pokedex entries, names, effects); saved to localStorage
+  const [language, setLanguage] = useState(loadLanguage);
+  // Metric or imperial height and weight; saved to localStorage
+  const [units, setUnits] = useState(loadUnitSystem);
+  // Every Pokemon's base stats, for percentiles; built on request and saved to localStorage
+  const [statsIndex, setStatsIndex] = useState(loadStatsIndex);
+  const [statsIndexProgress, setStatsIndexProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [statsIndexError, setStatsIndexError] = useState<MessageKey | null>(null);
+  // Set while data on screen comes from the service worker's cache because PokeAPI is unreachable
+  const [staleData, setStaleData] = useState<StaleData | null>(null);
+  // Downloads are only offered once a service worker controls the page and can cache them
+  const [offlineReady, setOfflineReady] = useState(isOfflineReady);
+  const [offlineDownload, setOfflineDownload] = useState(loadOfflineDownload);
+  const [offlineProgress, setOfflineProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [offlineError, setOfflineError] = useState<MessageKey | null>(null);
+
+  // Only the latest list and details loads may update state; starting a new one aborts the previous
+  const listControllerRef = useRef<AbortController | null>(null);
+  const detailsControllerRef = useRef<AbortController | null>(null);
+  const comparisonControllerRef = useRef<AbortController | null>(null);
+  const teamControllerRef = useRef<AbortController | null>(null);
+  const movesControllerRef = useRef<AbortController | null>(null);
+  const abilityControllerRef = useRef<AbortController | null>(null);
+  const statsIndexControllerRef = useRef<AbortController | null>(null);
+  const offlineControllerRef = useRef<AbortController | null>(null);
+  // Favorite cards to keep in place on the next reroll, set by handleRefresh
+  const pinnedRef = useRef<PinnedPokemon[]>([]);
+  // The first sync only tidies the URL the page was opened with; later list changes add history entries
+  const listUrlSyncedRef = useRef(false);
+
+  const activeTeam = teams.find((team) => team.id === activeTeamId) ?? teams[0];
+  // The list and details translate their own strings; errors shown by the English-only panels are translated here
+  const t = getTranslator(language);
+  const favoriteNames = favorites.items.map((item) => item.name);
+  const teamAnalysis = useMemo(() => (typeChart && teamMembers.length ? analyzeTeam(teamMembers, typeChart) : null), [teamMembers, typeChart]);
+
+  const startRequest = (ref: { current: AbortController | null }) => {
+    ref.current?.abort();
+    ref.current = new AbortController();
+    return ref.current.signal;
+  };
 
   /**
-   * Fetches the Pokemon list with parallel loading for images
+   * Runs a list load through the shared data layer
    *
-   * REFACTORING NOTES (Issue #2):
-   * =============================
-   * BEFORE: Sequential loading with for-loop (10-15 seconds)
-   * - Fetched details one-by-one in a for loop
-   * - Users waited for all 10 requests before seeing anything
-   * - Poor UX on slow connections
+   * Skeleton cards are shown as soon as the list itself is known, and each
+   * card is swapped in individually when its own detail request settles.
+   * See utils/pokemonFetcher.ts for the parallel loading implementation.
    *
-   * AFTER: Parallel loading with Promise.all (1-2 seconds)
-   * - All detail requests fire simultaneously
-   * - 10x faster load time (parallelization)
-   * - Skeleton cards show immediately for better perceived performance
-   * - Graceful error handling per Pokemon (one failure doesn't block others)
-   *
-   * IMPLEMENTATION APPROACH:
-   * 1. Show skeleton cards immediately (instant feedback)
-   * 2. Use Promise.allSettled to fetch all details in parallel
-   * 3. Filter out failures gracefully (some Pokemon may fail without breaking UI)
-   * 4. Type-safe with proper TypeScript interfaces
-   *
-   * ALTERNATIVES CONSIDERED:
-   * - Option A: Keep sequential (rejected - too slow)
-   * - Option B: Self-loading card components (more complex, harder to test)
-   * - Option C: React Query with suspense (requires major refactor)
-   * - ✅ Option D: Promise.allSettled (chosen - simple, effective, testable)
+   * @param load - Fetcher to run with the progress callbacks and cancellation signal
    */
-  const fetchPokemonList = async () => {
+  const loadList = async (load: (options: FetchPokemonOptions) => Promise<PokemonWithImage[]>) => {
+    const signal = startRequest(listControllerRef);
     setLoading(true);
     setError(null);
 
     try {
-      // Fetch the list of available Pokemon
-      const response = await fetch("https://pokeapi.co/api/v2/pokemon?limit=1000");
-      const data: PokemonListResponse = await response.json();
-
-      // Select 10 random Pokemon
-      const randomPokemon: PokemonWithImage[] = [];
-      const usedIndices = new Set<number>();
-
-      while (randomPokemon.length < 10) {
-        const randomIndex = Math.floor(Math.random() * data.results.length);
-        if (!usedIndices.has(randomIndex)) {
-          usedIndices.add(randomIndex);
-          const pokemon = data.results[randomIndex];
-          // Add to list with loading state for skeleton cards
-          randomPokemon.push({
-            name: pokemon.name,
-            url: pokemon.url,
-            image: null,
-            isLoading: true,
-          });
-        }
-      }
+      const results = await load({
+        client,
+        requestTimeout,
+        signal,
+        onListLoaded: (skeletons) => {
+          if (signal.aborted) return;
+          // Show skeleton cards immediately - improves perceived performance
+          setPokemonList(skeletons);
+          setLoading(false);
+        },
+        onPokemonLoaded: (pokemon, index) => {
+          if (signal.aborted) return;
+          setPokemonList((current) => current.map((entry, i) => (i === index ? pokemon : entry)));
+        },
+      });
 
-      // Show skeleton cards immediately - improves perceived performance
-      setPokemonList(randomPokemon);
-      setLoading(false); // Stop loading indicator, but cards still loading
-
-      // PARALLEL LOADING: Fetch all Pokemon details simultaneously
-      // Using Promise.allSettled to handle individual failures gracefully
-      const detailPromises = randomPokemon.map(async (pokemon) => {
-        try {
-          // Add timeout to prevent hanging requests
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
-
-          const detailResponse = await fetch(pokemon.url, { signal: controller.signal });
-          clearTimeout(timeoutId);
-
-          const details: Pokemon = await detailResponse.json();
-          return {
-            name: pokemon.name,
-            url: pokemon.url,
-            image: details.sprites.front_default,
-            isLoading: false,
-          };
-        } catch (err) {
-          // Individual Pokemon failure - return without image
-          console.error(`Failed to load details for ${pokemon.name}:`, err);
-          return {
-            name: pokemon.name,
-            url: pokemon.url,
-            image: null,
-            isLoading: false,
-          };
-        }
+      if (!signal.aborted) setPokemonList(results);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(navigator.onLine ? "listLoadFailed" : "listOffline");
+      console.error("Pokemon list fetch error:", err);
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Loads 10 random Pokemon
+   * @param listSeed - Seed that determines which Pokemon are picked
+   */
+  const fetchPokemonList = (listSeed: string) => {
+    const pinned = pinnedRef.current;
+    pinnedRef.current = [];
+    return loadList((options) => fetchPokemonListWithDetails({ ...options, seed: listSeed, pinned }));
+  };
+
+  /**
+   * Loads one Pokedex page in National Dex order
+   * @param url - List page URL, e.g. the `next` link of the current page
+   */
+  const fetchBrowsePage = (url: string) =>
+    loadList(async (options) => {
+      const result = await fetchPokemonPage(url, { ...options, onPageLoaded: setPage });
+      return result.pokemon;
+    });
+
+  /**
+   * Loads one page of the Pokemon matching the filters
+   * Stat filters load every candidate's details first; progress is shown meanwhile.
+   */
+  const fetchFilterPage = (activeFilters: PokemonFilters, offset: number) => {
+    setFilterProgress(null);
+    return loadList(async (options) => {
+      const result = await fetchFilteredPokemon(activeFilters, offset, LIST_PAGE_SIZE, {
+        ...options,
+        onProgress: (loaded, total) => {
+          if (!options.signal.aborted) setFilterProgress({ loaded, total });
+        },
+        onPageLoaded: (info) => {
+          setFilterProgress(null);
+          setPage(info);
+        },
       });
+      return result.pokemon;
+    });
+  };
 
-      // Wait for all requests to complete (in parallel)
-      const results = await Promise.allSettled(detailPromises);
+  const reloadList = () => {
+    if (mode === "browse") return fetchBrowsePage(pageUrl);
+    if (mode === "filter") return fetchFilterPage(filters, filterOffset);
+    if (mode === "favorites") return loadList((options) => fetchPokemonCards(favorites.items, options));
+    return fetchPokemonList(seed);
+  };
 
-      // Extract successful results and update state
-      const pokemonWithImages = results.filter((result) => result.status === "fulfilled").map((result) => (result as PromiseFulfilledResult<PokemonWithImage>).value);
+  /**
+   * Retries a single card whose detail request failed
+   */
+  const retryPokemonCard = async (pokemon: PokemonWithImage) => {
+    const signal = listControllerRef.current?.signal;
+    const replace = (entry: PokemonWithImage) => setPokemonList((current) => current.map((p) => (p.name === entry.name ? entry : p)));
 
-      // Update list with images loaded
-      setPokemonList(pokemonWithImages);
+    replace({ ...pokemon, isLoading: true, error: undefined });
+    try {
+      replace(await fetchPokemonCard(pokemon, { client, requestTimeout, signal }));
     } catch (err) {
-      setError("Failed to load Pokemon list");
-      console.error("Pokemon list fetch error:", err);
-      setLoading(false);
+      // Only cancellation rejects, and a cancelled card belongs to a list that was replaced
+      if (!isAbortError(err)) throw err;
     }
   };
 
   /**
    * Fetches detailed Pokemon information including species description
+   *
+   * Selecting another Pokemon aborts the previous load, so a slow response for an
+   * earlier click can never overwrite the details of the latest one.
+   *
    * @param url - The Pokemon detail API endpoint URL
    */
-  const fetchPokemonDetails = async (url: string) => {
+  const loadPokemonDetails = async (url: string) => {
+    const signal = startRequest(detailsControllerRef);
+    closeAbility();
+    setSelectedUrl(url);
     setDetailsLoading(true);
     setDetailsError(null);
 
     try {
-      const response = await fetch(url);
-      const data: Pokemon = await response.json();
+      const details = await fetchPokemonDetails(url, { client, signal });
+      if (!signal.aborted) setSelectedPokemon(details);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setDetailsError("detailsLoadFailed");
+      console.error(`Pokemon details fetch error for ${url}:`, err);
+    } finally {
+      if (!signal.aborted) setDetailsLoading(false);
+    }
+  };
 
-      const speciesResponse = await fetch(data.species.url);
-      const speciesData: SpeciesData = await speciesResponse.json();
+  /**
+   * Loads the details of the learnset rows on screen
+   * Picking another method or version group aborts the rows still loading for the previous one.
+   */
+  const loadMoves = async (moves: NamedAPIResource[]) => {
+    const signal = startRequest(movesControllerRef);
 
-      // Find English description or fallback to first available
-      const englishEntry = speciesData.flavor_text_entries.find((entry) => entry.language.name === "en");
-      const description = englishEntry?.flavor_text || speciesData.flavor_text_entries[0]?.flavor_text || "No description available";
+    try {
+      await fetchMoves(moves, { client, signal, onMoveLoaded: (move) => setMoveDetails((current) => ({ ...current, [move.name]: move })) });
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Pokemon moves fetch error:", err);
+    }
+  };
 
-      setSelectedPokemon({
-        ...data,
-        description: description.replace(/\f/g, " "), // Clean up form feed characters
-      });
+  /**
+   * Opens the popover of an ability and loads its effect and the Pokemon that share it
+   * @param name - Ability name, e.g. "static"
+   */
+  const loadAbility = async (name: string) => {
+    const signal = startRequest(abilityControllerRef);
+    setOpenAbility({ name, details: null, loading: true, error: null });
+
+    try {
+      const details = await fetchAbilityDetails(name, { client, signal, language });
+      if (!signal.aborted) setOpenAbility({ name, details, loading: false, error: null });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setOpenAbility({ name, details: null, loading: false, error: "abilityLoadFailed" });
+      console.error("Pokemon ability fetch error:", err);
+    }
+  };
+
+  const closeAbility = () => {
+    abilityControllerRef.current?.abort();
+    setOpenAbility(null);
+  };
+
+  /**
+   * Loads the details of every compared Pokemon in parallel
+   * @param names - Names from the comparison tray
+   */
+  const loadComparison = async (names: string[]) => {
+    const signal = startRequest(comparisonControllerRef);
+    setComparisonLoading(true);
+    setComparisonError(null);
+
+    try {
+      const details = await Promise.all(names.map((name) => fetchPokemonDetails(name, { client, signal })));
+      if (!signal.aborted) setComparedPokemon(details);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setComparisonError("comparisonLoadFailed");
+      console.error("Pokemon comparison fetch error:", err);
+    } finally {
+      if (!signal.aborted) setComparisonLoading(false);
+    }
+  };
+
+  /**
+   * Loads the active team's members, and the type chart the first time it's needed
+   * @param names - Member names of the active team
+   */
+  const loadTeam = async (names: string[]) => {
+    const signal = startRequest(teamControllerRef);
+    if (names.length === 0) {
+      setTeamMembers([]);
+      setTeamLoading(false);
+      return;
+    }
+    setTeamLoading(true);
+    setTeamError(null);
+
+    try {
+      const [members, chart] = await Promise.all([fetchTeamMembers(names, { client, signal }), typeChart ?? fetchTypeChart({ client, signal })]);
+      if (signal.aborted) return;
+      setTeamMembers(members);
+      setTypeChart(chart);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setTeamError("teamLoadFailed");
+      console.error("Pokemon team fetch error:", err);
+    } finally {
+      if (!signal.aborted) setTeamLoading(false);
+    }
+  };
+
+  /**
+   * Builds the stats index from every Pokemon's details, reporting progress as they load
+   */
+  const loadStatsIndexFromApi = async () => {
+    const signal = startRequest(statsIndexControllerRef);
+    setStatsIndexError(null);
+
+    try {
+      const index = await fetchStatsIndex({ client, signal, onProgress: (loaded, total) => !signal.aborted && setStatsIndexProgress({ loaded, total }) });
+      if (signal.aborted) return;
+      setStatsIndex(index);
+      saveStatsIndex(index);
     } catch (err) {
-      setDetailsError(`Failed to load Pokemon details from ${url}`);
-      console.error("Pokemon details fetch error:", err);
+      if (isAbortError(err)) return;
+      setStatsIndexError("statsIndexFailed");
+      console.error("Stats index fetch error:", err);
     } finally {
-      setDetailsLoading(false);
+      if (!signal.aborted) setStatsIndexProgress(null);
     }
   };
 
+  /**
+   * Downloads every Pokemon's details and species for offline use, reporting progress as they load
+   */
+  const handleDownloadPokedex = async () => {
+    // Without a worker controlling the page nothing would be cached
+    if (!isOfflineReady()) {
+      setOfflineError("offlineNotReady");
+      return;
+    }
+    const signal = startRequest(offlineControllerRef);
+    setOfflineError(null);
+
+    try {
+      const result = await downloadPokedex({ client, signal, onProgress: (loaded, total) => !signal.aborted && setOfflineProgress({ loaded, total }) });
+      if (signal.aborted) return;
+      // The worker went away during the download, so there is nothing to record
+      if (!isOfflineReady()) {
+        setOfflineError("offlineNotReady");
+        return;
+      }
+      const download = { ...result, downloadedAt: Date.now() };
+      setOfflineDownload(download);
+      saveOfflineDownload(download);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setOfflineError("offlineDownloadFailed");
+      console.error("Pokedex download error:", err);
+    } finally {
+      if (!signal.aborted) setOfflineProgress(null);
+    }
+  };
+
+  const handleCancelDownload = () => {
+    offlineControllerRef.current?.abort();
+    setOfflineProgress(null);
+  };
+
+  const updateActiveTeam = (update: (team: Team) => Team) => setTeams((current) => current.map((team) => (team.id === activeTeam.id ? update(team) : team)));
+
+  const handleCreateTeam = () => {
+    const team = createTeam(`Team ${teams.length + 1}`);
+    setTeams((current) => [...current, team]);
+    setActiveTeamId(team.id);
+  };
+
+  /**
+   * Imports a Showdown paste as a new team once every set checks out
+   * @returns The problems found, by line; empty when the team was imported
+   */
+  const handleImportTeam = async (text: string) => {
+    const result = await importShowdownTeam(text, { client });
+    if (result.errors.length) return result.errors;
+
+    const team = {
+      ...createTeam(`Imported team ${teams.length + 1}`),
+      members: result.members.map((member) => member.name),
+      sets: Object.fromEntries(result.members.map((member) => [member.name, member.set])),
+    };
+    setTeams((current) => [...current, team]);
+    setActiveTeamId(team.id);
+    return [];
+  };
+
+  const handleDeleteTeam = () => {
+    const remaining = teams.filter((team) => team.id !== activeTeam.id);
+    const next = remaining.length ? remaining : [createTeam("Team 1")];
+    setTeams(next);
+    setActiveTeamId(next[0].id);
+  };
+
+  useEffect(() => saveTeams(teams), [teams]);
+
+  useEffect(() => saveFavorites(favorites), [favorites]);
+
+  useEffect(() => {
+    saveLanguage(language);
+    document.documentElement.lang = language;
+    // An open ability popover switches to the new language too
+    if (openAbility) loadAbility(openAbility.name);
+  }, [language]);
+
+  useEffect(() => saveUnitSystem(units), [units]);
+
+  useEffect(() => onApiResponse((notice) => setStaleData((current) => updateStaleData(current, notice))), []);
+  useEffect(() => onOfflineReadyChange(setOfflineReady), []);
+
+  useEffect(() => {
+    loadTeam(activeTeam.members);
+  }, [activeTeam.members.join(",")]);
+
+  useEffect(() => {
+    const open = comparing && comparedNames.length >= 2;
+    if (comparing && !open) setComparing(false);
+    setSearchParams({ compare: open ? comparedNames.join(",") : null });
+
+    if (open) loadComparison(comparedNames);
+    else comparisonControllerRef.current?.abort();
+  }, [comparing, comparedNames]);
+
+  useEffect(() => {
+    let params: Record<string, string | null>;
+    if (mode === "browse") {
+      params = { mode, offset: String(getPageOffset(pageUrl)), seed: null, ...filtersToSearchParams(EMPTY_FILTERS) };
+    } else if (mode === "favorites") {
+      params = { mode, offset: null, seed: null, ...filtersToSearchParams(EMPTY_FILTERS) };
+    } else if (mode === "filter") {
+      params = { mode, offset: filterOffset ? String(filterOffset) : null, seed: null, ...filtersToSearchParams(filters) };
+    } else {
+      params = { mode: null, offset: null, seed, ...filtersToSearchParams(EMPTY_FILTERS) };
+    }
+    // Mode, page and filter changes are history entries; back/forward restores them below
+    if (listUrlSyncedRef.current) navigate(getRoute(), params);
+    else setSearchParams(params);
+    listUrlSyncedRef.current = true;
+    reloadList();
+  }, [mode, seed, pageUrl, filters, filterOffset, mode === "favorites" && favoriteNames.join(",")]);
+
+  // Open the Pokemon in the URL on load, and follow back/forward afterwards
+  useEffect(() => {
+    const showRoute = (route: Route) => {
+      if (route.page === "pokemon") loadPokemonDetails(route.id);
+      else clearSelection();
+    };
+    showRoute(getRoute());
+
+    return onRouteChange((route) => {
+      showRoute(route);
+      // Restore the list the entry was made for; unchanged state is kept so the list isn't reloaded
+      const nextFilters = filtersFromSearchParams(getSearchParam);
+      const browseOffset = readListOffset("browse");
+      setMode(readListMode());
+      setSeed((current) => getSearchParam("seed") || current);
+      setPageUrl((current) => (getPageOffset(current) === browseOffset ? current : client.listPokemonUrl({ limit: LIST_PAGE_SIZE, offset: browseOffset })));
+      setFilters((current) => (JSON.stringify(filtersToSearchParams(current)) === JSON.stringify(filtersToSearchParams(nextFilters)) ? current : nextFilters));
+      setFilterOffset(readListOffset("filter"));
+    });
+  }, [client]);
+
   useEffect(() => {
-    fetchPokemonList();
+    const controller = new AbortController();
+    fetchPokemonIndex({ client, signal: controller.signal })
+      .then(setSearchIndex)
+      .catch((err) => {
+        // Search stays disabled; the rest of the dashboard still works
+        if (!isAbortError(err)) console.error("Pokemon index fetch error:", err);
+      });
+
+    return () => controller.abort();
+  }, [client]);
+
+  useEffect(() => {
+    return () => {
+      listControllerRef.current?.abort();
+      detailsControllerRef.current?.abort();
+      comparisonControllerRef.current?.abort();
+      teamControllerRef.current?.abort();
+      movesControllerRef.current?.abort();
+      abilityControllerRef.current?.abort();
+      statsIndexControllerRef.current?.abort();
+      offlineControllerRef.current?.abort();
+    };
   }, []);
 
   const handleSelectPokemon = (url: string) => {
-    fetchPokemonDetails(url);
+    navigate(pokemonRoute(url));
+    loadPokemonDetails(url);
   };
 
-  const handleRefresh = () => {
-    // Clear selected Pokemon details when refreshing the list
+  const handleSeedChange = (next: string) => {
+    navigate(getRoute(), { seed: next });
+    setSeed(next);
+  };
+
+  const handleFiltersChange = (next: PokemonFilters) => {
+    setFilters(next);
+    setFilterOffset(0);
+  };
+
+  const handleToggleFavorite = (pokemon: PokemonListItem) => setFavorites((current) => toggleFavorite(current, pokemon));
+
+  const clearSelection = () => {
+    detailsControllerRef.current?.abort();
+    movesControllerRef.current?.abort();
+    closeAbility();
+    setDetailsLoading(false);
     setSelectedPokemon(null);
+    setSelectedUrl(null);
     setDetailsError(null);
-    fetchPokemonList();
+  };
+
+  const handleRefresh = () => {
+    if (favorites.keepOnRefresh) pinnedRef.current = getPinned(pokemonList, favorites);
+    // Clear selected Pokemon details when refreshing the list
+    const next = generateSeed();
+    navigate({ page: "list" }, { seed: next });
+    clearSelection();
+    setSeed(next);
   };
 
   return (
     <AppContainer>
       <Header>🎮 Pokémon Dashboard</Header>
+      <SettingsBar language={language} onLanguageChange={setLanguage} units={units} onUnitsChange={setUnits} />
+      <OfflinePanel
+        supported={offlineReady}
+        staleData={staleData}
+        progress={offlineProgress}
+        result={offlineDownload}
+        error={offlineError && t(offlineError)}
+        onDownload={handleDownloadPokedex}
+        onCancel={handleCancelDownload}
+      />
+      <CompareTray
+        names={comparedNames}
+        onRemove={(name) => setComparedNames((names) => names.filter((entry) => entry !== name))}
+        onClear={() => setComparedNames([])}
+        onCompare={() => setComparing(true)}
+      />
+      {comparing && comparedNames.length >= 2 && (
+        <ComparisonView
+          pokemon={comparedPokemon}
+          loading={comparisonLoading}
+          error={comparisonError && t(comparisonError)}
+          onRetry={() => loadComparison(comparedNames)}
+          onClose={() => setComparing(false)}
+          units={units}
+        />
+      )}
       <Dashboard>
-        <PokemonList pokemon={pokemonList} loading={loading} error={error} onSelect={handleSelectPokemon} onRefresh={handleRefresh} selectedPokemon={selectedPokemon} />
+        <PokemonList
+          pokemon={pokemonList}
+          loading={loading}
+          error={error}
+          onSelect={handleSelectPokemon}
+          onRefresh={handleRefresh}
+          onRetry={reloadList}
+          onRetryPokemon={retryPokemonCard}
+          selectedPokemon={selectedPokemon}
+          seed={seed}
+          onSeedChange={handleSeedChange}
+          searchIndex={searchIndex}
+          mode={mode}
+          onModeChange={setMode}
+          page={page}
+          pageSize={LIST_PAGE_SIZE}
+          onPageChange={setPageUrl}
+          onFilterPageChange={setFilterOffset}
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          filterProgress={filterProgress}
+          comparedNames={comparedNames}
+          onToggleCompare={(name) => setComparedNames((names) => toggleCompared(names, name))}
+          favoriteNames={favoriteNames}
+          onToggleFavorite={handleToggleFavorite}
+          keepFavorites={favorites.keepOnRefresh}
+          onKeepFavoritesChange={(keepOnRefresh) => setFavorites((current) => ({ ...current, keepOnRefresh }))}
+          language={language}
+        />
         <PokemonDetails
           pokemon={selectedPokemon}
           loading={detailsLoading}
           error={detailsError}
-          onRetry={() => selectedPokemon && fetchPokemonDetails(selectedPokemon.species.url)}
+          onRetry={() => selectedUrl && loadPokemonDetails(selectedUrl)}
+          onSelect={handleSelectPokemon}
+          teamName={activeTeam.name}
+          teamMembers={activeTeam.members}
+          onAddToTeam={(name) => updateActiveTeam((team) => addTeamMember(team, name))}
+          isFavorite={selectedPokemon ? isFavorite(favorites, selectedPokemon.name) : false}
+          moveDetails={moveDetails}
+          onLoadMoves={loadMoves}
+          ability={openAbility}
+          onOpenAbility={loadAbility}
+          onCloseAbility={closeAbility}
+          language={language}
+          units={units}
+          statsIndex={statsIndex}
+          statsIndexProgress={statsIndexProgress}
+          statsIndexError={statsIndexError}
+          onBuildStatsIndex={loadStatsIndexFromApi}
+          onToggleFavorite={() => selectedPokemon && handleToggleFavorite({ name: selectedPokemon.name, url: client.resourceUrl("pokemon", selectedPokemon.id) })}
         />
       </Dashboard>
+      <TeamPanel
+        teams={teams}
+        team={activeTeam}
+        members={teamMembers}
+        analysis={teamAnalysis}
+        loading={teamLoading}
+        error={teamError && t(teamError)}
+        onRetry={() => loadTeam(activeTeam.members)}
+        onSelectTeam={setActiveTeamId}
+        onCreateTeam={handleCreateTeam}
+        onRenameTeam={(name) => updateActiveTeam((team) => ({ ...team, name }))}
+        onDeleteTeam={handleDeleteTeam}
+        onRemoveMember={(name) => updateActiveTeam((team) => removeTeamMember(team, name))}
+        onSelectPokemon={handleSelectPokemon}
+        onImport={handleImportTeam}
+      />
     </AppContainer>
   );
 }
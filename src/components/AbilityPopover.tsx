@@ -0,0 +1,171 @@
+import { useEffect } from "react";
+import styled from "styled-components";
+import type { MessageKey, Translate } from "../utils/i18n";
+import type { AbilityDetails } from "../types/pokemon";
+
+/**
+ * The ability whose popover is open, and the state of its details load
+ */
+export interface OpenAbility {
+  name: string;
+  details: AbilityDetails | null;
+  loading: boolean;
+  error: MessageKey | null;
+}
+
+const Popover = styled.div`
+  position: absolute;
+  top: calc(100% + 8px);
+  left: 0;
+  z-index: 10;
+  width: 320px;
+  padding: 16px;
+  background: white;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+  text-align: left;
+`;
+
+const PopoverHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 8px;
+`;
+
+const AbilityName = styled.h5`
+  margin: 0;
+  font-size: 16px;
+  color: #333;
+  text-transform: capitalize;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  color: #999;
+  cursor: pointer;
+  font-size: 18px;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const ShortEffect = styled.p`
+  margin: 0 0 8px 0;
+  font-weight: 600;
+  color: #333;
+`;
+
+const Effect = styled.p`
+  margin: 0 0 12px 0;
+  color: #666;
+  font-size: 13px;
+  line-height: 1.5;
+  white-space: pre-line;
+`;
+
+const SharedTitle = styled.div`
+  margin-bottom: 6px;
+  font-size: 12px;
+  font-weight: 600;
+  color: #667eea;
+  text-transform: uppercase;
+`;
+
+const SharedList = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px;
+  max-height: 120px;
+  overflow-y: auto;
+`;
+
+const SharedButton = styled.button`
+  background: #f0f4ff;
+  border: none;
+  border-radius: 4px;
+  padding: 2px 8px;
+  color: #667eea;
+  cursor: pointer;
+  font-size: 12px;
+  text-transform: capitalize;
+
+  &:hover {
+    background: #dfe6ff;
+  }
+`;
+
+const Message = styled.div<{ $error?: boolean }>`
+  color: ${(props) => (props.$error ? "#e53e3e" : "#666")};
+  font-size: 14px;
+`;
+
+interface AbilityPopoverProps extends OpenAbility {
+  /** Name of the Pokemon shown, left out of the shared list */
+  currentName: string;
+  onSelect: (url: string) => void;
+  onClose: () => void;
+  /** Translation function of the details view */
+  t: Translate;
+}
+
+/**
+ * AbilityPopover Component
+ *
+ * The effect of an ability and the other Pokemon that can have it. Closes on
+ * Escape, the close button, or when one of those Pokemon is opened.
+ */
+export function AbilityPopover({ name, details, loading, error, currentName, onSelect, onClose, t }: AbilityPopoverProps) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const shared = details?.pokemon.filter((entry) => entry.name !== currentName) ?? [];
+
+  return (
+    <Popover role="dialog" aria-label={t("abilityDialog", { name: name.replace(/-/g, " ") })}>
+      <PopoverHeader>
+        <AbilityName>{name.replace(/-/g, " ")}</AbilityName>
+        <CloseButton aria-label={t("close")} onClick={onClose}>
+          ×
+        </CloseButton>
+      </PopoverHeader>
+
+      {loading && <Message>{t("loadingAbility")}</Message>}
+      {error && <Message $error>{t(error)}</Message>}
+
+      {!loading && !error && details && (
+        <>
+          {details.shortEffect && <ShortEffect>{details.shortEffect}</ShortEffect>}
+          <Effect>{details.effect}</Effect>
+          {shared.length > 0 && (
+            <>
+              <SharedTitle>{t("alsoFoundOn")}</SharedTitle>
+              <SharedList>
+                {shared.map((entry) => (
+                  <SharedButton
+                    key={entry.name}
+                    onClick={() => {
+                      onClose();
+                      onSelect(entry.url);
+                    }}
+                  >
+                    {entry.name.replace(/-/g, " ")}
+                    {entry.isHidden && ` ${t("hidden")}`}
+                  </SharedButton>
+                ))}
+              </SharedList>
+            </>
+          )}
+        </>
+      )}
+    </Popover>
+  );
+}
@@ -0,0 +1,108 @@
+import styled from "styled-components";
+import { MAX_COMPARED } from "../utils/comparison";
+
+const Tray = styled.div`
+  max-width: 1400px;
+  margin: 0 auto 20px;
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  padding: 12px 16px;
+  background: white;
+  border-radius: 12px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+  color: #666;
+  font-size: 14px;
+`;
+
+const Chip = styled.span`
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  padding: 4px 10px;
+  background: #f0f4ff;
+  border: 1px solid #667eea;
+  border-radius: 12px;
+  color: #667eea;
+  font-weight: 600;
+  text-transform: capitalize;
+`;
+
+const RemoveButton = styled.button`
+  background: none;
+  border: none;
+  color: #667eea;
+  cursor: pointer;
+  font-size: 14px;
+  padding: 0 2px;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-left: auto;
+`;
+
+const CompareButton = styled.button`
+  background: #667eea;
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+
+  &:disabled {
+    background: #c3cbf3;
+    cursor: default;
+  }
+`;
+
+const ClearButton = styled.button`
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 8px 16px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+interface CompareTrayProps {
+  names: string[];
+  onRemove: (name: string) => void;
+  onClear: () => void;
+  onCompare: () => void;
+}
+
+/**
+ * CompareTray Component
+ *
+ * Collects Pokemon added from the list cards; comparing needs at least two.
+ */
+export function CompareTray({ names, onRemove, onClear, onCompare }: CompareTrayProps) {
+  if (names.length === 0) return null;
+
+  return (
+    <Tray role="region" aria-label="Comparison tray">
+      <span>
+        Compare ({names.length}/{MAX_COMPARED}):
+      </span>
+      {names.map((name) => (
+        <Chip key={name}>
+          {name.replace(/-/g, " ")}
+          <RemoveButton aria-label={`Remove ${name} from comparison`} onClick={() => onRemove(name)}>
+            ×
+          </RemoveButton>
+        </Chip>
+      ))}
+      <Actions>
+        <ClearButton onClick={onClear}>Clear</ClearButton>
+        <CompareButton disabled={names.length < 2} onClick={onCompare}>
+          Compare
+        </CompareButton>
+      </Actions>
+    </Tray>
+  );
+}
@@ -0,0 +1,318 @@
+import styled from "styled-components";
+import { StatBar, StatBarContainer } from "./StatBar";
+import { getTypeColor, POKEMON_TYPES } from "../utils/pokemonTypes";
+import { getBaseStat, getStatTotal, STAT_NAMES } from "../utils/pokemonFilters";
+import { getStatWinners } from "../utils/comparison";
+import { formatMultiplier } from "../utils/typeEffectiveness";
+import { getCardSprite } from "../utils/sprites";
+import { formatHeight, formatWeight } from "../utils/units";
+import type { UnitSystem } from "../utils/units";
+import type { StatName } from "../utils/pokemonFilters";
+import type { PokemonWithDescription } from "../types/pokemon";
+
+const Container = styled.div`
+  max-width: 1400px;
+  margin: 0 auto 30px;
+  background: white;
+  border-radius: 12px;
+  padding: 24px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 20px;
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  color: #333;
+`;
+
+const Button = styled.button`
+  background: #667eea;
+  color: white;
+  border: none;
+  padding: 10px 20px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+
+  &:hover {
+    background: #5568d3;
+  }
+`;
+
+const Message = styled.div<{ $error?: boolean }>`
+  text-align: center;
+  padding: 40px;
+  color: ${(props) => (props.$error ? "#e53e3e" : "#666")};
+`;
+
+const Section = styled.div`
+  margin-bottom: 24px;
+`;
+
+const SectionTitle = styled.h4`
+  margin: 0 0 12px 0;
+  color: #667eea;
+  font-size: 16px;
+  text-transform: uppercase;
+  letter-spacing: 1px;
+`;
+
+const Columns = styled.div<{ $count: number }>`
+  display: grid;
+  grid-template-columns: 140px repeat(${(props) => props.$count}, 1fr);
+  gap: 8px 16px;
+  align-items: center;
+`;
+
+const RowLabel = styled.div`
+  font-weight: 600;
+  color: #666;
+  text-transform: capitalize;
+`;
+
+const Cell = styled.div`
+  color: #333;
+  text-transform: capitalize;
+`;
+
+const PokemonHeader = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 4px;
+`;
+
+const PokemonImage = styled.img`
+  width: 96px;
+  height: 96px;
+  object-fit: contain;
+`;
+
+const PokemonName = styled.div<{ $color: string }>`
+  font-weight: 700;
+  color: ${(props) => props.$color};
+  text-transform: capitalize;
+`;
+
+const Types = styled.div`
+  display: flex;
+  gap: 4px;
+`;
+
+const TypeBadge = styled.span<{ $type: string }>`
+  padding: 2px 8px;
+  border-radius: 10px;
+  background: ${(props) => getTypeColor(props.$type)};
+  color: white;
+  font-size: 12px;
+  font-weight: 600;
+  text-transform: capitalize;
+`;
+
+const HiddenTag = styled.span`
+  color: #999;
+  font-size: 12px;
+`;
+
+const StatRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 12px;
+`;
+
+const StatName = styled.div`
+  width: 120px;
+  font-weight: 600;
+  color: #666;
+  text-transform: capitalize;
+`;
+
+const OverlaidBar = styled(StatBar)`
+  position: absolute;
+  top: 0;
+  left: 0;
+  opacity: 0.7;
+`;
+
+const StatValues = styled.div`
+  display: flex;
+  gap: 8px;
+  min-width: 160px;
+`;
+
+const StatValue = styled.span<{ $color: string; $winner: boolean }>`
+  width: 40px;
+  text-align: right;
+  color: ${(props) => props.$color};
+  font-weight: ${(props) => (props.$winner ? 800 : 400)};
+  text-decoration: ${(props) => (props.$winner ? "underline" : "none")};
+`;
+
+const Multiplier = styled(Cell)<{ $multiplier: number }>`
+  font-weight: 600;
+  color: ${(props) => (props.$multiplier > 1 ? "#e53e3e" : props.$multiplier < 1 ? "#38a169" : "#999")};
+`;
+
+/**
+ * One colour per column, shared by its name, stat bar and values
+ */
+const COMPARE_COLORS = ["#667eea", "#e53e3e", "#38a169", "#dd6b20"];
+
+interface ComparisonViewProps {
+  pokemon: PokemonWithDescription[];
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onClose: () => void;
+  /** Units for height and weight */
+  units: UnitSystem;
+}
+
+/**
+ * ComparisonView Component
+ *
+ * Compares the Pokemon in the tray side by side. Stat bars for the same stat share
+ * one track, drawn longest first so every bar stays visible, and the highest value
+ * of each stat is highlighted.
+ */
+export function ComparisonView({ pokemon, loading, error, onRetry, onClose, units }: ComparisonViewProps) {
+  const colorOf = (index: number) => COMPARE_COLORS[index % COMPARE_COLORS.length];
+
+  const header = (
+    <Header>
+      <Title>Comparison</Title>
+      <Button onClick={onClose}>Close</Button>
+    </Header>
+  );
+
+  if (loading) {
+    return (
+      <Container>
+        {header}
+        <Message>Loading comparison...</Message>
+      </Container>
+    );
+  }
+
+  if (error) {
+    return (
+      <Container>
+        {header}
+        <Message $error>{error}</Message>
+        <Message>
+          <Button onClick={onRetry}>Retry</Button>
+        </Message>
+      </Container>
+    );
+  }
+
+  const statRow = (label: string, stat: StatName | "total", value: (p: PokemonWithDescription) => number, showBars: boolean) => {
+    const winners = getStatWinners(pokemon, stat);
+    const columns = pokemon.map((p, index) => ({ p, color: colorOf(index), value: value(p) }));
+
+    return (
+      <StatRow key={stat}>
+        <StatName>{label}</StatName>
+        {showBars && (
+          <StatBarContainer>
+            {[...columns]
+              .sort((a, b) => b.value - a.value)
+              .map(({ p, color, value: statValue }) => (
+                <OverlaidBar key={p.name} value={statValue} $color={color} />
+              ))}
+          </StatBarContainer>
+        )}
+        <StatValues>
+          {columns.map(({ p, color, value: statValue }) => (
+            <StatValue key={p.name} $color={color} $winner={winners.includes(p.name)} aria-label={`${p.name} ${label}${winners.includes(p.name) ? " (highest)" : ""}`}>
+              {statValue}
+            </StatValue>
+          ))}
+        </StatValues>
+      </StatRow>
+    );
+  };
+
+  const matchupTypes = POKEMON_TYPES.filter((type) => pokemon.some((p) => p.matchups && p.matchups[type] !== 1));
+
+  return (
+    <Container>
+      {header}
+
+      <Section>
+        <Columns $count={pokemon.length}>
+          <div />
+          {pokemon.map((p, index) => (
+            <PokemonHeader key={p.name}>
+              {getCardSprite(p.sprites) && <PokemonImage src={getCardSprite(p.sprites)} alt={`${p.name} sprite`} />}
+              <PokemonName $color={colorOf(index)}>{p.name.replace(/-/g, " ")}</PokemonName>
+              <Types>
+                {p.types.map((t) => (
+                  <TypeBadge key={t.type.name} $type={t.type.name}>
+                    {t.type.name}
+                  </TypeBadge>
+                ))}
+              </Types>
+            </PokemonHeader>
+          ))}
+
+          <RowLabel>Height</RowLabel>
+          {pokemon.map((p) => (
+            <Cell key={p.name}>{p.height === undefined ? "Unknown" : formatHeight(p.height, units)}</Cell>
+          ))}
+
+          <RowLabel>Weight</RowLabel>
+          {pokemon.map((p) => (
+            <Cell key={p.name}>{p.weight === undefined ? "Unknown" : formatWeight(p.weight, units)}</Cell>
+          ))}
+
+          <RowLabel>Abilities</RowLabel>
+          {pokemon.map((p) => (
+            <Cell key={p.name}>
+              {p.abilities.map((a) => (
+                <div key={a.ability.name}>
+                  {a.ability.name.replace(/-/g, " ")}
+                  {a.is_hidden && <HiddenTag> (hidden)</HiddenTag>}
+                </div>
+              ))}
+            </Cell>
+          ))}
+        </Columns>
+      </Section>
+
+      <Section>
+        <SectionTitle>Base Stats</SectionTitle>
+        {STAT_NAMES.map((stat) => statRow(stat.replace("-", " "), stat, (p) => getBaseStat(p, stat), true))}
+        {statRow("Total", "total", getStatTotal, false)}
+      </Section>
+
+      {matchupTypes.length > 0 && (
+        <Section>
+          <SectionTitle>Damage Taken</SectionTitle>
+          <Columns $count={pokemon.length}>
+            {matchupTypes.map((type) => [
+              <RowLabel key={type}>
+                <TypeBadge $type={type}>{type}</TypeBadge>
+              </RowLabel>,
+              ...pokemon.map((p) => {
+                const multiplier = p.matchups?.[type] ?? 1;
+                return (
+                  <Multiplier key={`${type}-${p.name}`} $multiplier={multiplier}>
+                    {p.matchups ? formatMultiplier(multiplier) : "?"}
+                  </Multiplier>
+                );
+              }),
+            ])}
+          </Columns>
+        </Section>
+      )}
+    </Container>
+  );
+}
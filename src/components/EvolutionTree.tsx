@@ -0,0 +1,100 @@
+import styled from "styled-components";
+import { describeEvolution } from "../utils/evolution";
+import type { EvolutionStage } from "../types/pokemon";
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`;
+
+const Branches = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const StageButton = styled.button<{ $current: boolean }>`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  padding: 4px 8px;
+  border: 2px solid ${(props) => (props.$current ? "#667eea" : "#e0e0e0")};
+  border-radius: 8px;
+  background: ${(props) => (props.$current ? "#f0f4ff" : "white")};
+  cursor: pointer;
+
+  &:hover {
+    border-color: #667eea;
+  }
+`;
+
+const StageImage = styled.img`
+  width: 64px;
+  height: 64px;
+  object-fit: contain;
+`;
+
+const StagePlaceholder = styled.div`
+  width: 64px;
+  height: 64px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  color: #999;
+  font-size: 20px;
+`;
+
+const StageName = styled.span`
+  font-size: 12px;
+  font-weight: 600;
+  color: #333;
+  text-transform: capitalize;
+`;
+
+const Arrow = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  max-width: 110px;
+  color: #999;
+  font-size: 11px;
+  text-align: center;
+`;
+
+interface EvolutionTreeProps {
+  stage: EvolutionStage;
+  /** Name of the Pokemon being shown, highlighted in the tree */
+  currentName: string;
+  onSelect: (url: string) => void;
+}
+
+/**
+ * EvolutionTree Component
+ *
+ * Renders a stage followed by its evolutions, each labelled with its trigger.
+ * Branches (e.g. Eevee's) stack vertically; every stage opens its Pokemon on click.
+ */
+export function EvolutionTree({ stage, currentName, onSelect }: EvolutionTreeProps) {
+  return (
+    <Row>
+      <StageButton $current={stage.name === currentName} aria-current={stage.name === currentName || undefined} onClick={() => onSelect(stage.url)}>
+        {stage.image ? <StageImage src={stage.image} alt={`${stage.name} sprite`} /> : <StagePlaceholder>?</StagePlaceholder>}
+        <StageName>{stage.name.replace(/-/g, " ")}</StageName>
+      </StageButton>
+      {stage.evolvesTo.length > 0 && (
+        <Branches>
+          {stage.evolvesTo.map((next) => (
+            <Row key={next.name}>
+              <Arrow>
+                <span>→</span>
+                <span>{describeEvolution(next.conditions)}</span>
+              </Arrow>
+              <EvolutionTree stage={next} currentName={currentName} onSelect={onSelect} />
+            </Row>
+          ))}
+        </Branches>
+      )}
+    </Row>
+  );
+}
@@ -0,0 +1,214 @@
+import { Fragment, useState, useEffect } from "react";
+import styled from "styled-components";
+import { POKEMON_TYPES, getTypeColor } from "../utils/pokemonTypes";
+import { EMPTY_FILTERS, GENERATION_COUNT, STAT_NAMES } from "../utils/pokemonFilters";
+import type { PokemonFilters, SortKey, SortOrder, StatName, StatRange } from "../utils/pokemonFilters";
+import type { MessageKey, Translate } from "../utils/i18n";
+
+const Form = styled.form`
+  margin-bottom: 16px;
+  padding: 16px;
+  background: #f9f9f9;
+  border-radius: 8px;
+  color: #666;
+  font-size: 14px;
+`;
+
+const Section = styled.fieldset`
+  border: none;
+  margin: 0 0 12px;
+  padding: 0;
+`;
+
+const Legend = styled.legend`
+  margin-bottom: 6px;
+  font-weight: 600;
+  color: #333;
+`;
+
+const TypeChips = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+`;
+
+const TypeChip = styled.button<{ $type: string; $active: boolean }>`
+  padding: 4px 10px;
+  border-radius: 12px;
+  border: 2px solid ${(props) => getTypeColor(props.$type)};
+  background: ${(props) => (props.$active ? getTypeColor(props.$type) : "white")};
+  color: ${(props) => (props.$active ? "white" : "#333")};
+  font-size: 12px;
+  font-weight: 600;
+  text-transform: capitalize;
+  cursor: pointer;
+`;
+
+const StatGrid = styled.div`
+  display: grid;
+  grid-template-columns: auto 1fr 1fr;
+  gap: 6px 8px;
+  align-items: center;
+`;
+
+const StatLabel = styled.span`
+  text-transform: capitalize;
+`;
+
+const Input = styled.input`
+  width: 100%;
+  padding: 4px 8px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+  box-sizing: border-box;
+`;
+
+const Select = styled.select`
+  padding: 4px 8px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
+const Row = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+`;
+
+const Actions = styled(Row)`
+  justify-content: flex-end;
+`;
+
+const ApplyButton = styled.button`
+  background: #667eea;
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+
+  &:hover {
+    background: #5568d3;
+  }
+`;
+
+const ResetButton = styled.button`
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 8px 16px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX"];
+
+const SORT_LABELS: Record<SortKey, MessageKey> = {
+  id: "sortDexNumber",
+  name: "sortName",
+  total: "sortTotal",
+  hp: "statHp",
+  attack: "statAttack",
+  defense: "statDefense",
+  "special-attack": "statSpecialAttack",
+  "special-defense": "statSpecialDefense",
+  speed: "statSpeed",
+};
+
+interface FilterPanelProps {
+  filters: PokemonFilters;
+  onFiltersChange: (filters: PokemonFilters) => void;
+  t: Translate;
+}
+
+/**
+ * FilterPanel Component
+ *
+ * Edits a draft of the filters and applies it on submit, so typing a stat bound
+ * doesn't start a reload on every keystroke.
+ */
+export function FilterPanel({ filters, onFiltersChange, t }: FilterPanelProps) {
+  const [draft, setDraft] = useState(filters);
+
+  useEffect(() => setDraft(filters), [filters]);
+
+  const toggleType = (type: string) =>
+    setDraft((current) => ({ ...current, types: current.types.includes(type) ? current.types.filter((name) => name !== type) : [...current.types, type] }));
+
+  const setBound = (stat: StatName, bound: keyof StatRange, value: string) =>
+    setDraft((current) => {
+      const range = { min: null, max: null, ...current.stats[stat], [bound]: value === "" ? null : Number(value) };
+      return { ...current, stats: { ...current.stats, [stat]: range } };
+    });
+
+  return (
+    <Form
+      aria-label={t("filters")}
+      onSubmit={(event) => {
+        event.preventDefault();
+        onFiltersChange(draft);
+      }}
+    >
+      <Section>
+        <Legend>{t("type")}</Legend>
+        <TypeChips>
+          {POKEMON_TYPES.map((type) => (
+            <TypeChip key={type} type="button" $type={type} $active={draft.types.includes(type)} aria-pressed={draft.types.includes(type)} onClick={() => toggleType(type)}>
+              {type}
+            </TypeChip>
+          ))}
+        </TypeChips>
+      </Section>
+      <Section>
+        <Legend>{t("generation")}</Legend>
+        <Select
+          aria-label={t("generation")}
+          value={draft.generation ?? ""}
+          onChange={(event) => setDraft({ ...draft, generation: event.target.value ? Number(event.target.value) : null })}
+        >
+          <option value="">{t("anyGeneration")}</option>
+          {Array.from({ length: GENERATION_COUNT }, (_, i) => (
+            <option key={i + 1} value={i + 1}>
+              {t("generationNumber", { number: ROMAN_NUMERALS[i] })}
+            </option>
+          ))}
+        </Select>
+      </Section>
+      <Section>
+        <Legend>{t("baseStats")}</Legend>
+        <StatGrid>
+          {STAT_NAMES.map((stat) => (
+            <Fragment key={stat}>
+              <StatLabel>{t(SORT_LABELS[stat])}</StatLabel>
+              <Input type="number" min={0} aria-label={t("statMinLabel", { stat: t(SORT_LABELS[stat]) })} placeholder={t("statMin")} value={draft.stats[stat]?.min ?? ""} onChange={(event) => setBound(stat, "min", event.target.value)} />
+              <Input type="number" min={0} aria-label={t("statMaxLabel", { stat: t(SORT_LABELS[stat]) })} placeholder={t("statMax")} value={draft.stats[stat]?.max ?? ""} onChange={(event) => setBound(stat, "max", event.target.value)} />
+            </Fragment>
+          ))}
+        </StatGrid>
+      </Section>
+      <Actions>
+        <Row>
+          <label htmlFor="pokemon-filter-sort">{t("sortBy")}</label>
+          <Select id="pokemon-filter-sort" value={draft.sort} onChange={(event) => setDraft({ ...draft, sort: event.target.value as SortKey })}>
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+              <option key={key} value={key}>
+                {t(SORT_LABELS[key])}
+              </option>
+            ))}
+          </Select>
+          <Select aria-label={t("sortOrder")} value={draft.order} onChange={(event) => setDraft({ ...draft, order: event.target.value as SortOrder })}>
+            <option value="asc">{t("ascending")}</option>
+            <option value="desc">{t("descending")}</option>
+          </Select>
+        </Row>
+        <ResetButton type="button" onClick={() => onFiltersChange(EMPTY_FILTERS)}>
+          {t("reset")}
+        </ResetButton>
+        <ApplyButton type="submit">{t("apply")}</ApplyButton>
+      </Actions>
+    </Form>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import type { UIEvent } from "react";
+import styled from "styled-components";
+import { getTypeColor } from "../utils/pokemonTypes";
+import { formatResourceName } from "../utils/evolution";
+import { getLearnMethodLabel, getLearnset, getVersionGroups, sortLearnset } from "../utils/moves";
+import type { MoveSortKey } from "../utils/moves";
+import type { SortOrder } from "../utils/pokemonFilters";
+import type { MoveData, NamedAPIResource, PokemonMove } from "../types/pokemon";
+import type { MessageKey, Translate } from "../utils/i18n";
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 12px;
+`;
+
+const Select = styled.select`
+  padding: 6px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
+const MethodButton = styled.button<{ $active: boolean }>`
+  background: ${(props) => (props.$active ? "#667eea" : "white")};
+  color: ${(props) => (props.$active ? "white" : "#667eea")};
+  border: 1px solid #667eea;
+  padding: 4px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 12px;
+  font-weight: 600;
+`;
+
+const TableScroller = styled.div`
+  max-height: 320px;
+  overflow-y: auto;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 14px;
+
+  th,
+  td {
+    padding: 4px 8px;
+    text-align: left;
+  }
+
+  tbody tr:nth-child(odd) {
+    background: #f8f9ff;
+  }
+`;
+
+const SortButton = styled.button`
+  background: none;
+  border: none;
+  padding: 0;
+  color: #666;
+  font-weight: 600;
+  cursor: pointer;
+`;
+
+const TypeBadge = styled.span<{ $type: string }>`
+  padding: 2px 8px;
+  border-radius: 10px;
+  background: ${(props) => getTypeColor(props.$type)};
+  color: white;
+  font-size: 12px;
+  font-weight: 600;
+  text-transform: capitalize;
+`;
+
+const Pending = styled.span`
+  color: #999;
+`;
+
+const MoreButton = styled.button`
+  display: block;
+  width: 100%;
+  margin-top: 4px;
+  padding: 6px;
+  background: none;
+  border: 1px dashed #667eea;
+  border-radius: 6px;
+  color: #667eea;
+  cursor: pointer;
+  font-size: 12px;
+`;
+
+// Rows shown, and whose details are loaded, before scrolling to the end or asking for more
+const MOVES_PAGE_SIZE = 20;
+
+// Columns whose values come from the move details
+const DETAIL_SORTS: MoveSortKey[] = ["type", "power", "accuracy", "pp"];
+
+const COLUMNS: { key: MoveSortKey; label: MessageKey }[] = [
+  { key: "level", label: "level" },
+  { key: "name", label: "move" },
+  { key: "type", label: "type" },
+  { key: "power", label: "power" },
+  { key: "accuracy", label: "accuracyShort" },
+  { key: "pp", label: "pp" },
+];
+
+interface MovesSectionProps {
+  moves: PokemonMove[];
+  /** Move details loaded so far, by move name */
+  moveDetails: Record<string, MoveData>;
+  /** Requests details for the moves on screen that aren't loaded yet */
+  onLoadMoves: (moves: NamedAPIResource[]) => void;
+  t: Translate;
+}
+
+/**
+ * MovesSection Component
+ *
+ * The learnset for one version group, one learn method at a time. Rows are shown a
+ * page at a time, and only the rows shown request their move details; scrolling to
+ * the end shows the next page. Sorting by a detail column (type, power, accuracy,
+ * PP) needs every row's details, so it loads the rest of the method's moves.
+ */
+export function MovesSection({ moves, moveDetails, onLoadMoves, t }: MovesSectionProps) {
+  const versionGroups = getVersionGroups(moves);
+  const [versionGroup, setVersionGroup] = useState(() => versionGroups[versionGroups.length - 1]?.name ?? "");
+  const learnset = getLearnset(moves, versionGroup);
+  const [method, setMethod] = useState(() => learnset[0]?.method ?? "");
+  const [sort, setSort] = useState<{ key: MoveSortKey; order: SortOrder }>({ key: "level", order: "asc" });
+  const [shown, setShown] = useState(MOVES_PAGE_SIZE);
+
+  const group = learnset.find((entry) => entry.method === method) ?? learnset[0];
+  const columns = COLUMNS.filter((column) => column.key !== "level" || group?.method === "level-up");
+  const rows = group ? sortLearnset(group.moves, sort.key, sort.order, moveDetails) : [];
+  const hasMore = rows.length > shown;
+
+  useEffect(() => {
+    if (!group) return;
+    const wanted = DETAIL_SORTS.includes(sort.key) ? group.moves : rows.slice(0, shown);
+    const missing = new Map(wanted.filter((entry) => !moveDetails[entry.move.name]).map((entry) => [entry.move.name, entry.move]));
+    if (missing.size) onLoadMoves([...missing.values()]);
+  }, [versionGroup, group?.method, shown, sort.key, sort.order]);
+
+  const showMore = () => setShown((current) => current + MOVES_PAGE_SIZE);
+
+  const selectVersionGroup = (name: string) => {
+    setVersionGroup(name);
+    setShown(MOVES_PAGE_SIZE);
+  };
+
+  const selectMethod = (name: string) => {
+    setMethod(name);
+    setShown(MOVES_PAGE_SIZE);
+  };
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight, scrollHeight } = event.currentTarget;
+    if (hasMore && scrollTop + clientHeight >= scrollHeight - 40) showMore();
+  };
+
+  const handleSort = (key: MoveSortKey) => setSort((current) => ({ key, order: current.key === key && current.order === "asc" ? "desc" : "asc" }));
+
+  const cell = (move: MoveData | undefined, value: (move: MoveData) => number | null) => {
+    if (!move) return <Pending>…</Pending>;
+    return value(move) ?? "—";
+  };
+
+  return (
+    <div>
+      <Controls>
+        <Select aria-label={t("versionGroup")} value={versionGroup} onChange={(event) => selectVersionGroup(event.target.value)}>
+          {versionGroups.map((entry) => (
+            <option key={entry.name} value={entry.name}>
+              {formatResourceName(entry.name)}
+            </option>
+          ))}
+        </Select>
+        {learnset.map((entry) => (
+          <MethodButton key={entry.method} $active={entry.method === group?.method} aria-pressed={entry.method === group?.method} onClick={() => selectMethod(entry.method)}>
+            {getLearnMethodLabel(entry.method, t)} ({entry.moves.length})
+          </MethodButton>
+        ))}
+      </Controls>
+
+      {group && (
+        <TableScroller onScroll={handleScroll}>
+          <Table>
+            <thead>
+              <tr>
+                {columns.map((column) => (
+                  <th key={column.key} aria-sort={sort.key === column.key ? (sort.order === "asc" ? "ascending" : "descending") : undefined}>
+                    <SortButton onClick={() => handleSort(column.key)}>
+                      {t(column.label)}
+                      {sort.key === column.key && (sort.order === "asc" ? " ▲" : " ▼")}
+                    </SortButton>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, shown).map((entry) => {
+                const move = moveDetails[entry.move.name];
+                return (
+                  <tr key={`${entry.move.name}-${entry.level}`}>
+                    {group.method === "level-up" && <td>{entry.level || t("evolutionLevel")}</td>}
+                    <td>{formatResourceName(entry.move.name)}</td>
+                    <td>{move ? <TypeBadge $type={move.type.name}>{move.type.name}</TypeBadge> : <Pending>…</Pending>}</td>
+                    <td>{cell(move, (data) => data.power)}</td>
+                    <td>{cell(move, (data) => data.accuracy)}</td>
+                    <td>{cell(move, (data) => data.pp)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </Table>
+          {hasMore && <MoreButton onClick={showMore}>{t("showMoreMoves", { count: rows.length - shown })}</MoreButton>}
+        </TableScroller>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import styled from "styled-components";
+import type { OfflineDownload, StaleData } from "../utils/offline";
+
+const Panel = styled.div`
+  max-width: 1400px;
+  margin: 0 auto 20px;
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  padding: 12px 16px;
+  background: white;
+  border-radius: 12px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+  color: #666;
+  font-size: 14px;
+`;
+
+const StaleBanner = styled.div`
+  flex-basis: 100%;
+  padding: 8px 12px;
+  background: #fffbea;
+  border: 1px solid #f6e05e;
+  border-radius: 6px;
+  color: #744210;
+`;
+
+const Button = styled.button`
+  background: #667eea;
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+const SecondaryButton = styled(Button)`
+  background: white;
+  color: #667eea;
+  border: 1px solid #667eea;
+`;
+
+const ProgressTrack = styled.div`
+  flex: 1;
+  min-width: 160px;
+  height: 12px;
+  background: #f0f0f0;
+  border-radius: 6px;
+  overflow: hidden;
+`;
+
+const ProgressFill = styled.div<{ $fraction: number }>`
+  height: 100%;
+  width: ${(props) => props.$fraction * 100}%;
+  background: linear-gradient(90deg, #667eea, #764ba2);
+  transition: width 0.2s ease;
+`;
+
+const Message = styled.span<{ $error?: boolean }>`
+  color: ${(props) => (props.$error ? "#e53e3e" : "#666")};
+`;
+
+interface OfflinePanelProps {
+  /** Whether a service worker controls the page and will keep the download */
+  supported: boolean;
+  staleData: StaleData | null;
+  progress: { loaded: number; total: number } | null;
+  /** The last completed download */
+  result: OfflineDownload | null;
+  error: string | null;
+  onDownload: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * OfflinePanel Component
+ *
+ * Downloads the Pokedex for offline use, and warns while the data on screen comes
+ * from the offline cache because PokeAPI can't be reached. Renders nothing when
+ * there is neither a download to offer nor stale data to flag.
+ */
+export function OfflinePanel({ supported, staleData, progress, result, error, onDownload, onCancel }: OfflinePanelProps) {
+  if (!supported && !staleData) return null;
+
+  return (
+    <Panel>
+      {staleData && (
+        <StaleBanner role="status">
+          📴 PokeAPI can't be reached, so this is cached data
+          {staleData.cachedAt !== null && ` from ${new Date(staleData.cachedAt).toLocaleString()}`}. It may be out of date.
+        </StaleBanner>
+      )}
+
+      {supported &&
+        (progress ? (
+          <>
+            <Message>
+              Downloading Pokédex… {progress.loaded} / {progress.total}
+            </Message>
+            <ProgressTrack role="progressbar" aria-label="Pokédex download" aria-valuemin={0} aria-valuemax={progress.total} aria-valuenow={progress.loaded}>
+              <ProgressFill $fraction={progress.total ? progress.loaded / progress.total : 0} />
+            </ProgressTrack>
+            <SecondaryButton onClick={onCancel}>Cancel</SecondaryButton>
+          </>
+        ) : (
+          <>
+            <Button onClick={onDownload}>⬇ Download Pokédex for offline</Button>
+            {result && (
+              <Message>
+                {result.downloaded} Pokémon available offline, downloaded {new Date(result.downloadedAt).toLocaleDateString()}
+                {result.failed > 0 && ` (${result.failed} failed; download again to retry them)`}
+              </Message>
+            )}
+            {error && <Message $error>{error}</Message>}
+          </>
+        ))}
+    </Panel>
+  );
+}
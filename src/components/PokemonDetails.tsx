@@ -1,5 +1,27 @@
+import { useState } from "react";
 import styled from "styled-components";
-import type { PokemonWithDescription } from "../types/pokemon";
+import { EvolutionTree } from "./EvolutionTree";
+import { TypeMatchups } from "./TypeMatchups";
+import { MovesSection } from "./MovesSection";
+import { AbilityPopover } from "./AbilityPopover";
+import { SpriteGallery } from "./SpriteGallery";
+import type { OpenAbility } from "./AbilityPopover";
+import { MAX_BASE_STAT, StatBar, StatBarContainer } from "./StatBar";
+import { StatRadar } from "./StatRadar";
+import { StatCalculator } from "./StatCalculator";
+import { getTypeColor } from "../utils/pokemonTypes";
+import { TEAM_SIZE } from "../utils/teams";
+import { getCardSprite } from "../utils/sprites";
+import { formatResourceName } from "../utils/evolution";
+import { DEFAULT_LANGUAGE, getFlavorTexts, selectFlavorText } from "../utils/language";
+import { getTranslator } from "../utils/i18n";
+import { formatHeight, formatWeight, getBodyMassIndex, getSizeClass } from "../utils/units";
+import type { MessageKey, Translate } from "../utils/i18n";
+import type { SizeClass, UnitSystem } from "../utils/units";
+import { getPercentile, getStatMax } from "../utils/statsIndex";
+import type { IndexedStat, StatsIndex } from "../utils/statsIndex";
+import { getBaseStat, getStatTotal, STAT_NAMES } from "../utils/pokemonFilters";
+import type { MoveData, NamedAPIResource, PokemonWithDescription } from "../types/pokemon";
 
 const Container = styled.div`
   background: white;
@@ -70,6 +92,18 @@ const PokemonImage = styled.img`
   object-fit: contain;
 `;
 
+const ImagePlaceholder = styled.div`
+  width: 120px;
+  height: 120px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: #f9f9f9;
+  border-radius: 8px;
+  color: #999;
+  font-size: 12px;
+`;
+
 const HeaderInfo = styled.div`
   flex: 1;
 `;
@@ -86,6 +120,37 @@ const PokemonId = styled.div`
   font-size: 14px;
 `;
 
+const FavoriteButton = styled.button<{ $active: boolean }>`
+  margin-left: 8px;
+  background: none;
+  border: none;
+  color: ${(props) => (props.$active ? "#ecc94b" : "#cbd5e0")};
+  cursor: pointer;
+  font-size: 24px;
+  vertical-align: middle;
+
+  &:hover {
+    color: #ecc94b;
+  }
+`;
+
+const TeamButton = styled.button`
+  margin-top: 8px;
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 4px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 12px;
+  font-weight: 600;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
 const Section = styled.div`
   margin-bottom: 20px;
 `;
@@ -131,22 +196,6 @@ const StatName = styled.div`
   text-transform: capitalize;
 `;
 
-const StatBarContainer = styled.div`
-  flex: 1;
-  height: 24px;
-  background: #f0f0f0;
-  border-radius: 12px;
-  overflow: hidden;
-  position: relative;
-`;
-
-const StatBar = styled.div<{ value: number }>`
-  height: 100%;
-  background: linear-gradient(90deg, #667eea, #764ba2);
-  width: ${(props) => (props.value / 255) * 100}%;
-  transition: width 0.3s ease;
-`;
-
 const StatValue = styled.div`
   width: 40px;
   text-align: right;
@@ -154,6 +203,49 @@ const StatValue = styled.div`
   color: #333;
 `;
 
+const StatPercentile = styled.div`
+  width: 44px;
+  text-align: right;
+  font-size: 12px;
+  color: #999;
+`;
+
+const StatsLayout = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 20px;
+
+  & > ${Stats} {
+    flex: 1;
+    min-width: 260px;
+  }
+`;
+
+const StatsIndexStatus = styled.div`
+  margin-top: 12px;
+  font-size: 13px;
+  color: #999;
+`;
+
+const StatsIndexButton = styled.button`
+  margin-top: 12px;
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 6px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+const VersionSelect = styled.select`
+  margin-bottom: 8px;
+  padding: 4px 8px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
 const Description = styled.p`
   color: #666;
   line-height: 1.6;
@@ -166,19 +258,40 @@ const Abilities = styled.div`
   gap: 8px;
 `;
 
-const AbilityBadge = styled.span`
+const AbilityAnchor = styled.div`
+  position: relative;
+`;
+
+const AbilityBadge = styled.button<{ $hidden: boolean }>`
   padding: 6px 12px;
-  background: #f0f4ff;
-  border: 1px solid #667eea;
+  background: ${(props) => (props.$hidden ? "white" : "#f0f4ff")};
+  border: 1px ${(props) => (props.$hidden ? "dashed" : "solid")} #667eea;
   border-radius: 6px;
   color: #667eea;
+  cursor: pointer;
   font-size: 14px;
   text-transform: capitalize;
+
+  &:hover {
+    background: #dfe6ff;
+  }
+`;
+
+const HiddenTag = styled.span`
+  margin-left: 4px;
+  color: #999;
+  font-size: 12px;
+  text-transform: none;
+`;
+
+const EvolutionScroller = styled.div`
+  overflow-x: auto;
+  padding-bottom: 4px;
 `;
 
 const PhysicalStats = styled.div`
   display: grid;
-  grid-template-columns: repeat(2, 1fr);
+  grid-template-columns: repeat(3, 1fr);
   gap: 16px;
 `;
 
@@ -201,43 +314,101 @@ const PhysicalStatValue = styled.div`
   font-weight: 700;
 `;
 
-function getTypeColor(type: string): string {
-  const colors: Record<string, string> = {
-    normal: "#A8A878",
-    fire: "#F08030",
-    water: "#6890F0",
-    electric: "#F8D030",
-    grass: "#78C850",
-    ice: "#98D8D8",
-    fighting: "#C03028",
-    poison: "#A040A0",
-    ground: "#E0C068",
-    flying: "#A890F0",
-    psychic: "#F85888",
-    bug: "#A8B820",
-    rock: "#B8A038",
-    ghost: "#705898",
-    dragon: "#7038F8",
-    dark: "#705848",
-    steel: "#B8B8D0",
-    fairy: "#EE99AC",
-  };
-  return colors[type] || "#777";
+const PhysicalStatNote = styled.div`
+  color: #999;
+  font-size: 12px;
+  margin-top: 4px;
+`;
+
+const isIndexedStat = (stat: string): stat is IndexedStat => stat === "total" || (STAT_NAMES as readonly string[]).includes(stat);
+
+const SIZE_CLASS_LABELS: Record<SizeClass, MessageKey> = {
+  airy: "sizeAiry",
+  slender: "sizeSlender",
+  average: "sizeAverage",
+  stocky: "sizeStocky",
+  heavyset: "sizeHeavyset",
+};
+
+/**
+ * Formats an optional physical measurement, which partial payloads may omit
+ */
+function formatMeasurement(value: number | undefined, format: (value: number) => string, unknown: string): string {
+  return value === undefined ? unknown : format(value);
+}
+
+/**
+ * The Pokedex entry in the selected language, from a game of the user's choice (the latest by default)
+ */
+function PokedexEntry({ pokemon, language, t }: { pokemon: PokemonWithDescription; language: string; t: Translate }) {
+  const [version, setVersion] = useState<string>();
+  const entries = getFlavorTexts(pokemon.flavorTexts ?? [], language);
+  const entry = selectFlavorText(pokemon.flavorTexts ?? [], language, version);
+  const versions = [...new Set(entries.map((candidate) => candidate.version))];
+
+  return (
+    <>
+      {versions.length > 1 && (
+        <VersionSelect aria-label={t("game")} value={entry?.version} onChange={(event) => setVersion(event.target.value)}>
+          {versions.map((name) => (
+            <option key={name} value={name}>
+              {formatResourceName(name)}
+            </option>
+          ))}
+        </VersionSelect>
+      )}
+      <Description>{entry?.text ?? pokemon.description}</Description>
+    </>
+  );
 }
 
 interface PokemonDetailsProps {
   pokemon: PokemonWithDescription | null;
   loading: boolean;
-  error: string | null;
+  /** Message key of the details error */
+  error: MessageKey | null;
   onRetry: () => void;
+  /** Opens another Pokemon, e.g. a stage of the evolution tree */
+  onSelect: (url: string) => void;
+  /** Name of the active team; the Pokemon shown can be added to it */
+  teamName: string;
+  teamMembers: string[];
+  onAddToTeam: (name: string) => void;
+  isFavorite: boolean;
+  onToggleFavorite: () => void;
+  /** Move details loaded so far, by move name; see MovesSection */
+  moveDetails: Record<string, MoveData>;
+  onLoadMoves: (moves: NamedAPIResource[]) => void;
+  /** Ability whose popover is open, if any */
+  ability: OpenAbility | null;
+  onOpenAbility: (name: string) => void;
+  onCloseAbility: () => void;
+  /** Language of the UI strings, Pokedex entries and species name */
+  language: string;
+  /** Units for height and weight */
+  units: UnitSystem;
+  /** Every Pokemon's base stats, for percentiles; null until built */
+  statsIndex: StatsIndex | null;
+  statsIndexProgress: { loaded: number; total: number } | null;
+  statsIndexError: MessageKey | null;
+  onBuildStatsIndex: () => void;
 }
 
-export function PokemonDetails({ pokemon, loading, error, onRetry }: PokemonDetailsProps) {
+/**
+ * PokemonDetails Component
+ *
+ * Shows the selected Pokemon. Payloads are validated in utils/validators.ts, which
+ * fills missing optional sections with empty values; empty sections are hidden here
+ * rather than rendered broken. UI strings follow the selected language (see utils/i18n.ts).
+ */
+export function PokemonDetails({ pokemon, loading, error, onRetry, onSelect, teamName, teamMembers, onAddToTeam, isFavorite, onToggleFavorite, moveDetails, onLoadMoves, ability, onOpenAbility, onCloseAbility, language, units, statsIndex, statsIndexProgress, statsIndexError, onBuildStatsIndex }: PokemonDetailsProps) {
+  const t = getTranslator(language);
+
   if (loading) {
     return (
       <Container>
-        <Title>Pokémon Details</Title>
-        <LoadingText>Loading details...</LoadingText>
+        <Title>{t("detailsTitle")}</Title>
+        <LoadingText>{t("loadingDetails")}</LoadingText>
       </Container>
     );
   }
@@ -245,10 +416,10 @@ export function PokemonDetails({ pokemon, loading, error, onRetry }: PokemonDeta
   if (error) {
     return (
       <Container>
-        <Title>Pokémon Details</Title>
+        <Title>{t("detailsTitle")}</Title>
         <ErrorContainer>
-          <ErrorText>{error}</ErrorText>
-          <RetryButton onClick={onRetry}>Retry</RetryButton>
+          <ErrorText>{t(error)}</ErrorText>
+          <RetryButton onClick={onRetry}>{t("retry")}</RetryButton>
         </ErrorContainer>
       </Container>
     );
@@ -257,77 +428,177 @@ export function PokemonDetails({ pokemon, loading, error, onRetry }: PokemonDeta
   if (!pokemon) {
     return (
       <Container>
-        <Title>Pokémon Details</Title>
-        <EmptyState>👆 Select a Pokémon from the list to view details</EmptyState>
+        <Title>{t("detailsTitle")}</Title>
+        <EmptyState>{t("selectPrompt")}</EmptyState>
       </Container>
     );
   }
 
+  const bodyMassIndex = getBodyMassIndex(pokemon.height, pokemon.weight);
+
+  // Percentile column of the stat rows, once the stats index is built
+  const percentileCell = (stat: string, value: number) => {
+    if (!statsIndex) return null;
+    const percentile = isIndexedStat(stat) ? getPercentile(statsIndex, stat, value) : null;
+    return <StatPercentile title={percentile === null ? undefined : t("percentileHint", { value: percentile })}>{percentile === null ? "" : `${percentile}%`}</StatPercentile>;
+  };
+
   return (
     <Container>
-      <Title>Pokémon Details</Title>
+      <Title>{t("detailsTitle")}</Title>
       <DetailsContent>
         <Header>
-          <PokemonImage src={pokemon.sprites.front_default || ""} alt={`${pokemon.name} sprite`} />
+          {getCardSprite(pokemon.sprites) ? <PokemonImage src={getCardSprite(pokemon.sprites)} alt={`${pokemon.name} sprite`} /> : <ImagePlaceholder>{t("noSprite")}</ImagePlaceholder>}
           <HeaderInfo>
-            <PokemonName>{pokemon.name}</PokemonName>
+            <PokemonName>
+              {(language !== DEFAULT_LANGUAGE && pokemon.localizedNames?.[language]) || pokemon.name}
+              <FavoriteButton $active={isFavorite} aria-pressed={isFavorite} aria-label={t("favorite", { name: pokemon.name })} onClick={onToggleFavorite}>
+                {isFavorite ? "★" : "☆"}
+              </FavoriteButton>
+            </PokemonName>
             <PokemonId>#{pokemon.id.toString().padStart(3, "0")}</PokemonId>
+            <TeamButton disabled={teamMembers.includes(pokemon.name) || teamMembers.length >= TEAM_SIZE} onClick={() => onAddToTeam(pokemon.name)}>
+              {t(teamMembers.includes(pokemon.name) ? "inTeam" : teamMembers.length >= TEAM_SIZE ? "teamFull" : "addToTeam", { team: teamName })}
+            </TeamButton>
           </HeaderInfo>
         </Header>
 
         <Section>
-          <SectionTitle>Description</SectionTitle>
-          <Description>{pokemon.description}</Description>
-        </Section>
-
-        <Section>
-          <SectionTitle>Types</SectionTitle>
-          <Types>
-            {pokemon.types.map((t) => (
-              <TypeBadge key={t.type.name} type={t.type.name}>
-                {t.type.name}
-              </TypeBadge>
-            ))}
-          </Types>
+          <SectionTitle>{t("description")}</SectionTitle>
+          <PokedexEntry key={`${pokemon.name}-${language}`} pokemon={pokemon} language={language} t={t} />
         </Section>
 
-        <Section>
-          <SectionTitle>Abilities</SectionTitle>
-          <Abilities>
-            {pokemon.abilities.map((a) => (
-              <AbilityBadge key={a.ability.name}>{a.ability.name.replace("-", " ")}</AbilityBadge>
-            ))}
-          </Abilities>
-        </Section>
+        {getCardSprite(pokemon.sprites) && (
+          <Section>
+            <SectionTitle>{t("sprites")}</SectionTitle>
+            <SpriteGallery key={pokemon.name} name={pokemon.name} sprites={pokemon.sprites} t={t} />
+          </Section>
+        )}
+
+        {pokemon.types.length > 0 && (
+          <Section>
+            <SectionTitle>{t("types")}</SectionTitle>
+            <Types>
+              {pokemon.types.map((t) => (
+                <TypeBadge key={t.type.name} type={t.type.name}>
+                  {t.type.name}
+                </TypeBadge>
+              ))}
+            </Types>
+          </Section>
+        )}
+
+        {pokemon.matchups && (
+          <Section>
+            <SectionTitle>{t("typeMatchups")}</SectionTitle>
+            <TypeMatchups multipliers={pokemon.matchups} />
+          </Section>
+        )}
+
+        {pokemon.abilities.length > 0 && (
+          <Section>
+            <SectionTitle>{t("abilities")}</SectionTitle>
+            <Abilities>
+              {pokemon.abilities.map((a) => (
+                <AbilityAnchor key={a.ability.name}>
+                  <AbilityBadge
+                    $hidden={a.is_hidden}
+                    aria-expanded={ability?.name === a.ability.name}
+                    onClick={() => (ability?.name === a.ability.name ? onCloseAbility() : onOpenAbility(a.ability.name))}
+                  >
+                    {a.ability.name.replace(/-/g, " ")}
+                    {a.is_hidden && <HiddenTag>{t("hidden")}</HiddenTag>}
+                  </AbilityBadge>
+                  {ability?.name === a.ability.name && <AbilityPopover {...ability} currentName={pokemon.name} onSelect={onSelect} onClose={onCloseAbility} t={t} />}
+                </AbilityAnchor>
+              ))}
+            </Abilities>
+          </Section>
+        )}
 
         <Section>
-          <SectionTitle>Physical Stats</SectionTitle>
+          <SectionTitle>{t("physicalStats")}</SectionTitle>
           <PhysicalStats>
             <PhysicalStat>
-              <PhysicalStatLabel>Height</PhysicalStatLabel>
-              <PhysicalStatValue>{pokemon.height}</PhysicalStatValue>
+              <PhysicalStatLabel>{t("height")}</PhysicalStatLabel>
+              <PhysicalStatValue>{formatMeasurement(pokemon.height, (value) => formatHeight(value, units), t("unknown"))}</PhysicalStatValue>
+            </PhysicalStat>
+            <PhysicalStat>
+              <PhysicalStatLabel>{t("weight")}</PhysicalStatLabel>
+              <PhysicalStatValue>{formatMeasurement(pokemon.weight, (value) => formatWeight(value, units), t("unknown"))}</PhysicalStatValue>
             </PhysicalStat>
             <PhysicalStat>
-              <PhysicalStatLabel>Weight</PhysicalStatLabel>
-              <PhysicalStatValue>{pokemon.weight}</PhysicalStatValue>
+              <PhysicalStatLabel>{t("build")}</PhysicalStatLabel>
+              <PhysicalStatValue>{bodyMassIndex === null ? t("unknown") : t(SIZE_CLASS_LABELS[getSizeClass(bodyMassIndex)])}</PhysicalStatValue>
+              {bodyMassIndex !== null && <PhysicalStatNote>{t("bodyMassIndex", { value: bodyMassIndex.toFixed(1) })}</PhysicalStatNote>}
             </PhysicalStat>
           </PhysicalStats>
         </Section>
 
-        <Section>
-          <SectionTitle>Base Stats</SectionTitle>
-          <Stats>
-            {pokemon.stats.map((stat) => (
-              <StatRow key={stat.stat.name}>
-                <StatName>{stat.stat.name.replace("-", " ")}</StatName>
-                <StatBarContainer>
-                  <StatBar value={stat.base_stat} />
-                </StatBarContainer>
-                <StatValue>{stat.base_stat}</StatValue>
-              </StatRow>
-            ))}
-          </Stats>
-        </Section>
+        {pokemon.evolution && pokemon.evolution.evolvesTo.length > 0 && (
+          <Section>
+            <SectionTitle>{t("evolution")}</SectionTitle>
+            <EvolutionScroller>
+              <EvolutionTree stage={pokemon.evolution} currentName={pokemon.species.name} onSelect={onSelect} />
+            </EvolutionScroller>
+          </Section>
+        )}
+
+        {pokemon.stats.length > 0 && (
+          <Section>
+            <SectionTitle>{t("baseStats")}</SectionTitle>
+            <StatsLayout>
+              <StatRadar
+                label={t("statsChart", { name: formatResourceName(pokemon.name) })}
+                stats={STAT_NAMES.map((stat) => ({ stat, value: getBaseStat(pokemon, stat), max: (statsIndex && getStatMax(statsIndex, stat)) ?? MAX_BASE_STAT }))}
+              />
+              <Stats>
+                {pokemon.stats.map((stat) => (
+                  <StatRow key={stat.stat.name}>
+                    <StatName>{stat.stat.name.replace(/-/g, " ")}</StatName>
+                    <StatBarContainer>
+                      <StatBar value={stat.base_stat} $max={statsIndex && isIndexedStat(stat.stat.name) ? getStatMax(statsIndex, stat.stat.name) : undefined} />
+                    </StatBarContainer>
+                    <StatValue>{stat.base_stat}</StatValue>
+                    {percentileCell(stat.stat.name, stat.base_stat)}
+                  </StatRow>
+                ))}
+                <StatRow>
+                  <StatName>{t("statTotal")}</StatName>
+                  <StatBarContainer>
+                    <StatBar value={getStatTotal(pokemon)} $max={(statsIndex && getStatMax(statsIndex, "total")) ?? MAX_BASE_STAT * STAT_NAMES.length} />
+                  </StatBarContainer>
+                  <StatValue>{getStatTotal(pokemon)}</StatValue>
+                  {percentileCell("total", getStatTotal(pokemon))}
+                </StatRow>
+              </Stats>
+            </StatsLayout>
+            {statsIndex ? (
+              <StatsIndexStatus>{t("rankedAmong", { count: statsIndex.count })}</StatsIndexStatus>
+            ) : statsIndexProgress ? (
+              <StatsIndexStatus>{t("rankingStats", statsIndexProgress)}</StatsIndexStatus>
+            ) : (
+              <>
+                {statsIndexError && <StatsIndexStatus>{t(statsIndexError)}</StatsIndexStatus>}
+                <StatsIndexButton onClick={onBuildStatsIndex}>{t("rankStats")}</StatsIndexButton>
+              </>
+            )}
+          </Section>
+        )}
+
+        {pokemon.stats.length > 0 && (
+          <Section>
+            <SectionTitle>{t("statCalculator")}</SectionTitle>
+            <StatCalculator key={pokemon.name} pokemon={pokemon} t={t} />
+          </Section>
+        )}
+
+        {pokemon.moves.length > 0 && (
+          <Section>
+            <SectionTitle>{t("moves")}</SectionTitle>
+            <MovesSection key={pokemon.name} moves={pokemon.moves} moveDetails={moveDetails} onLoadMoves={onLoadMoves} t={t} />
+          </Section>
+        )}
       </DetailsContent>
     </Container>
   );
@@ -1,6 +1,21 @@
+import { useState, useEffect } from "react";
+import type { ReactNode } from "react";
 import styled from "styled-components";
 import { SkeletonCard } from "./SkeletonCard";
-import type { PokemonWithImage, PokemonWithDescription } from "../types/pokemon";
+import { PokemonSearch } from "./PokemonSearch";
+import { FilterPanel } from "./FilterPanel";
+import type { PokemonWithImage, PokemonWithDescription, PokemonListItem } from "../types/pokemon";
+import type { PokemonPageInfo } from "../utils/pokemonFetcher";
+import { MAX_COMPARED } from "../utils/comparison";
+import type { PokemonFilters } from "../utils/pokemonFilters";
+import { getTranslator } from "../utils/i18n";
+import type { MessageKey, Translate } from "../utils/i18n";
+
+/**
+ * Random shows a reroll-able random selection; Browse walks the Pokedex in National Dex order;
+ * Filter pages through the Pokemon matching the filter panel; Favorites shows the starred Pokemon
+ */
+export type ListMode = "random" | "browse" | "filter" | "favorites";
 
 const Container = styled.div`
   background: white;
@@ -35,6 +50,75 @@ const RefreshButton = styled.button`
   }
 `;
 
+const SeedForm = styled.form`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 16px;
+  color: #666;
+  font-size: 14px;
+`;
+
+const SeedInput = styled.input`
+  width: 120px;
+  padding: 6px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+  font-family: monospace;
+`;
+
+const SeedButton = styled.button`
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 6px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+
+  &:hover {
+    background: #f0f4ff;
+  }
+`;
+
+const HeaderActions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const ModeToggle = styled.div`
+  display: flex;
+  border: 1px solid #667eea;
+  border-radius: 6px;
+  overflow: hidden;
+`;
+
+const ModeButton = styled.button<{ $active: boolean }>`
+  background: ${(props) => (props.$active ? "#667eea" : "white")};
+  color: ${(props) => (props.$active ? "white" : "#667eea")};
+  border: none;
+  padding: 8px 14px;
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+const Pager = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-top: 20px;
+  color: #666;
+  font-size: 14px;
+`;
+
+const PagerButton = styled(RefreshButton)`
+  &:disabled {
+    background: #c3cbf3;
+    cursor: default;
+  }
+`;
+
 const Grid = styled.div`
   display: grid;
   grid-template-columns: repeat(2, 1fr);
@@ -42,6 +126,7 @@ const Grid = styled.div`
 `;
 
 const PokemonCard = styled.div<{ selected: boolean }>`
+  position: relative;
   padding: 16px;
   border: 2px solid ${(props) => (props.selected ? "#667eea" : "#e0e0e0")};
   border-radius: 8px;
@@ -69,6 +154,70 @@ const PokemonName = styled.div`
   text-transform: capitalize;
 `;
 
+const CardError = styled.div`
+  margin-top: 4px;
+  font-size: 12px;
+  color: #e53e3e;
+`;
+
+const CardRetryButton = styled.button`
+  margin-top: 8px;
+  background: none;
+  border: 1px solid #e53e3e;
+  color: #e53e3e;
+  padding: 4px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 12px;
+  font-weight: 600;
+
+  &:hover {
+    background: #fff5f5;
+  }
+`;
+
+const CompareToggle = styled.button<{ $active: boolean }>`
+  margin-top: 8px;
+  background: ${(props) => (props.$active ? "#667eea" : "none")};
+  border: 1px solid #667eea;
+  color: ${(props) => (props.$active ? "white" : "#667eea")};
+  padding: 4px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 12px;
+  font-weight: 600;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const FavoriteToggle = styled.button<{ $active: boolean }>`
+  position: absolute;
+  top: 6px;
+  right: 6px;
+  background: none;
+  border: none;
+  color: ${(props) => (props.$active ? "#ecc94b" : "#cbd5e0")};
+  cursor: pointer;
+  font-size: 20px;
+  line-height: 1;
+
+  &:hover {
+    color: #ecc94b;
+  }
+`;
+
+const KeepFavoritesLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  margin-bottom: 16px;
+  color: #666;
+  font-size: 14px;
+`;
+
 const LoadingText = styled.div`
   text-align: center;
   padding: 40px;
@@ -84,10 +233,106 @@ const ErrorText = styled.div`
 interface PokemonListProps {
   pokemon: PokemonWithImage[];
   loading: boolean;
-  error: string | null;
+  /** Message key of the list error */
+  error: MessageKey | null;
   onSelect: (url: string) => void;
   onRefresh: () => void;
+  onRetry: () => void;
+  onRetryPokemon: (pokemon: PokemonWithImage) => void;
   selectedPokemon: PokemonWithDescription | null;
+  seed: string;
+  onSeedChange: (seed: string) => void;
+  searchIndex: PokemonListItem[];
+  mode: ListMode;
+  onModeChange: (mode: ListMode) => void;
+  /** Current Browse or Filter page, once known */
+  page: PokemonPageInfo | null;
+  pageSize: number;
+  /** Browse mode: called with the page's `previous`/`next` link */
+  onPageChange: (pageUrl: string) => void;
+  /** Filter mode: called with the offset of the page to show */
+  onFilterPageChange: (offset: number) => void;
+  filters: PokemonFilters;
+  onFiltersChange: (filters: PokemonFilters) => void;
+  /** Stat loading progress while a filter needs every candidate's details */
+  filterProgress: { loaded: number; total: number } | null;
+  /** Names currently in the comparison tray */
+  comparedNames: string[];
+  onToggleCompare: (name: string) => void;
+  /** Names of the starred Pokemon */
+  favoriteNames: string[];
+  onToggleFavorite: (pokemon: PokemonListItem) => void;
+  /** Whether Refresh keeps the favorite cards in place */
+  keepFavorites: boolean;
+  onKeepFavoritesChange: (keep: boolean) => void;
+  /** Language of the UI strings */
+  language: string;
+}
+
+/**
+ * Shows the seed of the current random list and loads the list for a typed-in seed
+ */
+function SeedControl({ seed, onSeedChange, t }: Pick<PokemonListProps, "seed" | "onSeedChange"> & { t: Translate }) {
+  const [value, setValue] = useState(seed);
+
+  useEffect(() => setValue(seed), [seed]);
+
+  return (
+    <SeedForm
+      onSubmit={(event) => {
+        event.preventDefault();
+        const trimmed = value.trim();
+        if (trimmed) onSeedChange(trimmed);
+      }}
+    >
+      <label htmlFor="pokemon-list-seed">{t("seed")}</label>
+      <SeedInput id="pokemon-list-seed" value={value} onChange={(event) => setValue(event.target.value)} />
+      <SeedButton type="submit">{t("load")}</SeedButton>
+    </SeedForm>
+  );
+}
+
+const MODE_LABELS: Record<ListMode, MessageKey> = { random: "modeRandom", browse: "modeBrowse", filter: "modeFilter", favorites: "modeFavorites" };
+
+/**
+ * Switches between the list modes
+ */
+function ModeSwitch({ mode, onModeChange, t }: Pick<PokemonListProps, "mode" | "onModeChange"> & { t: Translate }) {
+  return (
+    <ModeToggle role="group" aria-label={t("listMode")}>
+      {(Object.keys(MODE_LABELS) as ListMode[]).map((option) => (
+        <ModeButton key={option} $active={mode === option} aria-pressed={mode === option} onClick={() => onModeChange(option)}>
+          {t(MODE_LABELS[option])}
+        </ModeButton>
+      ))}
+    </ModeToggle>
+  );
+}
+
+/**
+ * Previous/next controls; Browse follows the page's `previous`/`next` links, Filter pages by offset
+ */
+function PageControls({ mode, page, pageSize, onPageChange, onFilterPageChange, t }: Pick<PokemonListProps, "mode" | "page" | "pageSize" | "onPageChange" | "onFilterPageChange"> & { t: Translate }) {
+  if (!page) return null;
+
+  const first = Math.min(page.offset + 1, page.count);
+  const last = Math.min(page.offset + pageSize, page.count);
+  const byLink = mode === "browse";
+
+  return (
+    <Pager>
+      <PagerButton
+        disabled={byLink ? !page.previous : page.offset === 0}
+        onClick={() => (byLink ? page.previous && onPageChange(page.previous) : onFilterPageChange(Math.max(0, page.offset - pageSize)))}
+      >
+        {t("previousPage")}
+      </PagerButton>
+      <span>{t("pageRange", { first, last, count: page.count })}</span>
+      <PagerButton disabled={byLink ? !page.next : last >= page.count} onClick={() => (byLink ? page.next && onPageChange(page.next) : onFilterPageChange(page.offset + pageSize))}>
+        {t("nextPage")}
+      </PagerButton>
+    </Pager>
+  );
 }
 
 /**
@@ -95,25 +340,90 @@ interface PokemonListProps {
  *
  * Displays a grid of Pokemon cards with support for:
  * - Loading states (skeleton cards for progressive loading)
- * - Error states with retry functionality
+ * - Error states with retry functionality, for the whole list and per card
  * - Selection highlighting
+ * - A shareable seed for the random selection
+ * - Name search over the full Pokédex, so any Pokemon can be opened directly
+ * - Random and Browse modes; Browse pages through the Pokédex in National Dex order
+ * - Filter mode: type, generation and base-stat filters with a choice of sort order
+ * - Adding cards to the comparison tray
+ * - Starring favorites, which can be listed on their own or kept in place on Refresh
+ * - UI strings in the selected language (see utils/i18n.ts)
  *
  * REFACTORING NOTE (Issue #2):
- * Now supports progressive loading with skeleton cards for better UX
+ * Now supports progressive loading with skeleton cards for better UX.
+ * Entries come from utils/pokemonFetcher.ts; each card leaves its skeleton
+ * state as soon as its own `isLoading` flag is cleared by the data layer.
  */
-export function PokemonList({ pokemon, loading, error, onSelect, onRefresh, selectedPokemon }: PokemonListProps) {
-  const isSelected = (poke: PokemonWithImage) => poke.url === selectedPokemon?.species?.url;
+export function PokemonList({
+  pokemon,
+  loading,
+  error,
+  onSelect,
+  onRefresh,
+  onRetry,
+  onRetryPokemon,
+  selectedPokemon,
+  seed,
+  onSeedChange,
+  searchIndex,
+  mode,
+  onModeChange,
+  page,
+  pageSize,
+  onPageChange,
+  onFilterPageChange,
+  filters,
+  onFiltersChange,
+  filterProgress,
+  comparedNames,
+  onToggleCompare,
+  favoriteNames,
+  onToggleFavorite,
+  keepFavorites,
+  onKeepFavoritesChange,
+  language,
+}: PokemonListProps) {
+  const t = getTranslator(language);
+  const isSelected = (poke: PokemonWithImage) => poke.name === selectedPokemon?.name;
+  const trayFull = comparedNames.length >= MAX_COMPARED;
+  const paged = mode === "browse" || mode === "filter";
+
+  const header = (refreshButton: ReactNode) => (
+    <Header>
+      <Title>{t("listTitle")}</Title>
+      <HeaderActions>
+        <ModeSwitch mode={mode} onModeChange={onModeChange} t={t} />
+        {refreshButton}
+      </HeaderActions>
+    </Header>
+  );
 
   if (loading) {
     return (
       <Container>
-        <Header>
-          <Title>Pokémon List</Title>
-          <RefreshButton onClick={onRefresh} disabled>
-            Refresh
-          </RefreshButton>
-        </Header>
-        <LoadingText>Loading Pokémon...</LoadingText>
+        {header(
+          mode === "random" && (
+            <RefreshButton onClick={onRefresh} disabled>
+              {t("refresh")}
+            </RefreshButton>
+          ),
+        )}
+        {mode === "filter" && <FilterPanel filters={filters} onFiltersChange={onFiltersChange} t={t} />}
+        {mode === "filter" && filterProgress ? (
+          <LoadingText role="status">
+            {t("loadingStats", { loaded: filterProgress.loaded, total: filterProgress.total })}
+          </LoadingText>
+        ) : paged ? (
+          // Skeletons for the page that is still loading
+          <Grid>
+            {Array.from({ length: pageSize }, (_, i) => (
+              <SkeletonCard key={i} />
+            ))}
+          </Grid>
+        ) : (
+          <LoadingText>{t("loadingPokemon")}</LoadingText>
+        )}
       </Container>
     );
   }
@@ -121,21 +431,27 @@ export function PokemonList({ pokemon, loading, error, onSelect, onRefresh, sele
   if (error) {
     return (
       <Container>
-        <Header>
-          <Title>Pokémon List</Title>
-          <RefreshButton onClick={onRefresh}>Retry</RefreshButton>
-        </Header>
-        <ErrorText>{error}</ErrorText>
+        {header(<RefreshButton onClick={onRetry}>{t("retry")}</RefreshButton>)}
+        {mode === "filter" && <FilterPanel filters={filters} onFiltersChange={onFiltersChange} t={t} />}
+        <ErrorText>{t(error)}</ErrorText>
       </Container>
     );
   }
 
   return (
     <Container>
-      <Header>
-        <Title>Pokémon List</Title>
-        <RefreshButton onClick={onRefresh}>Refresh</RefreshButton>
-      </Header>
+      {header(mode === "random" && <RefreshButton onClick={onRefresh}>{t("refresh")}</RefreshButton>)}
+      <PokemonSearch index={searchIndex} onSelect={onSelect} t={t} />
+      {mode === "random" && <SeedControl seed={seed} onSeedChange={onSeedChange} t={t} />}
+      {mode === "random" && (
+        <KeepFavoritesLabel>
+          <input type="checkbox" checked={keepFavorites} onChange={(event) => onKeepFavoritesChange(event.target.checked)} />
+          {t("keepFavorites")}
+        </KeepFavoritesLabel>
+      )}
+      {mode === "filter" && <FilterPanel filters={filters} onFiltersChange={onFiltersChange} t={t} />}
+      {mode === "filter" && pokemon.length === 0 && <LoadingText>{t("noFilterMatches")}</LoadingText>}
+      {mode === "favorites" && pokemon.length === 0 && <LoadingText>{t("noFavorites")}</LoadingText>}
       <Grid>
         {pokemon.map((poke) => {
           // Show skeleton card while individual Pokemon is loading
@@ -145,16 +461,54 @@ export function PokemonList({ pokemon, loading, error, onSelect, onRefresh, sele
 
           return (
             <PokemonCard key={poke.name} selected={isSelected(poke)} onClick={() => onSelect(poke.url)}>
+              <FavoriteToggle
+                $active={favoriteNames.includes(poke.name)}
+                aria-pressed={favoriteNames.includes(poke.name)}
+                aria-label={t("favorite", { name: poke.name })}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onToggleFavorite(poke);
+                }}
+              >
+                {favoriteNames.includes(poke.name) ? "★" : "☆"}
+              </FavoriteToggle>
               {poke.image ? (
-                <PokemonImage src={poke.image} alt={`${poke.name} sprite`} />
+                <PokemonImage src={poke.image} alt={t("spriteAlt", { name: poke.name })} />
               ) : (
-                <PokemonImage src="https://via.placeholder.com/96?text=?" alt="Pokemon sprite unavailable" />
+                <PokemonImage src="https://via.placeholder.com/96?text=?" alt={t("spriteUnavailable")} />
               )}
               <PokemonName>{poke.name}</PokemonName>
+              {poke.error && (
+                <>
+                  <CardError>{t(poke.error)}</CardError>
+                  <CardRetryButton
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onRetryPokemon(poke);
+                    }}
+                  >
+                    {t("retry")}
+                  </CardRetryButton>
+                </>
+              )}
+              <div>
+                <CompareToggle
+                  $active={comparedNames.includes(poke.name)}
+                  aria-pressed={comparedNames.includes(poke.name)}
+                  disabled={trayFull && !comparedNames.includes(poke.name)}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onToggleCompare(poke.name);
+                  }}
+                >
+                  {comparedNames.includes(poke.name) ? t("comparing") : t("compare")}
+                </CompareToggle>
+              </div>
             </PokemonCard>
           );
         })}
       </Grid>
+      {paged && <PageControls mode={mode} page={page} pageSize={pageSize} onPageChange={onPageChange} onFilterPageChange={onFilterPageChange} t={t} />}
     </Container>
   );
 }
@@ -0,0 +1,145 @@
+import { useState, useMemo } from "react";
+import type { KeyboardEvent } from "react";
+import styled from "styled-components";
+import { searchPokemon } from "../utils/pokemonSearch";
+import type { PokemonListItem } from "../types/pokemon";
+import type { Translate } from "../utils/i18n";
+
+const Wrapper = styled.div`
+  position: relative;
+  margin-bottom: 16px;
+`;
+
+const SearchInput = styled.input`
+  width: 100%;
+  padding: 10px 14px;
+  border: 2px solid #e0e0e0;
+  border-radius: 8px;
+  font-size: 16px;
+
+  &:focus {
+    outline: none;
+    border-color: #667eea;
+  }
+`;
+
+const Suggestions = styled.ul`
+  position: absolute;
+  top: 100%;
+  left: 0;
+  right: 0;
+  z-index: 10;
+  margin: 4px 0 0;
+  padding: 4px 0;
+  list-style: none;
+  background: white;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const Suggestion = styled.li<{ $active: boolean }>`
+  padding: 8px 14px;
+  cursor: pointer;
+  text-transform: capitalize;
+  color: #333;
+  background: ${(props) => (props.$active ? "#f0f4ff" : "white")};
+`;
+
+const Hint = styled.li`
+  padding: 8px 14px;
+  color: #999;
+  font-size: 14px;
+`;
+
+interface PokemonSearchProps {
+  index: PokemonListItem[];
+  onSelect: (url: string) => void;
+  t: Translate;
+}
+
+/**
+ * PokemonSearch Component
+ *
+ * Autocomplete over the full name index (prefix, typo-tolerant and fuzzy
+ * matching via utils/pokemonSearch.ts). Follows the ARIA combobox pattern:
+ * Arrow keys move through suggestions, Enter picks one, Escape closes the list.
+ */
+export function PokemonSearch({ index, onSelect, t }: PokemonSearchProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => searchPokemon(index, query), [index, query]);
+  const showSuggestions = open && query.trim().length > 0;
+
+  const choose = (pokemon: PokemonListItem) => {
+    setQuery("");
+    setOpen(false);
+    onSelect(pokemon.url);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setOpen(true);
+      setActiveIndex((current) => (suggestions.length ? (current + 1) % suggestions.length : 0));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((current) => (suggestions.length ? (current - 1 + suggestions.length) % suggestions.length : 0));
+    } else if (event.key === "Enter") {
+      if (showSuggestions && suggestions[activeIndex]) {
+        event.preventDefault();
+        choose(suggestions[activeIndex]);
+      }
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Wrapper>
+      <SearchInput
+        type="search"
+        role="combobox"
+        aria-label={t("searchLabel")}
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls="pokemon-search-suggestions"
+        aria-activedescendant={showSuggestions && suggestions[activeIndex] ? `pokemon-search-${suggestions[activeIndex].name}` : undefined}
+        placeholder={index.length ? t("searchPlaceholder", { count: index.length }) : t("loadingSearchIndex")}
+        disabled={!index.length}
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setOpen(false)}
+      />
+      {showSuggestions && (
+        <Suggestions id="pokemon-search-suggestions" role="listbox">
+          {suggestions.length === 0 && <Hint>{t("noSearchResults")}</Hint>}
+          {suggestions.map((pokemon, i) => (
+            <Suggestion
+              key={pokemon.name}
+              id={`pokemon-search-${pokemon.name}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              $active={i === activeIndex}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(event) => {
+                event.preventDefault();
+                choose(pokemon);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+            >
+              {pokemon.name.replace(/-/g, " ")}
+            </Suggestion>
+          ))}
+        </Suggestions>
+      )}
+    </Wrapper>
+  );
+}
@@ -0,0 +1,51 @@
+import styled from "styled-components";
+import { LANGUAGES } from "../utils/language";
+import type { UnitSystem } from "../utils/units";
+
+const Bar = styled.div`
+  max-width: 1400px;
+  margin: -10px auto 20px;
+  display: flex;
+  justify-content: flex-end;
+  align-items: center;
+  gap: 8px;
+  color: white;
+  font-size: 14px;
+`;
+
+const Select = styled.select`
+  padding: 4px 8px;
+  border: none;
+  border-radius: 6px;
+`;
+
+interface SettingsBarProps {
+  language: string;
+  onLanguageChange: (language: string) => void;
+  units: UnitSystem;
+  onUnitsChange: (units: UnitSystem) => void;
+}
+
+/**
+ * SettingsBar Component
+ *
+ * Display preferences that apply to the whole dashboard.
+ */
+export function SettingsBar({ language, onLanguageChange, units, onUnitsChange }: SettingsBarProps) {
+  return (
+    <Bar>
+      <label htmlFor="settings-language">🌐</label>
+      <Select id="settings-language" aria-label="Language" value={language} onChange={(event) => onLanguageChange(event.target.value)}>
+        {LANGUAGES.map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.label}
+          </option>
+        ))}
+      </Select>
+      <Select aria-label="Units" value={units} onChange={(event) => onUnitsChange(event.target.value as UnitSystem)}>
+        <option value="metric">m / kg</option>
+        <option value="imperial">ft / lbs</option>
+      </Select>
+    </Bar>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import styled from "styled-components";
+import type { ShowdownIssue } from "../utils/showdown";
+
+const Wrapper = styled.div`
+  margin-bottom: 24px;
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 180px;
+  padding: 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  box-sizing: border-box;
+  font-family: monospace;
+  font-size: 13px;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-top: 8px;
+`;
+
+const Button = styled.button`
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 6px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+
+  &:hover {
+    background: #f0f4ff;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const Issues = styled.ul`
+  margin: 8px 0 0;
+  padding-left: 20px;
+  color: #e53e3e;
+  font-size: 14px;
+`;
+
+const Notice = styled.div`
+  margin-top: 8px;
+  color: #38a169;
+  font-size: 14px;
+`;
+
+interface ShowdownImportExportProps {
+  /** The active team as a Showdown paste */
+  exportText: string;
+  /** Imports a paste as a new team, resolving to the problems found (none means it was imported) */
+  onImport: (text: string) => Promise<ShowdownIssue[]>;
+}
+
+/**
+ * ShowdownImportExport Component
+ *
+ * One text box for both directions: Export fills it with the active team,
+ * Import validates what's in it and reports every problem by line.
+ */
+export function ShowdownImportExport({ exportText, onImport }: ShowdownImportExportProps) {
+  const [text, setText] = useState("");
+  const [issues, setIssues] = useState<ShowdownIssue[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    setImporting(true);
+    setNotice(null);
+    try {
+      const found = await onImport(text);
+      setIssues(found);
+      if (found.length === 0) setNotice("Imported as a new team");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Wrapper>
+      <TextArea
+        aria-label="Showdown paste"
+        placeholder="Paste a team exported from Pokémon Showdown, or export the current team"
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+      />
+      <Actions>
+        <Button disabled={importing || !text.trim()} onClick={handleImport}>
+          {importing ? "Importing..." : "Import"}
+        </Button>
+        <Button
+          onClick={() => {
+            setText(exportText);
+            setIssues([]);
+            setNotice(null);
+          }}
+        >
+          Export current team
+        </Button>
+      </Actions>
+      {issues.length > 0 && (
+        <Issues aria-label="Import problems">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              Line {issue.line}: {issue.message}
+            </li>
+          ))}
+        </Issues>
+      )}
+      {notice && <Notice role="status">{notice}</Notice>}
+    </Wrapper>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import styled from "styled-components";
+import { DEFAULT_SPRITE_OPTIONS, getSpriteSources, resolveSprite } from "../utils/sprites";
+import type { PokemonSprites } from "../types/pokemon";
+import type { MessageKey, Translate } from "../utils/i18n";
+
+const Gallery = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 20px;
+`;
+
+const Frame = styled.div`
+  width: 160px;
+  height: 160px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: #f8f9ff;
+  border-radius: 12px;
+  flex-shrink: 0;
+`;
+
+const SpriteImage = styled.img`
+  max-width: 140px;
+  max-height: 140px;
+  object-fit: contain;
+  image-rendering: pixelated;
+`;
+
+const Placeholder = styled.div`
+  color: #999;
+  font-size: 14px;
+`;
+
+const Controls = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const Select = styled.select`
+  padding: 6px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
+const ToggleButton = styled.button<{ $active: boolean }>`
+  background: ${(props) => (props.$active ? "#667eea" : "white")};
+  color: ${(props) => (props.$active ? "white" : "#667eea")};
+  border: 1px solid #667eea;
+  padding: 6px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+const SPRITE_DESCRIPTIONS: Record<"plain" | "shiny", Record<"front" | "back", MessageKey>> = {
+  plain: { front: "spriteFront", back: "spriteBack" },
+  shiny: { front: "spriteShinyFront", back: "spriteShinyBack" },
+};
+
+interface SpriteGalleryProps {
+  name: string;
+  sprites: PokemonSprites;
+  t: Translate;
+}
+
+/**
+ * SpriteGallery Component
+ *
+ * Shows one sprite at a time, picked by source (artwork style or game), shininess
+ * and side. Missing sprites fall back to the next best one (see utils/sprites.ts).
+ */
+export function SpriteGallery({ name, sprites, t }: SpriteGalleryProps) {
+  const sources = getSpriteSources(sprites);
+  const [options, setOptions] = useState(() => ({
+    ...DEFAULT_SPRITE_OPTIONS,
+    source: sources.some((source) => source.key === DEFAULT_SPRITE_OPTIONS.source) ? DEFAULT_SPRITE_OPTIONS.source : (sources[0]?.key ?? "default"),
+  }));
+  const url = resolveSprite(sprites, options);
+  const description = t(SPRITE_DESCRIPTIONS[options.shiny ? "shiny" : "plain"][options.back ? "back" : "front"], { name });
+
+  return (
+    <Gallery>
+      <Frame>{url ? <SpriteImage src={url} alt={description} /> : <Placeholder>{t("noSprite")}</Placeholder>}</Frame>
+      <Controls>
+        <Select aria-label={t("spriteSource")} value={options.source} onChange={(event) => setOptions((current) => ({ ...current, source: event.target.value }))}>
+          {sources.map((source) => (
+            <option key={source.key} value={source.key}>
+              {t(source.label, source.params)}
+            </option>
+          ))}
+        </Select>
+        <ToggleButton $active={options.shiny} aria-pressed={options.shiny} onClick={() => setOptions((current) => ({ ...current, shiny: !current.shiny }))}>
+          ✨ {t("shiny")}
+        </ToggleButton>
+        <ToggleButton $active={options.back} aria-pressed={options.back} onClick={() => setOptions((current) => ({ ...current, back: !current.back }))}>
+          ↻ {t(options.back ? "back" : "front")}
+        </ToggleButton>
+      </Controls>
+    </Gallery>
+  );
+}
@@ -0,0 +1,26 @@
+import styled from "styled-components";
+
+/**
+ * Highest base stat in the games (Blissey's HP); the full width of a bar when no other maximum is given
+ */
+export const MAX_BASE_STAT = 255;
+
+export const StatBarContainer = styled.div`
+  flex: 1;
+  height: 24px;
+  background: #f0f0f0;
+  border-radius: 12px;
+  overflow: hidden;
+  position: relative;
+`;
+
+/**
+ * Fill of a StatBarContainer; `$color` replaces the default gradient, e.g. to tell overlaid bars apart,
+ * and `$max` is the value of a full bar, e.g. the highest value of the stat in the stats index
+ */
+export const StatBar = styled.div<{ value: number; $color?: string; $max?: number }>`
+  height: 100%;
+  background: ${(props) => props.$color ?? "linear-gradient(90deg, #667eea, #764ba2)"};
+  width: ${(props) => Math.min(props.value / (props.$max ?? MAX_BASE_STAT), 1) * 100}%;
+  transition: width 0.3s ease;
+`;
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import styled from "styled-components";
+import { getBaseStat, STAT_NAMES } from "../utils/pokemonFilters";
+import { MAX_EV, MAX_IV, MAX_TOTAL_EVS, NATURES, STAT_ABBREVIATIONS } from "../utils/showdown";
+import { calculateStats, DEFAULT_CALCULATOR_INPUT, formatNature, getNatureEffect, getStatRange, MAX_LEVEL, MIN_LEVEL, RANGE_LEVELS, validateCalculatorInput } from "../utils/statCalculator";
+import type { StatCalculatorInput, StatSpread } from "../utils/statCalculator";
+import type { StatName } from "../utils/pokemonFilters";
+import type { Translate } from "../utils/i18n";
+import type { Pokemon } from "../types/pokemon";
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 12px;
+  font-size: 14px;
+  color: #666;
+`;
+
+const Select = styled.select`
+  padding: 6px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
+const NumberInput = styled.input<{ $invalid?: boolean }>`
+  width: 56px;
+  padding: 4px 6px;
+  border: 1px solid ${(props) => (props.$invalid ? "#e53e3e" : "#e0e0e0")};
+  border-radius: 6px;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 14px;
+
+  th,
+  td {
+    padding: 4px 8px;
+    text-align: left;
+  }
+
+  th {
+    color: #666;
+  }
+
+  tbody tr:nth-child(odd) {
+    background: #f8f9ff;
+  }
+`;
+
+const Result = styled.td<{ $nature: "up" | "down" | null }>`
+  font-weight: 700;
+  color: ${(props) => (props.$nature === "up" ? "#e53e3e" : props.$nature === "down" ? "#3182ce" : "#333")};
+`;
+
+const Range = styled.td`
+  color: #999;
+  white-space: nowrap;
+`;
+
+const Note = styled.div`
+  margin-top: 8px;
+  font-size: 13px;
+  color: #666;
+`;
+
+const Errors = styled.ul`
+  margin: 8px 0 0;
+  padding-left: 20px;
+  color: #e53e3e;
+  font-size: 13px;
+`;
+
+interface StatCalculatorProps {
+  pokemon: Pokemon;
+  /** Translation function of the details view */
+  t: Translate;
+}
+
+/**
+ * "2 Atk, 1 Spe": the EVs gained for defeating this Pokemon
+ */
+function formatEvYield(pokemon: Pokemon, t: Translate): string {
+  const yields = pokemon.stats.filter((stat) => stat.effort > 0 && stat.stat.name in STAT_ABBREVIATIONS);
+  return yields.length ? yields.map((stat) => `${stat.effort} ${STAT_ABBREVIATIONS[stat.stat.name as StatName]}`).join(", ") : t("none");
+}
+
+/**
+ * StatCalculator Component
+ *
+ * Final stats for a level, nature and IV/EV spread, next to the lowest and highest
+ * value each stat can reach at the usual levels (see utils/statCalculator.ts).
+ */
+export function StatCalculator({ pokemon, t }: StatCalculatorProps) {
+  const [input, setInput] = useState<StatCalculatorInput>(DEFAULT_CALCULATOR_INPUT);
+  const baseStats = Object.fromEntries(STAT_NAMES.map((stat) => [stat, getBaseStat(pokemon, stat)])) as StatSpread;
+  const errors = validateCalculatorInput(input);
+  const stats = errors.length ? null : calculateStats(baseStats, input);
+  const totalEvs = STAT_NAMES.reduce((total, stat) => total + input.evs[stat], 0);
+
+  const setSpread = (key: "ivs" | "evs", stat: StatName, value: string) => setInput((current) => ({ ...current, [key]: { ...current[key], [stat]: Number(value) } }));
+
+  const natureEffect = getNatureEffect(input.nature);
+  const natureOf = (stat: StatName) => (stat === natureEffect.increased ? "up" : stat === natureEffect.decreased ? "down" : null);
+
+  return (
+    <div>
+      <Controls>
+        <label>
+          {t("level")}{" "}
+          <NumberInput
+            type="number"
+            aria-label={t("level")}
+            min={MIN_LEVEL}
+            max={MAX_LEVEL}
+            value={input.level}
+            $invalid={errors.some((error) => error.key === "levelOutOfRange")}
+            onChange={(event) => setInput((current) => ({ ...current, level: Number(event.target.value) }))}
+          />
+        </label>
+        <Select aria-label={t("nature")} value={input.nature} onChange={(event) => setInput((current) => ({ ...current, nature: event.target.value }))}>
+          {NATURES.map((nature) => (
+            <option key={nature} value={nature}>
+              {formatNature(nature)}
+            </option>
+          ))}
+        </Select>
+      </Controls>
+
+      <Table>
+        <thead>
+          <tr>
+            <th>{t("stat")}</th>
+            <th>{t("base")}</th>
+            <th>{t("ivs")}</th>
+            <th>{t("evs")}</th>
+            <th>{t("result")}</th>
+            {RANGE_LEVELS.map((level) => (
+              <th key={level}>{t("levelShort", { level })}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {STAT_NAMES.map((stat) => (
+            <tr key={stat}>
+              <td>{STAT_ABBREVIATIONS[stat]}</td>
+              <td>{baseStats[stat]}</td>
+              <td>
+                <NumberInput
+                  type="number"
+                  aria-label={`${STAT_ABBREVIATIONS[stat]} ${t("ivs")}`}
+                  min={0}
+                  max={MAX_IV}
+                  value={input.ivs[stat]}
+                  $invalid={input.ivs[stat] < 0 || input.ivs[stat] > MAX_IV}
+                  onChange={(event) => setSpread("ivs", stat, event.target.value)}
+                />
+              </td>
+              <td>
+                <NumberInput
+                  type="number"
+                  aria-label={`${STAT_ABBREVIATIONS[stat]} ${t("evs")}`}
+                  min={0}
+                  max={MAX_EV}
+                  step={4}
+                  value={input.evs[stat]}
+                  $invalid={input.evs[stat] < 0 || input.evs[stat] > MAX_EV}
+                  onChange={(event) => setSpread("evs", stat, event.target.value)}
+                />
+              </td>
+              <Result $nature={natureOf(stat)} aria-label={`${STAT_ABBREVIATIONS[stat]} ${t("result")}`}>
+                {stats ? stats[stat] : "—"}
+              </Result>
+              {RANGE_LEVELS.map((level) => {
+                const range = getStatRange(stat, baseStats[stat], level);
+                return (
+                  <Range key={level}>
+                    {range.min}–{range.max}
+                  </Range>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+
+      <Note>
+        {t("evsUsed", { used: totalEvs, max: MAX_TOTAL_EVS })} · {t("evYield", { yield: formatEvYield(pokemon, t) })}
+      </Note>
+      {errors.length > 0 && (
+        <Errors role="alert">
+          {errors.map(({ key, params }) => (
+            <li key={`${key}-${params.stat ?? ""}`}>{t(key, params)}</li>
+          ))}
+        </Errors>
+      )}
+    </div>
+  );
+}
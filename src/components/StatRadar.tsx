@@ -0,0 +1,74 @@
+import styled from "styled-components";
+import { STAT_ABBREVIATIONS } from "../utils/showdown";
+import type { StatName } from "../utils/pokemonFilters";
+
+const SIZE = 240;
+const CENTER = SIZE / 2;
+const RADIUS = 80;
+const LABEL_RADIUS = RADIUS + 22;
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+const Chart = styled.svg`
+  display: block;
+  max-width: 100%;
+  height: auto;
+`;
+
+const AxisLabel = styled.text`
+  font-size: 11px;
+  font-weight: 600;
+  fill: #666;
+`;
+
+export interface RadarStat {
+  stat: StatName;
+  value: number;
+  /** Value at the edge of the chart */
+  max: number;
+}
+
+interface StatRadarProps {
+  stats: RadarStat[];
+  label: string;
+}
+
+/**
+ * Point at `fraction` of the radius along the axis of stat `index`, the first axis pointing up
+ */
+function pointAt(index: number, count: number, fraction: number): [number, number] {
+  const angle = (2 * Math.PI * index) / count - Math.PI / 2;
+  return [CENTER + Math.cos(angle) * RADIUS * fraction, CENTER + Math.sin(angle) * RADIUS * fraction];
+}
+
+const toPoints = (points: [number, number][]) => points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(" ");
+
+/**
+ * StatRadar Component
+ *
+ * The base stats as a hexagon: one axis per stat, each scaled to its own maximum.
+ */
+export function StatRadar({ stats, label }: StatRadarProps) {
+  const count = stats.length;
+  const shape = stats.map(({ value, max }, index) => pointAt(index, count, max > 0 ? Math.min(value / max, 1) : 0));
+
+  return (
+    <Chart viewBox={`0 0 ${SIZE} ${SIZE}`} width={SIZE} height={SIZE} role="img" aria-label={label}>
+      {RINGS.map((ring) => (
+        <polygon key={ring} points={toPoints(stats.map((_, index) => pointAt(index, count, ring)))} fill="none" stroke="#e0e0e0" />
+      ))}
+      {stats.map(({ stat }, index) => {
+        const [x, y] = pointAt(index, count, 1);
+        return <line key={stat} x1={CENTER} y1={CENTER} x2={x} y2={y} stroke="#e0e0e0" />;
+      })}
+      <polygon points={toPoints(shape)} fill="rgba(102, 126, 234, 0.35)" stroke="#667eea" strokeWidth={2} />
+      {stats.map(({ stat, value }, index) => {
+        const [x, y] = pointAt(index, count, LABEL_RADIUS / RADIUS);
+        return (
+          <AxisLabel key={stat} x={x} y={y} textAnchor="middle" dominantBaseline="middle">
+            {STAT_ABBREVIATIONS[stat]} {value}
+          </AxisLabel>
+        );
+      })}
+    </Chart>
+  );
+}
@@ -0,0 +1,415 @@
+import { useState, useEffect } from "react";
+import styled from "styled-components";
+import { StatBar, StatBarContainer } from "./StatBar";
+import { ShowdownImportExport } from "./ShowdownImportExport";
+import { getTypeColor } from "../utils/pokemonTypes";
+import { STAT_NAMES } from "../utils/pokemonFilters";
+import { TEAM_SIZE, getTeamSets } from "../utils/teams";
+import { serializeShowdown } from "../utils/showdown";
+import { getCardSprite } from "../utils/sprites";
+import type { ShowdownIssue } from "../utils/showdown";
+import type { Team } from "../utils/teams";
+import type { TeamAnalysis } from "../utils/teamAnalysis";
+import type { Pokemon } from "../types/pokemon";
+
+const Container = styled.div`
+  max-width: 1400px;
+  margin: 30px auto 0;
+  background: white;
+  border-radius: 12px;
+  padding: 24px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+`;
+
+const Header = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 20px;
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  color: #333;
+  flex: 1;
+`;
+
+const Select = styled.select`
+  padding: 6px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
+const NameInput = styled.input`
+  padding: 6px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+`;
+
+const Button = styled.button`
+  background: none;
+  border: 1px solid #667eea;
+  color: #667eea;
+  padding: 6px 12px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-weight: 600;
+
+  &:hover {
+    background: #f0f4ff;
+  }
+`;
+
+const Slots = styled.div`
+  display: grid;
+  grid-template-columns: repeat(6, 1fr);
+  gap: 12px;
+  margin-bottom: 24px;
+
+  @media (max-width: 768px) {
+    grid-template-columns: repeat(3, 1fr);
+  }
+`;
+
+const Slot = styled.div<{ $empty: boolean }>`
+  position: relative;
+  padding: 12px 8px;
+  border: 2px ${(props) => (props.$empty ? "dashed" : "solid")} #e0e0e0;
+  border-radius: 8px;
+  text-align: center;
+  color: #999;
+  font-size: 12px;
+  min-height: 110px;
+`;
+
+const SlotButton = styled.button`
+  background: none;
+  border: none;
+  padding: 0;
+  cursor: pointer;
+`;
+
+const SlotImage = styled.img`
+  width: 72px;
+  height: 72px;
+  object-fit: contain;
+`;
+
+const SlotName = styled.div`
+  font-weight: 600;
+  color: #333;
+  font-size: 14px;
+  text-transform: capitalize;
+`;
+
+const SlotItem = styled.div`
+  margin-top: 2px;
+`;
+
+const RemoveButton = styled.button`
+  position: absolute;
+  top: 4px;
+  right: 4px;
+  background: none;
+  border: none;
+  color: #999;
+  cursor: pointer;
+  font-size: 16px;
+
+  &:hover {
+    color: #e53e3e;
+  }
+`;
+
+const Sections = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 30px;
+
+  @media (max-width: 768px) {
+    grid-template-columns: 1fr;
+  }
+`;
+
+const Section = styled.div`
+  margin-bottom: 20px;
+`;
+
+const SectionTitle = styled.h4`
+  margin: 0 0 12px 0;
+  color: #667eea;
+  font-size: 16px;
+  text-transform: uppercase;
+  letter-spacing: 1px;
+`;
+
+const Message = styled.div<{ $error?: boolean }>`
+  padding: 20px;
+  text-align: center;
+  color: ${(props) => (props.$error ? "#e53e3e" : "#666")};
+`;
+
+const TypeBadge = styled.span<{ $type: string; $muted?: boolean }>`
+  display: inline-block;
+  padding: 2px 8px;
+  border-radius: 10px;
+  background: ${(props) => (props.$muted ? "#e0e0e0" : getTypeColor(props.$type))};
+  color: ${(props) => (props.$muted ? "#999" : "white")};
+  font-size: 12px;
+  font-weight: 600;
+  text-transform: capitalize;
+`;
+
+const Badges = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+`;
+
+const CoverageTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 14px;
+
+  th,
+  td {
+    padding: 4px 8px;
+    text-align: center;
+  }
+
+  th {
+    color: #666;
+  }
+`;
+
+const CoverageRow = styled.tr<{ $shared: boolean }>`
+  background: ${(props) => (props.$shared ? "#fff5f5" : "transparent")};
+`;
+
+const StatRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 8px;
+`;
+
+const StatName = styled.div`
+  width: 120px;
+  font-weight: 600;
+  color: #666;
+  text-transform: capitalize;
+`;
+
+const StatValue = styled.div`
+  width: 40px;
+  text-align: right;
+  font-weight: 600;
+  color: #333;
+`;
+
+interface TeamPanelProps {
+  teams: Team[];
+  team: Team;
+  /** Member data in team order; empty until loaded */
+  members: Pokemon[];
+  analysis: TeamAnalysis | null;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onSelectTeam: (id: string) => void;
+  onCreateTeam: () => void;
+  onRenameTeam: (name: string) => void;
+  onDeleteTeam: () => void;
+  onRemoveMember: (name: string) => void;
+  onSelectPokemon: (nameOrUrl: string) => void;
+  /** Imports a Showdown paste as a new team; see ShowdownImportExport */
+  onImport: (text: string) => Promise<ShowdownIssue[]>;
+}
+
+/**
+ * Renames the active team when the field is submitted or loses focus
+ */
+function TeamName({ name, onRenameTeam }: { name: string; onRenameTeam: (name: string) => void }) {
+  const [value, setValue] = useState(name);
+
+  useEffect(() => setValue(name), [name]);
+
+  const commit = () => {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== name) onRenameTeam(trimmed);
+    else setValue(name);
+  };
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        commit();
+      }}
+    >
+      <NameInput aria-label="Team name" value={value} onChange={(event) => setValue(event.target.value)} onBlur={commit} />
+    </form>
+  );
+}
+
+/**
+ * TeamPanel Component
+ *
+ * Six team slots plus the team's defensive and offensive type coverage, shared
+ * weaknesses and average base stats (see utils/teamAnalysis.ts). Pokemon are
+ * added from the details view or imported from a Showdown paste; several named
+ * teams can be kept.
+ */
+export function TeamPanel({
+  teams,
+  team,
+  members,
+  analysis,
+  loading,
+  error,
+  onRetry,
+  onSelectTeam,
+  onCreateTeam,
+  onRenameTeam,
+  onDeleteTeam,
+  onRemoveMember,
+  onSelectPokemon,
+  onImport,
+}: TeamPanelProps) {
+  const [showdownOpen, setShowdownOpen] = useState(false);
+  const memberData = (name: string) => members.find((member) => member.name === name);
+
+  return (
+    <Container>
+      <Header>
+        <Title>Team Builder</Title>
+        <Select aria-label="Team" value={team.id} onChange={(event) => onSelectTeam(event.target.value)}>
+          {teams.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name}
+            </option>
+          ))}
+        </Select>
+        <TeamName name={team.name} onRenameTeam={onRenameTeam} />
+        <Button onClick={onCreateTeam}>New team</Button>
+        <Button onClick={onDeleteTeam}>Delete team</Button>
+        <Button aria-expanded={showdownOpen} onClick={() => setShowdownOpen((open) => !open)}>
+          Showdown import/export
+        </Button>
+      </Header>
+
+      {showdownOpen && <ShowdownImportExport exportText={serializeShowdown(getTeamSets(team))} onImport={onImport} />}
+
+      <Slots>
+        {Array.from({ length: TEAM_SIZE }, (_, i) => {
+          const name = team.members[i];
+          if (!name) {
+            return (
+              <Slot key={`empty-${i}`} $empty>
+                Empty slot
+              </Slot>
+            );
+          }
+
+          const data = memberData(name);
+          return (
+            <Slot key={name} $empty={false}>
+              <SlotButton onClick={() => onSelectPokemon(name)}>
+                {data && getCardSprite(data.sprites) && <SlotImage src={getCardSprite(data.sprites)} alt={`${name} sprite`} />}
+                <SlotName>{team.sets?.[name]?.nickname ?? name.replace(/-/g, " ")}</SlotName>
+                {team.sets?.[name]?.item && <SlotItem>@ {team.sets[name].item}</SlotItem>}
+              </SlotButton>
+              <RemoveButton aria-label={`Remove ${name} from team`} onClick={() => onRemoveMember(name)}>
+                ×
+              </RemoveButton>
+            </Slot>
+          );
+        })}
+      </Slots>
+
+      {team.members.length === 0 && <Message>Add Pokémon from the details view to build a team.</Message>}
+      {loading && <Message>Analyzing team...</Message>}
+      {error && (
+        <Message $error>
+          {error} <Button onClick={onRetry}>Retry</Button>
+        </Message>
+      )}
+
+      {!loading && !error && analysis && (
+        <Sections>
+          <div>
+            <Section>
+              <SectionTitle>Shared Weaknesses</SectionTitle>
+              {analysis.sharedWeaknesses.length ? (
+                <Badges>
+                  {analysis.sharedWeaknesses.map((type) => (
+                    <TypeBadge key={type} $type={type}>
+                      {type}
+                    </TypeBadge>
+                  ))}
+                </Badges>
+              ) : (
+                <Message>No shared weaknesses</Message>
+              )}
+            </Section>
+
+            <Section>
+              <SectionTitle>Offensive Coverage</SectionTitle>
+              <Badges>
+                {analysis.offense.map((entry) => (
+                  <TypeBadge key={entry.type} $type={entry.type} $muted={entry.coveredBy.length === 0} title={entry.coveredBy.length ? `Super effective: ${entry.coveredBy.join(", ")}` : "Not covered"}>
+                    {entry.type}
+                  </TypeBadge>
+                ))}
+              </Badges>
+            </Section>
+
+            <Section>
+              <SectionTitle>Average Base Stats</SectionTitle>
+              {STAT_NAMES.map((stat) => (
+                <StatRow key={stat}>
+                  <StatName>{stat.replace("-", " ")}</StatName>
+                  <StatBarContainer>
+                    <StatBar value={analysis.averageStats[stat]} />
+                  </StatBarContainer>
+                  <StatValue>{analysis.averageStats[stat]}</StatValue>
+                </StatRow>
+              ))}
+              <StatRow>
+                <StatName>Total</StatName>
+                <StatValue>{analysis.averageTotal}</StatValue>
+              </StatRow>
+            </Section>
+          </div>
+
+          <Section>
+            <SectionTitle>Defensive Coverage</SectionTitle>
+            <CoverageTable>
+              <thead>
+                <tr>
+                  <th>Attack</th>
+                  <th>Weak</th>
+                  <th>Resist</th>
+                  <th>Immune</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.defense.map((entry) => (
+                  <CoverageRow key={entry.type} $shared={analysis.sharedWeaknesses.includes(entry.type)}>
+                    <td>
+                      <TypeBadge $type={entry.type}>{entry.type}</TypeBadge>
+                    </td>
+                    <td title={entry.weak.join(", ")}>{entry.weak.length || "–"}</td>
+                    <td title={entry.resist.join(", ")}>{entry.resist.length || "–"}</td>
+                    <td title={entry.immune.join(", ")}>{entry.immune.length || "–"}</td>
+                  </CoverageRow>
+                ))}
+              </tbody>
+            </CoverageTable>
+          </Section>
+        </Sections>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,77 @@
+import styled from "styled-components";
+import { getTypeColor } from "../utils/pokemonTypes";
+import { formatMultiplier, groupMatchups } from "../utils/typeEffectiveness";
+import type { TypeMultipliers } from "../utils/typeEffectiveness";
+
+const Groups = styled.div`
+  display: grid;
+  gap: 10px;
+`;
+
+const Group = styled.div`
+  display: flex;
+  align-items: baseline;
+  gap: 12px;
+`;
+
+const GroupLabel = styled.div`
+  width: 120px;
+  flex-shrink: 0;
+  font-weight: 600;
+  color: #666;
+  font-size: 14px;
+`;
+
+const Badges = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+`;
+
+const MatchupBadge = styled.span<{ $type: string }>`
+  padding: 3px 10px;
+  border-radius: 12px;
+  background: ${(props) => getTypeColor(props.$type)};
+  color: white;
+  font-weight: 600;
+  font-size: 12px;
+  text-transform: capitalize;
+`;
+
+const GROUP_LABELS: Record<number, string> = {
+  4: "Very weak",
+  2: "Weak",
+  0.5: "Resists",
+  0.25: "Strongly resists",
+  0: "Immune",
+};
+
+interface TypeMatchupsProps {
+  multipliers: TypeMultipliers;
+}
+
+/**
+ * TypeMatchups Component
+ *
+ * Attacking types grouped by the damage they deal to the defender, strongest weakness first.
+ */
+export function TypeMatchups({ multipliers }: TypeMatchupsProps) {
+  return (
+    <Groups>
+      {groupMatchups(multipliers).map((group) => (
+        <Group key={group.multiplier}>
+          <GroupLabel>
+            {GROUP_LABELS[group.multiplier]} ({formatMultiplier(group.multiplier)})
+          </GroupLabel>
+          <Badges>
+            {group.types.map((type) => (
+              <MatchupBadge key={type} $type={type}>
+                {type}
+              </MatchupBadge>
+            ))}
+          </Badges>
+        </Group>
+      ))}
+    </Groups>
+  );
+}
@@ -5,6 +5,8 @@
  * They replace the use of 'any' types and make the codebase more maintainable.
  */
 
+import type { MessageKey } from "../utils/i18n";
+
 /**
  * Basic Pokemon information from the list endpoint
  */
@@ -22,18 +24,33 @@ export interface PokemonWithImage {
   url: string;
   image: string | null;
   isLoading?: boolean; // For skeleton state tracking
+  error?: MessageKey; // Set when this entry's detail request failed; translated when shown
 }
 
 /**
- * Sprite URLs from Pokemon API
+ * One set of sprite URLs; any of them can be missing for a given Pokemon or game
  */
-export interface PokemonSprites {
+export interface SpriteSet {
   front_default: string | null;
   front_shiny?: string | null;
   back_default?: string | null;
   back_shiny?: string | null;
 }
 
+/**
+ * Sprite URLs from Pokemon API
+ */
+export interface PokemonSprites extends SpriteSet {
+  other?: {
+    "official-artwork"?: SpriteSet;
+    home?: SpriteSet;
+    /** Animated GIFs from Pokemon Showdown */
+    showdown?: SpriteSet;
+  };
+  /** Sprites as they appeared in the games, by generation then version group, e.g. `versions["generation-i"]["red-blue"]` */
+  versions?: Record<string, Record<string, SpriteSet>>;
+}
+
 /**
  * Pokemon type information
  */
@@ -69,6 +86,24 @@ export interface PokemonStat {
   };
 }
 
+/**
+ * How a Pokemon learns a move in one version group
+ */
+export interface PokemonMoveVersion {
+  /** 0 unless learned by level-up */
+  level_learned_at: number;
+  move_learn_method: NamedAPIResource;
+  version_group: NamedAPIResource;
+}
+
+/**
+ * A move the Pokemon can learn, with how it learns it in each version group
+ */
+export interface PokemonMove {
+  move: NamedAPIResource;
+  version_group_details: PokemonMoveVersion[];
+}
+
 /**
  * Species reference
  */
@@ -83,12 +118,13 @@ export interface PokemonSpecies {
 export interface Pokemon {
   id: number;
   name: string;
-  height: number;
-  weight: number;
+  height?: number; // Decimetres; missing from some partial payloads
+  weight?: number; // Hectograms
   sprites: PokemonSprites;
   types: PokemonType[];
   abilities: PokemonAbility[];
   stats: PokemonStat[];
+  moves: PokemonMove[];
   species: PokemonSpecies;
   base_experience?: number;
 }
@@ -99,6 +135,23 @@ export interface Pokemon {
  */
 export interface PokemonWithDescription extends Pokemon {
   description: string;
+  /** Evolution tree of the Pokemon's species; null when it couldn't be loaded */
+  evolution?: EvolutionStage | null;
+  /** Damage multiplier taken from each attacking type; null when the type chart couldn't be loaded */
+  matchups?: Record<string, number> | null;
+  /** Every Pokedex entry of the species, cleaned for display, in game order */
+  flavorTexts?: FlavorText[];
+  /** Species name by language, e.g. `{ ja: "ピカチュウ" }` */
+  localizedNames?: Record<string, string>;
+}
+
+/**
+ * One Pokedex entry, from one game in one language
+ */
+export interface FlavorText {
+  text: string;
+  language: string;
+  version: string;
 }
 
 /**
@@ -132,7 +185,157 @@ export interface FlavorTextEntry {
 export interface SpeciesData {
   flavor_text_entries: FlavorTextEntry[];
   name: string;
-  order: number;
+  /** The species name in each language */
+  names: { name: string; language: NamedAPIResource }[];
+  order?: number;
+  /** Unnamed resource: the chain endpoint is only addressed by ID */
+  evolution_chain?: { url: string };
+  /** Every forme of the species; the default one is what a plain species name refers to */
+  varieties: { is_default: boolean; pokemon: NamedAPIResource }[];
   // ... other species fields as needed
 }
 
+/**
+ * Generic name/url reference used throughout the PokeAPI
+ */
+export interface NamedAPIResource {
+  name: string;
+  url: string;
+}
+
+/**
+ * Damage relations for a single type
+ */
+export interface TypeDamageRelations {
+  double_damage_from: NamedAPIResource[];
+  double_damage_to: NamedAPIResource[];
+  half_damage_from: NamedAPIResource[];
+  half_damage_to: NamedAPIResource[];
+  no_damage_from: NamedAPIResource[];
+  no_damage_to: NamedAPIResource[];
+}
+
+/**
+ * Type data response
+ */
+export interface TypeData {
+  id: number;
+  name: string;
+  damage_relations: TypeDamageRelations;
+  pokemon: {
+    slot: number;
+    pokemon: NamedAPIResource;
+  }[];
+}
+
+/**
+ * Move data response
+ * Status moves have no power, and moves that never miss have no accuracy.
+ */
+export interface MoveData {
+  id: number;
+  name: string;
+  type: NamedAPIResource;
+  power: number | null;
+  accuracy: number | null;
+  pp: number | null;
+  /** "physical", "special" or "status" */
+  damage_class: NamedAPIResource | null;
+}
+
+/**
+ * Effect text of an ability in one language
+ */
+export interface AbilityEffectEntry {
+  effect: string;
+  short_effect: string;
+  language: NamedAPIResource;
+}
+
+/**
+ * Ability data response
+ */
+export interface AbilityData {
+  id: number;
+  name: string;
+  effect_entries: AbilityEffectEntry[];
+  /** Every Pokemon with the ability, including those that only have it as a hidden ability */
+  pokemon: {
+    is_hidden: boolean;
+    slot: number;
+    pokemon: NamedAPIResource;
+  }[];
+}
+
+/**
+ * An ability resolved for display, with its effect in the selected language
+ */
+export interface AbilityDetails {
+  name: string;
+  shortEffect: string;
+  effect: string;
+  pokemon: {
+    name: string;
+    url: string;
+    isHidden: boolean;
+  }[];
+}
+
+/**
+ * Generation data response
+ * Lists species rather than Pokemon, so alternate forms are not included.
+ */
+export interface GenerationData {
+  id: number;
+  name: string;
+  pokemon_species: NamedAPIResource[];
+}
+
+/**
+ * Conditions for a single evolution step
+ * Every condition is null unless this step requires it.
+ */
+export interface EvolutionDetail {
+  trigger: NamedAPIResource;
+  min_level: number | null;
+  item: NamedAPIResource | null;
+  held_item: NamedAPIResource | null;
+  min_happiness: number | null;
+  min_affection: number | null;
+  known_move: NamedAPIResource | null;
+  known_move_type: NamedAPIResource | null;
+  location: NamedAPIResource | null;
+  /** "day", "night" or empty */
+  time_of_day: string;
+  trade_species: NamedAPIResource | null;
+}
+
+/**
+ * One stage of an evolution chain, with the stages it evolves into
+ */
+export interface ChainLink {
+  species: NamedAPIResource;
+  evolution_details: EvolutionDetail[];
+  evolves_to: ChainLink[];
+}
+
+/**
+ * Evolution chain response
+ */
+export interface EvolutionChain {
+  id: number;
+  chain: ChainLink;
+}
+
+/**
+ * One stage of an evolution tree, resolved for display
+ */
+export interface EvolutionStage {
+  name: string;
+  /** Detail URL of the species' default Pokemon */
+  url: string;
+  image: string | null;
+  /** How this stage is reached from the previous one; empty for the first stage */
+  conditions: EvolutionDetail[];
+  evolvesTo: EvolutionStage[];
+}
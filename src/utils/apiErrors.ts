@@ -0,0 +1,94 @@
+/**
+ * Typed API Errors
+ *
+ * Every failure coming out of the fetch layer is one of these, so callers can
+ * decide what to show (and whether retrying makes sense) without parsing messages.
+ */
+
+import type { MessageKey } from "./i18n";
+
+export class PokeApiError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "PokeApiError";
+  }
+}
+
+/**
+ * The request never produced a response (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends PokeApiError {
+  constructor(url: string, readonly cause?: unknown) {
+    super("Network error", url, true);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The request was aborted because it exceeded its timeout
+ */
+export class TimeoutError extends PokeApiError {
+  constructor(url: string, readonly timeout: number) {
+    super(`Request timed out after ${timeout}ms`, url, true);
+    this.name = "TimeoutError";
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * The server responded with a non-2xx status
+ */
+export class HttpStatusError extends PokeApiError {
+  constructor(
+    url: string,
+    readonly status: number,
+    /** Delay requested by a `Retry-After` header, in milliseconds */
+    readonly retryAfter: number | null = null,
+  ) {
+    super(`HTTP ${status}`, url, RETRYABLE_STATUSES.has(status));
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * The response body could not be parsed as JSON
+ */
+export class MalformedResponseError extends PokeApiError {
+  constructor(url: string, detail = "Response body is not valid JSON") {
+    super(`Malformed response: ${detail}`, url, false);
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * True for the rejection produced when a caller aborts a request
+ * Cancellation is intentional, so callers should ignore it rather than show an error.
+ */
+export function isAbortError(err: unknown): boolean {
+  // DOMException isn't an Error subclass in every environment, so check the name only
+  return typeof err === "object" && err !== null && (err as { name?: unknown }).name === "AbortError";
+}
+
+/**
+ * Short, user-facing description of any error thrown while loading data
+ */
+export function describeError(err: unknown): string {
+  if (err instanceof PokeApiError) return err.message;
+  return "Failed to load";
+}
+
+/**
+ * The same description as a message to translate (see utils/i18n.ts)
+ */
+export function getErrorMessageKey(err: unknown): MessageKey {
+  if (err instanceof TimeoutError) return "errorTimeout";
+  if (err instanceof NetworkError) return "errorNetwork";
+  if (err instanceof HttpStatusError) return err.status === 404 ? "errorNotFound" : "errorServer";
+  if (err instanceof MalformedResponseError) return "errorMalformed";
+  return "errorLoadFailed";
+}
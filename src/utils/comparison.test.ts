@@ -0,0 +1,45 @@
+/**
+ * Unit tests for Pokemon comparison
+ */
+
+import { describe, it, expect } from "vitest";
+import { MAX_COMPARED, getStatWinners, parseCompareParam, toggleCompared } from "./comparison";
+import type { Pokemon } from "../types/pokemon";
+
+const pokemon = (name: string, stats: Record<string, number>): Pokemon => ({
+  id: 1,
+  name,
+  sprites: { front_default: null },
+  types: [],
+  abilities: [],
+  moves: [],
+  stats: Object.entries(stats).map(([stat, base_stat]) => ({ base_stat, effort: 0, stat: { name: stat, url: "" } })),
+  species: { name, url: "" },
+});
+
+describe("Pokemon comparison", () => {
+  it("should parse the compare parameter without duplicates or extras", () => {
+    expect(parseCompareParam(null)).toEqual([]);
+    expect(parseCompareParam("Pikachu,raichu,,pikachu")).toEqual(["pikachu", "raichu"]);
+    expect(parseCompareParam("a,b,c,d,e,f")).toHaveLength(MAX_COMPARED);
+  });
+
+  it("should toggle tray entries and refuse additions to a full tray", () => {
+    expect(toggleCompared(["pikachu"], "raichu")).toEqual(["pikachu", "raichu"]);
+    expect(toggleCompared(["pikachu", "raichu"], "pikachu")).toEqual(["raichu"]);
+
+    const full = ["a", "b", "c", "d"];
+    expect(toggleCompared(full, "e")).toBe(full);
+  });
+
+  it("should pick the highest value per stat, including ties", () => {
+    const pikachu = pokemon("pikachu", { speed: 90, attack: 55 });
+    const raichu = pokemon("raichu", { speed: 110, attack: 90 });
+    const jolteon = pokemon("jolteon", { speed: 130, attack: 65 });
+
+    expect(getStatWinners([pikachu, raichu, jolteon], "speed")).toEqual(["jolteon"]);
+    expect(getStatWinners([pikachu, raichu, jolteon], "total")).toEqual(["raichu"]);
+    expect(getStatWinners([pikachu, pokemon("pichu", { speed: 90 })], "speed")).toEqual([]);
+    expect(getStatWinners([pikachu, raichu, pokemon("alolan", { attack: 90 })], "attack")).toEqual(["raichu", "alolan"]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Pokemon Comparison
+ *
+ * Tray limits, the `?compare=` URL encoding and per-stat winners for the comparison view.
+ */
+
+import { getBaseStat, getStatTotal } from "./pokemonFilters";
+import type { StatName } from "./pokemonFilters";
+import type { Pokemon } from "../types/pokemon";
+
+/**
+ * Most Pokemon the tray holds; more columns stop fitting side by side
+ */
+export const MAX_COMPARED = 4;
+
+/**
+ * Reads the compared names from `?compare=pikachu,raichu`, dropping duplicates and extras
+ */
+export function parseCompareParam(value: string | null): string[] {
+  const names = (value ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(names)].slice(0, MAX_COMPARED);
+}
+
+/**
+ * Adds `name` to the tray, or removes it if it is already there
+ * A full tray is returned unchanged.
+ */
+export function toggleCompared(names: string[], name: string): string[] {
+  if (names.includes(name)) return names.filter((entry) => entry !== name);
+  return names.length >= MAX_COMPARED ? names : [...names, name];
+}
+
+/**
+ * Names of the Pokemon with the highest value of `stat` ("total" for the base stat total)
+ * Ties all win; nobody wins when every value is equal.
+ */
+export function getStatWinners(pokemon: Pokemon[], stat: StatName | "total"): string[] {
+  const value = (p: Pokemon) => (stat === "total" ? getStatTotal(p) : getBaseStat(p, stat));
+  const best = Math.max(...pokemon.map(value));
+
+  const winners = pokemon.filter((p) => value(p) === best).map((p) => p.name);
+  return winners.length === pokemon.length ? [] : winners;
+}
@@ -0,0 +1,23 @@
+/**
+ * Concurrency Helpers
+ */
+
+/**
+ * Maps over `items` with at most `limit` calls to `fn` in flight at once
+ * Results keep the order of `items`. The first rejection rejects the whole map;
+ * calls already started are left to settle on their own.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for evolution chains
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildEvolutionTree, describeEvolution, formatResourceName } from "./evolution";
+import type { ChainLink, EvolutionDetail } from "../types/pokemon";
+
+const resource = (name: string) => ({ name, url: `https://pokeapi.co/api/v2/${name}/` });
+
+const detail = (trigger: string, conditions: Partial<EvolutionDetail> = {}): EvolutionDetail => ({
+  trigger: resource(trigger),
+  min_level: null,
+  item: null,
+  held_item: null,
+  min_happiness: null,
+  min_affection: null,
+  known_move: null,
+  known_move_type: null,
+  location: null,
+  time_of_day: "",
+  trade_species: null,
+  ...conditions,
+});
+
+const link = (species: string, evolution_details: EvolutionDetail[], evolves_to: ChainLink[] = []): ChainLink => ({
+  species: { name: species, url: `https://pokeapi.co/api/v2/pokemon-species/${species}/` },
+  evolution_details,
+  evolves_to,
+});
+
+describe("Evolution chains", () => {
+  it("should describe level, item, trade and friendship triggers", () => {
+    expect(describeEvolution([detail("level-up", { min_level: 16 })])).toBe("Level 16");
+    expect(describeEvolution([detail("use-item", { item: resource("thunder-stone") })])).toBe("Use Thunder Stone");
+    expect(describeEvolution([detail("trade", { held_item: resource("metal-coat") })])).toBe("Trade holding Metal Coat");
+    expect(describeEvolution([detail("level-up", { min_happiness: 160, time_of_day: "night" })])).toBe("Level up, with high friendship, at night");
+    expect(describeEvolution([detail("shed")])).toBe("Shed");
+  });
+
+  it("should list each distinct method once", () => {
+    const conditions = [detail("level-up", { location: resource("eterna-forest") }), detail("level-up", { location: resource("eterna-forest") }), detail("use-item", { item: resource("leaf-stone") })];
+    expect(describeEvolution(conditions)).toBe("Level up, at Eterna Forest or Use Leaf Stone");
+  });
+
+  it("should keep branching evolutions as siblings", async () => {
+    const chain = link("eevee", [], [
+      link("vaporeon", [detail("use-item", { item: resource("water-stone") })]),
+      link("jolteon", [detail("use-item", { item: resource("thunder-stone") })]),
+      link("espeon", [detail("level-up", { min_happiness: 160, time_of_day: "day" })]),
+    ]);
+
+    const tree = await buildEvolutionTree(chain, async (species) => ({ url: `pokemon/${species.name}`, image: `${species.name}.png` }));
+
+    expect(tree.name).toBe("eevee");
+    expect(tree.image).toBe("eevee.png");
+    expect(tree.evolvesTo.map((stage) => stage.name)).toEqual(["vaporeon", "jolteon", "espeon"]);
+    expect(describeEvolution(tree.evolvesTo[2].conditions)).toBe("Level up, with high friendship, during the day");
+  });
+
+  it("should title-case resource names", () => {
+    expect(formatResourceName("kings-rock")).toBe("Kings Rock");
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Evolution Chains
+ *
+ * Turns the raw `/evolution-chain` payload into a display tree and describes
+ * what triggers each evolution. Branching chains (Eevee, Tyrogue, Wurmple) are
+ * kept as siblings in `evolvesTo`.
+ */
+
+import { getResourceIdFromUrl } from "./pokemonFilters";
+import type { ChainLink, EvolutionDetail, EvolutionStage, NamedAPIResource } from "../types/pokemon";
+
+/**
+ * "thunder-stone" -> "Thunder Stone"
+ */
+export function formatResourceName(name: string): string {
+  return name
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function describeCondition(detail: EvolutionDetail): string {
+  switch (detail.trigger.name) {
+    case "level-up": {
+      const parts = [detail.min_level !== null ? `Level ${detail.min_level}` : "Level up"];
+      if (detail.min_happiness !== null) parts.push("with high friendship");
+      if (detail.min_affection !== null) parts.push("with high affection");
+      if (detail.time_of_day === "day") parts.push("during the day");
+      if (detail.time_of_day === "night") parts.push("at night");
+      if (detail.held_item) parts.push(`holding ${formatResourceName(detail.held_item.name)}`);
+      if (detail.known_move) parts.push(`knowing ${formatResourceName(detail.known_move.name)}`);
+      if (detail.known_move_type) parts.push(`knowing a ${formatResourceName(detail.known_move_type.name)}-type move`);
+      if (detail.location) parts.push(`at ${formatResourceName(detail.location.name)}`);
+      return parts.join(", ");
+    }
+    case "use-item":
+      return detail.item ? `Use ${formatResourceName(detail.item.name)}` : "Use item";
+    case "trade": {
+      const parts = ["Trade"];
+      if (detail.held_item) parts.push(`holding ${formatResourceName(detail.held_item.name)}`);
+      if (detail.trade_species) parts.push(`for ${formatResourceName(detail.trade_species.name)}`);
+      return parts.join(" ");
+    }
+    default:
+      return formatResourceName(detail.trigger.name);
+  }
+}
+
+/**
+ * Describes how a stage is reached, e.g. "Level 16", "Use Water Stone" or "Trade holding Metal Coat"
+ * Stages with several methods (usually one per game) list each distinct one.
+ */
+export function describeEvolution(conditions: EvolutionDetail[]): string {
+  return [...new Set(conditions.map(describeCondition))].join(" or ");
+}
+
+/**
+ * Resolves every species in a chain to a display stage, loading all stages in parallel
+ *
+ * @param link - Root link of the chain
+ * @param resolveStage - Looks up the detail URL and sprite of a species' default Pokemon
+ */
+export async function buildEvolutionTree(link: ChainLink, resolveStage: (species: NamedAPIResource) => Promise<Pick<EvolutionStage, "url" | "image">>): Promise<EvolutionStage> {
+  const [stage, evolvesTo] = await Promise.all([resolveStage(link.species), Promise.all(link.evolves_to.map((next) => buildEvolutionTree(next, resolveStage)))]);
+
+  return { name: link.species.name, ...stage, conditions: link.evolution_details, evolvesTo };
+}
+
+/**
+ * Species ID of a chain link; the species' default Pokemon shares it
+ */
+export function getSpeciesId(species: NamedAPIResource): number | string {
+  return getResourceIdFromUrl(species.url) ?? species.name;
+}
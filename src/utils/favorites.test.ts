@@ -0,0 +1,58 @@
+/**
+ * Unit tests for favorites and pinned cards
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { EMPTY_FAVORITES, FAVORITES_STORAGE_KEY, getPinned, loadFavorites, placePinned, saveFavorites, toggleFavorite } from "./favorites";
+import type { PokemonWithImage } from "../types/pokemon";
+
+const card = (name: string): PokemonWithImage => ({ name, url: `https://pokeapi.co/api/v2/pokemon/${name}/`, image: `${name}.png`, isLoading: false });
+
+describe("Favorites", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should star, unstar and persist favorites", () => {
+    let favorites = toggleFavorite(EMPTY_FAVORITES, card("pikachu"));
+    favorites = toggleFavorite(favorites, card("eevee"));
+    favorites = toggleFavorite(favorites, card("pikachu"));
+    saveFavorites({ ...favorites, keepOnRefresh: true });
+
+    expect(loadFavorites()).toEqual({ items: [{ name: "eevee", url: card("eevee").url }], keepOnRefresh: true });
+
+    window.localStorage.setItem(FAVORITES_STORAGE_KEY, "{not json");
+    expect(loadFavorites()).toEqual(EMPTY_FAVORITES);
+  });
+
+  it("should keep pinned cards at their positions between new picks", () => {
+    const favorites = toggleFavorite(toggleFavorite(EMPTY_FAVORITES, card("eevee")), card("mew"));
+    const pinned = getPinned([card("mew"), card("onix"), card("eevee"), card("abra")], favorites);
+
+    expect(pinned.map(({ index }) => index)).toEqual([0, 2]);
+    const picks = [card("zubat"), card("mew"), card("geodude"), card("abra"), card("eevee"), card("pidgey")];
+    // Pins replace slots 0 and 2; the picked mew in slot 1 gives way to the first spare that isn't pinned
+    expect(placePinned(picks, pinned, 4).map((p) => p.name)).toEqual(["mew", "pidgey", "eevee", "abra"]);
+  });
+
+  it("should move pins past the end into the last free slots", () => {
+    const picks = [card("zubat"), card("onix"), card("geodude"), card("abra"), card("pidgey")];
+    const pinned = [
+      { index: 5, pokemon: card("mew") },
+      { index: 7, pokemon: card("eevee") },
+      { index: 3, pokemon: card("ditto") },
+    ];
+
+    // ditto keeps slot 3, so eevee (the later pin) takes slot 2 and mew slot 1
+    expect(placePinned(picks, pinned, 4).map((p) => p.name)).toEqual(["zubat", "mew", "eevee", "ditto"]);
+  });
+
+  it("should keep every pin when there are no picks", () => {
+    const pinned = [
+      { index: 0, pokemon: card("mew") },
+      { index: 6, pokemon: card("eevee") },
+    ];
+
+    expect(placePinned([], pinned, 4).map((p) => p.name)).toEqual(["mew", "eevee"]);
+  });
+});
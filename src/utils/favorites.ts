@@ -0,0 +1,105 @@
+/**
+ * Favorites
+ *
+ * Starred Pokemon and the "keep favorites on Refresh" preference, kept in
+ * localStorage like saved teams (see teams.ts).
+ */
+
+import type { PokemonListItem, PokemonWithImage } from "../types/pokemon";
+
+export const FAVORITES_STORAGE_KEY = "pokemon-favorites";
+
+export interface Favorites {
+  /** Starred Pokemon, oldest first */
+  items: PokemonListItem[];
+  /** Keep starred cards in place when the random list is refreshed */
+  keepOnRefresh: boolean;
+}
+
+export const EMPTY_FAVORITES: Favorites = { items: [], keepOnRefresh: false };
+
+/**
+ * Stars `pokemon`, or unstars it if it is already a favorite
+ */
+export function toggleFavorite(favorites: Favorites, pokemon: PokemonListItem): Favorites {
+  return {
+    ...favorites,
+    items: isFavorite(favorites, pokemon.name) ? favorites.items.filter((item) => item.name !== pokemon.name) : [...favorites.items, { name: pokemon.name, url: pokemon.url }],
+  };
+}
+
+/**
+ * A card that stays at its position in the grid when the random list is rerolled
+ */
+export interface PinnedPokemon {
+  index: number;
+  pokemon: PokemonWithImage;
+}
+
+export const isFavorite = (favorites: Favorites, name: string) => favorites.items.some((item) => item.name === name);
+
+/**
+ * The favorite cards of a list, with their positions
+ */
+export function getPinned(list: PokemonWithImage[], favorites: Favorites): PinnedPokemon[] {
+  return list.flatMap((pokemon, index) => (isFavorite(favorites, pokemon.name) ? [{ index, pokemon }] : []));
+}
+
+/**
+ * Lays pinned cards over the first `count` picks, at their positions
+ *
+ * The picks themselves don't depend on the pins, so a shared seed gives the same
+ * list everywhere apart from the pinned slots. A pick that duplicates a pinned card
+ * is swapped for the next unused pick past `count`. Pins past the end fill the free
+ * slots counting back from the last one. The list is only shorter than `count` when
+ * there aren't enough distinct Pokemon to fill it.
+ */
+export function placePinned(picks: PokemonWithImage[], pinned: PinnedPokemon[], count: number): PokemonWithImage[] {
+  const list: (PokemonWithImage | null)[] = Array.from({ length: count }, () => null);
+  const pinnedNames = new Set(pinned.map(({ pokemon }) => pokemon.name));
+
+  const overflow = pinned.filter(({ index }) => index >= count).sort((a, b) => b.index - a.index);
+  for (const { index, pokemon } of pinned) if (index < count) list[index] = pokemon;
+  let free = count - 1;
+  for (const { pokemon } of overflow) {
+    while (free >= 0 && list[free]) free--;
+    if (free < 0) break;
+    list[free] = pokemon;
+  }
+
+  // Picks past `count` first, then the ones a pin took the slot of
+  const spares = [...picks.slice(count), ...picks.slice(0, count).filter((_, index) => list[index])].filter((pick) => !pinnedNames.has(pick.name));
+  return list
+    .map((pokemon, index) => {
+      if (pokemon) return pokemon;
+      const pick = picks[index];
+      return pick && !pinnedNames.has(pick.name) ? pick : (spares.shift() ?? null);
+    })
+    .filter(Boolean);
+}
+
+const isListItem = (value: unknown): value is PokemonListItem => typeof (value as PokemonListItem)?.name === "string" && typeof (value as PokemonListItem).url === "string";
+
+/**
+ * Reads saved favorites; missing, unreadable or malformed data yields none
+ */
+export function loadFavorites(storage: Storage = window.localStorage): Favorites {
+  try {
+    const saved = JSON.parse(storage.getItem(FAVORITES_STORAGE_KEY) ?? "null");
+    if (!saved || !Array.isArray(saved.items)) return EMPTY_FAVORITES;
+    return { items: saved.items.filter(isListItem), keepOnRefresh: saved.keepOnRefresh === true };
+  } catch {
+    return EMPTY_FAVORITES;
+  }
+}
+
+/**
+ * Saves favorites; a full or unavailable storage keeps them for this session only
+ */
+export function saveFavorites(favorites: Favorites, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
+  } catch (err) {
+    console.error("Failed to save favorites:", err);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the retrying fetch wrapper
+ *
+ * These tests validate error classification, backoff and Retry-After handling.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fetchJson, parseRetryAfter, getBackoffDelay } from "./fetchWithRetry";
+import { HttpStatusError, MalformedResponseError, NetworkError, TimeoutError } from "./apiErrors";
+
+const jsonResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+const statusResponse = (status: number, retryAfter: string | null = null) => ({
+  ok: false,
+  status,
+  headers: { get: (name: string) => (name === "Retry-After" ? retryAfter : null) },
+  json: async () => ({}),
+});
+
+describe("fetchJson", () => {
+  const mockFetch = globalThis.fetch as any;
+  let delays: number[];
+  const sleep = async (ms: number) => {
+    delays.push(ms);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delays = [];
+  });
+
+  it("should retry retryable statuses and resolve once a request succeeds", async () => {
+    mockFetch.mockResolvedValueOnce(statusResponse(503));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ name: "pikachu" }));
+
+    const result = await fetchJson("https://example.com/pokemon/25/", { sleep, random: () => 0.5 });
+
+    expect(result).toEqual({ name: "pikachu" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(delays).toEqual([150]);
+  });
+
+  it("should wait for Retry-After instead of the backoff delay", async () => {
+    mockFetch.mockResolvedValueOnce(statusResponse(429, "2"));
+    mockFetch.mockResolvedValueOnce(jsonResponse({}));
+
+    await fetchJson("https://example.com/pokemon/25/", { sleep });
+
+    expect(delays).toEqual([2000]);
+  });
+
+  it("should not retry non-retryable statuses", async () => {
+    mockFetch.mockResolvedValueOnce(statusResponse(404));
+
+    const error = (await fetchJson("https://example.com/pokemon/missing/", { sleep }).catch((err) => err)) as HttpStatusError;
+
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error.status).toBe(404);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up with a typed error once retries are exhausted", async () => {
+    mockFetch.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const error = await fetchJson("https://example.com/pokemon/25/", { sleep, retries: 2 }).catch((err) => err);
+    mockFetch.mockReset();
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(delays).toHaveLength(2);
+  });
+
+  it("should report malformed bodies without retrying", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => Promise.reject(new SyntaxError("Unexpected token <")) });
+
+    await expect(fetchJson("https://example.com/pokemon/25/", { sleep })).rejects.toBeInstanceOf(MalformedResponseError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should turn a timed out attempt into a TimeoutError", async () => {
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: RequestInit) => new Promise((_resolve, reject) => init.signal.addEventListener("abort", () => reject(new Error("AbortError")))),
+    );
+
+    await expect(fetchJson("https://example.com/pokemon/25/", { timeout: 10, retries: 0 })).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
+
+describe("retry helpers", () => {
+  it("should parse Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", Date.parse("Wed, 21 Oct 2015 07:28:00 GMT"))).toBe(5000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+
+  it("should cap exponential backoff at maxDelay", () => {
+    const options = { baseDelay: 100, maxDelay: 1000 };
+
+    expect(getBackoffDelay(0, options, () => 0.999)).toBe(99);
+    expect(getBackoffDelay(3, options, () => 0.999)).toBe(799);
+    expect(getBackoffDelay(10, options, () => 0.999)).toBe(999);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Fetch Wrapper With Retry
+ *
+ * Turns every failure into a typed error from apiErrors.ts and retries the
+ * retryable ones with jittered exponential backoff, honouring `Retry-After`.
+ */
+
+import { NetworkError, TimeoutError, HttpStatusError, MalformedResponseError, PokeApiError } from "./apiErrors";
+
+export interface RetryOptions {
+  /** Retries after the first attempt (0 disables retrying) */
+  retries?: number;
+  /** Backoff cap for the first retry; doubled on every subsequent retry */
+  baseDelay?: number;
+  maxDelay?: number;
+  /** Longest `Retry-After` worth waiting for; longer requests fail immediately */
+  maxRetryAfter?: number;
+}
+
+export interface FetchJsonOptions extends RetryOptions {
+  /** Per-attempt timeout in milliseconds */
+  timeout?: number;
+  /** Caller cancellation; aborting rejects with the signal's AbortError and is never retried */
+  signal?: AbortSignal;
+  /** Overrides for tests */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 2,
+  baseDelay: 300,
+  maxDelay: 5000,
+  maxRetryAfter: 30000,
+};
+
+/**
+ * Parses a `Retry-After` header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay in [0, min(maxDelay, baseDelay * 2^attempt))
+ */
+export function getBackoffDelay(attempt: number, options: Pick<RetryOptions, "baseDelay" | "maxDelay">, random = Math.random): number {
+  return Math.floor(random() * Math.min(options.maxDelay, options.baseDelay * 2 ** attempt));
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
+
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeoutId);
+        reject(abortError(signal));
+      },
+      { once: true },
+    );
+  });
+}
+
+async function attempt(url: string, timeout: number | undefined, signal: AbortSignal | undefined): Promise<unknown> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timeoutId = timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+    : undefined;
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: controller.signal });
+    } catch (err) {
+      if (signal?.aborted) throw abortError(signal);
+      if (timedOut) throw new TimeoutError(url, timeout);
+      throw new NetworkError(url, err);
+    }
+
+    if (!response.ok) {
+      throw new HttpStatusError(url, response.status, parseRetryAfter(response.headers?.get("Retry-After")));
+    }
+
+    try {
+      return await response.json();
+    } catch (err) {
+      if (signal?.aborted) throw abortError(signal);
+      if (timedOut) throw new TimeoutError(url, timeout);
+      throw new MalformedResponseError(url);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Fetches and parses a JSON resource, retrying transient failures
+ *
+ * @param url - Absolute URL to fetch
+ * @param options - Timeout, cancellation and retry configuration
+ * @returns Promise resolving to the parsed body
+ * @throws PokeApiError subclass once retries are exhausted or the failure is not retryable
+ */
+export async function fetchJson<T = unknown>(url: string, options: FetchJsonOptions = {}): Promise<T> {
+  const { timeout, signal, sleep = defaultSleep, random = Math.random } = options;
+  const retryOptions: Required<RetryOptions> = {
+    retries: options.retries ?? DEFAULT_RETRY_OPTIONS.retries,
+    baseDelay: options.baseDelay ?? DEFAULT_RETRY_OPTIONS.baseDelay,
+    maxDelay: options.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay,
+    maxRetryAfter: options.maxRetryAfter ?? DEFAULT_RETRY_OPTIONS.maxRetryAfter,
+  };
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    if (signal?.aborted) throw abortError(signal);
+
+    try {
+      return (await attempt(url, timeout, signal)) as T;
+    } catch (err) {
+      const canRetry = err instanceof PokeApiError && err.retryable && attemptNumber < retryOptions.retries;
+      if (!canRetry) throw err;
+
+      const retryAfter = err instanceof HttpStatusError ? err.retryAfter : null;
+      if (retryAfter !== null && retryAfter > retryOptions.maxRetryAfter) throw err;
+
+      await sleep(retryAfter ?? getBackoffDelay(attemptNumber, retryOptions, random), signal);
+    }
+  }
+}
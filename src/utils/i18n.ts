@@ -0,0 +1,1348 @@
+/**
+ * UI Translations
+ *
+ * Strings of the list and details views and the error messages shown across the
+ * app, by language (see language.ts for the language codes). A language without
+ * a catalog, or a string missing from one, falls back to English. `{name}`
+ * placeholders are filled from `params`.
+ */
+
+import { DEFAULT_LANGUAGE } from "./language";
+
+const en = {
+  listTitle: "Pokémon List",
+  refresh: "Refresh",
+  retry: "Retry",
+  seed: "Seed",
+  load: "Load",
+  listMode: "List mode",
+  modeRandom: "Random",
+  modeBrowse: "Browse",
+  modeFilter: "Filter",
+  modeFavorites: "Favorites",
+  loadingPokemon: "Loading Pokémon...",
+  loadingStats: "Loading stats… {loaded} / {total}",
+  noFilterMatches: "No Pokémon match these filters",
+  noFavorites: "No favorites yet. Star a Pokémon to add it here.",
+  keepFavorites: "Keep favorites in place on Refresh",
+  favorite: "Favorite {name}",
+  compare: "+ Compare",
+  comparing: "✓ Comparing",
+  previousPage: "‹ Previous",
+  nextPage: "Next ›",
+  pageRange: "#{first}–#{last} of {count}",
+  spriteUnavailable: "Pokemon sprite unavailable",
+  listLoadFailed: "Failed to load Pokemon list",
+  listOffline: "You're offline and this list isn't available offline yet",
+  detailsTitle: "Pokémon Details",
+  loadingDetails: "Loading details...",
+  detailsLoadFailed: "Failed to load Pokemon details",
+  selectPrompt: "👆 Select a Pokémon from the list to view details",
+  noSprite: "No sprite",
+  addToTeam: "+ Add to {team}",
+  inTeam: "In {team}",
+  teamFull: "{team} is full",
+  description: "Description",
+  game: "Game",
+  sprites: "Sprites",
+  types: "Types",
+  typeMatchups: "Type Matchups",
+  abilities: "Abilities",
+  hidden: "(hidden)",
+  loadingAbility: "Loading ability...",
+  abilityLoadFailed: "Failed to load ability",
+  alsoFoundOn: "Also found on",
+  abilityDialog: "{name} ability",
+  close: "Close",
+  physicalStats: "Physical Stats",
+  height: "Height",
+  weight: "Weight",
+  unknown: "Unknown",
+  build: "Build",
+  bodyMassIndex: "BMI {value}",
+  sizeAiry: "Airy",
+  sizeSlender: "Slender",
+  sizeAverage: "Average",
+  sizeStocky: "Stocky",
+  sizeHeavyset: "Heavyset",
+  evolution: "Evolution",
+  baseStats: "Base Stats",
+  statTotal: "Total",
+  statsChart: "{name} base stats chart",
+  percentileHint: "Higher than {value}% of Pokémon",
+  rankStats: "📊 Rank against all Pokémon",
+  rankingStats: "Ranking against all Pokémon… {loaded} / {total}",
+  rankedAmong: "Percentiles among {count} Pokémon",
+  statsIndexFailed: "Failed to build the stats index",
+  statCalculator: "Stat Calculator",
+  level: "Level",
+  nature: "Nature",
+  stat: "Stat",
+  base: "Base",
+  ivs: "IVs",
+  evs: "EVs",
+  result: "Result",
+  levelShort: "Lv. {level}",
+  evsUsed: "EVs used: {used} / {max}",
+  evYield: "EV yield: {yield}",
+  none: "None",
+  levelOutOfRange: "Level must be between {min} and {max}",
+  ivsOutOfRange: "IVs for {stat} must be between 0 and {max}",
+  evsOutOfRange: "EVs for {stat} must be between 0 and {max}",
+  evTotalTooHigh: "EVs total {total}, more than {max}",
+  moves: "Moves",
+  comparisonLoadFailed: "Failed to load the comparison",
+  teamLoadFailed: "Failed to load the team",
+  offlineDownloadFailed: "Failed to download the Pokédex",
+  offlineNotReady: "Offline mode isn't ready yet; reload the page and try again",
+  filters: "Filters",
+  type: "Type",
+  generation: "Generation",
+  anyGeneration: "Any",
+  generationNumber: "Generation {number}",
+  statMin: "min",
+  statMax: "max",
+  statMinLabel: "{stat} min",
+  statMaxLabel: "{stat} max",
+  sortBy: "Sort by",
+  sortOrder: "Sort order",
+  ascending: "Ascending",
+  descending: "Descending",
+  reset: "Reset",
+  apply: "Apply",
+  sortDexNumber: "National Dex #",
+  sortName: "Name",
+  sortTotal: "Base stat total",
+  statHp: "HP",
+  statAttack: "Attack",
+  statDefense: "Defense",
+  statSpecialAttack: "Sp. Attack",
+  statSpecialDefense: "Sp. Defense",
+  statSpeed: "Speed",
+  searchLabel: "Search Pokémon by name",
+  searchPlaceholder: "Search {count} Pokémon...",
+  loadingSearchIndex: "Loading Pokémon index...",
+  noSearchResults: "No Pokémon found",
+  move: "Move",
+  power: "Power",
+  accuracyShort: "Acc.",
+  pp: "PP",
+  versionGroup: "Version group",
+  evolutionLevel: "Evo",
+  showMoreMoves: "Show more moves ({count} left)",
+  learnLevelUp: "Level-up",
+  learnMachine: "TM/HM",
+  learnEgg: "Egg",
+  learnTutor: "Tutor",
+  spriteSource: "Sprite source",
+  shiny: "Shiny",
+  front: "Front",
+  back: "Back",
+  spriteAlt: "{name} sprite",
+  spriteFront: "{name} front sprite",
+  spriteBack: "{name} back sprite",
+  spriteShinyFront: "{name} shiny front sprite",
+  spriteShinyBack: "{name} shiny back sprite",
+  spriteOfficialArtwork: "Official artwork",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown (animated)",
+  spriteDefault: "Default",
+  spriteGame: "Gen {generation}: {game}",
+  errorNetwork: "Network error",
+  errorTimeout: "Request timed out",
+  errorNotFound: "Not found",
+  errorServer: "Server error",
+  errorMalformed: "Unexpected response",
+  errorLoadFailed: "Failed to load",
+};
+
+export type MessageKey = keyof typeof en;
+
+type Catalog = Partial<Record<MessageKey, string>>;
+
+const es: Catalog = {
+  listTitle: "Lista de Pokémon",
+  refresh: "Actualizar",
+  retry: "Reintentar",
+  seed: "Semilla",
+  load: "Cargar",
+  listMode: "Modo de lista",
+  modeRandom: "Aleatorio",
+  modeBrowse: "Explorar",
+  modeFilter: "Filtrar",
+  modeFavorites: "Favoritos",
+  loadingPokemon: "Cargando Pokémon...",
+  loadingStats: "Cargando estadísticas… {loaded} / {total}",
+  noFilterMatches: "Ningún Pokémon coincide con estos filtros",
+  noFavorites: "Aún no hay favoritos. Marca un Pokémon con la estrella para añadirlo aquí.",
+  keepFavorites: "Mantener los favoritos en su sitio al actualizar",
+  favorite: "Marcar {name} como favorito",
+  compare: "+ Comparar",
+  comparing: "✓ Comparando",
+  previousPage: "‹ Anterior",
+  nextPage: "Siguiente ›",
+  pageRange: "#{first}–#{last} de {count}",
+  spriteUnavailable: "Sprite del Pokémon no disponible",
+  listLoadFailed: "No se pudo cargar la lista de Pokémon",
+  listOffline: "Estás sin conexión y esta lista aún no está disponible sin conexión",
+  detailsTitle: "Detalles del Pokémon",
+  loadingDetails: "Cargando detalles...",
+  detailsLoadFailed: "No se pudieron cargar los detalles del Pokémon",
+  selectPrompt: "👆 Selecciona un Pokémon de la lista para ver sus detalles",
+  noSprite: "Sin sprite",
+  addToTeam: "+ Añadir a {team}",
+  inTeam: "En {team}",
+  teamFull: "{team} está completo",
+  description: "Descripción",
+  game: "Juego",
+  sprites: "Sprites",
+  types: "Tipos",
+  typeMatchups: "Eficacia de tipos",
+  abilities: "Habilidades",
+  hidden: "(oculta)",
+  loadingAbility: "Cargando habilidad...",
+  abilityLoadFailed: "No se pudo cargar la habilidad",
+  alsoFoundOn: "También la tienen",
+  abilityDialog: "Habilidad {name}",
+  close: "Cerrar",
+  physicalStats: "Datos físicos",
+  height: "Altura",
+  weight: "Peso",
+  unknown: "Desconocido",
+  build: "Complexión",
+  bodyMassIndex: "IMC {value}",
+  sizeAiry: "Etérea",
+  sizeSlender: "Esbelta",
+  sizeAverage: "Media",
+  sizeStocky: "Robusta",
+  sizeHeavyset: "Corpulenta",
+  evolution: "Evolución",
+  baseStats: "Estadísticas base",
+  statTotal: "Total",
+  statsChart: "Gráfico de estadísticas base de {name}",
+  percentileHint: "Superior al {value}% de los Pokémon",
+  rankStats: "📊 Comparar con todos los Pokémon",
+  rankingStats: "Comparando con todos los Pokémon… {loaded} / {total}",
+  rankedAmong: "Percentiles entre {count} Pokémon",
+  statsIndexFailed: "No se pudo crear el índice de estadísticas",
+  statCalculator: "Calculadora de estadísticas",
+  level: "Nivel",
+  nature: "Naturaleza",
+  stat: "Estadística",
+  base: "Base",
+  ivs: "IV",
+  evs: "EV",
+  result: "Resultado",
+  levelShort: "Nv. {level}",
+  evsUsed: "EV usados: {used} / {max}",
+  evYield: "EV que otorga: {yield}",
+  none: "Ninguno",
+  levelOutOfRange: "El nivel debe estar entre {min} y {max}",
+  ivsOutOfRange: "Los IV de {stat} deben estar entre 0 y {max}",
+  evsOutOfRange: "Los EV de {stat} deben estar entre 0 y {max}",
+  evTotalTooHigh: "Los EV suman {total}, más de {max}",
+  moves: "Movimientos",
+  comparisonLoadFailed: "No se pudo cargar la comparación",
+  teamLoadFailed: "No se pudo cargar el equipo",
+  offlineDownloadFailed: "No se pudo descargar la Pokédex",
+  offlineNotReady: "El modo sin conexión aún no está listo; recarga la página y vuelve a intentarlo",
+  filters: "Filtros",
+  type: "Tipo",
+  generation: "Generación",
+  anyGeneration: "Cualquiera",
+  generationNumber: "Generación {number}",
+  statMin: "mín.",
+  statMax: "máx.",
+  statMinLabel: "{stat} mín.",
+  statMaxLabel: "{stat} máx.",
+  sortBy: "Ordenar por",
+  sortOrder: "Orden",
+  ascending: "Ascendente",
+  descending: "Descendente",
+  reset: "Restablecer",
+  apply: "Aplicar",
+  sortDexNumber: "N.º de la Pokédex Nacional",
+  sortName: "Nombre",
+  sortTotal: "Total de estadísticas base",
+  statHp: "PS",
+  statAttack: "Ataque",
+  statDefense: "Defensa",
+  statSpecialAttack: "At. Esp.",
+  statSpecialDefense: "Def. Esp.",
+  statSpeed: "Velocidad",
+  searchLabel: "Buscar Pokémon por nombre",
+  searchPlaceholder: "Buscar entre {count} Pokémon...",
+  loadingSearchIndex: "Cargando el índice de Pokémon...",
+  noSearchResults: "No se encontró ningún Pokémon",
+  move: "Movimiento",
+  power: "Potencia",
+  accuracyShort: "Prec.",
+  pp: "PP",
+  versionGroup: "Grupo de versiones",
+  evolutionLevel: "Evo",
+  showMoreMoves: "Mostrar más movimientos (quedan {count})",
+  learnLevelUp: "Nivel",
+  learnMachine: "MT/MO",
+  learnEgg: "Huevo",
+  learnTutor: "Tutor",
+  spriteSource: "Origen del sprite",
+  shiny: "Variocolor",
+  front: "Frente",
+  back: "Espalda",
+  spriteAlt: "Sprite de {name}",
+  spriteFront: "Sprite frontal de {name}",
+  spriteBack: "Sprite trasero de {name}",
+  spriteShinyFront: "Sprite frontal variocolor de {name}",
+  spriteShinyBack: "Sprite trasero variocolor de {name}",
+  spriteOfficialArtwork: "Ilustración oficial",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown (animado)",
+  spriteDefault: "Predeterminado",
+  spriteGame: "Gen. {generation}: {game}",
+  errorNetwork: "Error de red",
+  errorTimeout: "La solicitud tardó demasiado",
+  errorNotFound: "No encontrado",
+  errorServer: "Error del servidor",
+  errorMalformed: "Respuesta inesperada",
+  errorLoadFailed: "Error al cargar",
+};
+
+const fr: Catalog = {
+  listTitle: "Liste des Pokémon",
+  refresh: "Actualiser",
+  retry: "Réessayer",
+  seed: "Graine",
+  load: "Charger",
+  listMode: "Mode de liste",
+  modeRandom: "Aléatoire",
+  modeBrowse: "Parcourir",
+  modeFilter: "Filtrer",
+  modeFavorites: "Favoris",
+  loadingPokemon: "Chargement des Pokémon...",
+  loadingStats: "Chargement des statistiques… {loaded} / {total}",
+  noFilterMatches: "Aucun Pokémon ne correspond à ces filtres",
+  noFavorites: "Aucun favori pour l’instant. Ajoutez une étoile à un Pokémon pour le retrouver ici.",
+  keepFavorites: "Garder les favoris en place lors de l’actualisation",
+  favorite: "Ajouter {name} aux favoris",
+  compare: "+ Comparer",
+  comparing: "✓ Comparé",
+  previousPage: "‹ Précédent",
+  nextPage: "Suivant ›",
+  pageRange: "n°{first}–n°{last} sur {count}",
+  spriteUnavailable: "Sprite du Pokémon indisponible",
+  listLoadFailed: "Impossible de charger la liste des Pokémon",
+  listOffline: "Vous êtes hors ligne et cette liste n'est pas encore disponible hors ligne",
+  detailsTitle: "Détails du Pokémon",
+  loadingDetails: "Chargement des détails...",
+  detailsLoadFailed: "Impossible de charger les détails du Pokémon",
+  selectPrompt: "👆 Sélectionnez un Pokémon dans la liste pour voir ses détails",
+  noSprite: "Aucun sprite",
+  addToTeam: "+ Ajouter à {team}",
+  inTeam: "Dans {team}",
+  teamFull: "{team} est complète",
+  description: "Description",
+  game: "Jeu",
+  sprites: "Sprites",
+  types: "Types",
+  typeMatchups: "Efficacité des types",
+  abilities: "Talents",
+  hidden: "(caché)",
+  loadingAbility: "Chargement du talent...",
+  abilityLoadFailed: "Impossible de charger le talent",
+  alsoFoundOn: "Également chez",
+  abilityDialog: "Talent {name}",
+  close: "Fermer",
+  physicalStats: "Caractéristiques physiques",
+  height: "Taille",
+  weight: "Poids",
+  unknown: "Inconnu",
+  build: "Corpulence",
+  bodyMassIndex: "IMC {value}",
+  sizeAiry: "Aérienne",
+  sizeSlender: "Élancée",
+  sizeAverage: "Moyenne",
+  sizeStocky: "Trapue",
+  sizeHeavyset: "Massive",
+  evolution: "Évolution",
+  baseStats: "Statistiques de base",
+  statTotal: "Total",
+  statsChart: "Graphique des statistiques de base de {name}",
+  percentileHint: "Supérieur à {value} % des Pokémon",
+  rankStats: "📊 Classer parmi tous les Pokémon",
+  rankingStats: "Classement parmi tous les Pokémon… {loaded} / {total}",
+  rankedAmong: "Percentiles parmi {count} Pokémon",
+  statsIndexFailed: "Impossible de construire l'index des statistiques",
+  statCalculator: "Calculateur de statistiques",
+  level: "Niveau",
+  nature: "Nature",
+  stat: "Stat",
+  base: "Base",
+  ivs: "IV",
+  evs: "EV",
+  result: "Résultat",
+  levelShort: "N. {level}",
+  evsUsed: "EV utilisés : {used} / {max}",
+  evYield: "EV rapportés : {yield}",
+  none: "Aucun",
+  levelOutOfRange: "Le niveau doit être compris entre {min} et {max}",
+  ivsOutOfRange: "Les IV en {stat} doivent être compris entre 0 et {max}",
+  evsOutOfRange: "Les EV en {stat} doivent être compris entre 0 et {max}",
+  evTotalTooHigh: "Les EV totalisent {total}, plus de {max}",
+  moves: "Capacités",
+  comparisonLoadFailed: "Impossible de charger la comparaison",
+  teamLoadFailed: "Impossible de charger l'équipe",
+  offlineDownloadFailed: "Impossible de télécharger le Pokédex",
+  offlineNotReady: "Le mode hors ligne n'est pas encore prêt ; rechargez la page et réessayez",
+  filters: "Filtres",
+  type: "Type",
+  generation: "Génération",
+  anyGeneration: "Toutes",
+  generationNumber: "Génération {number}",
+  statMin: "min",
+  statMax: "max",
+  statMinLabel: "{stat} min",
+  statMaxLabel: "{stat} max",
+  sortBy: "Trier par",
+  sortOrder: "Ordre de tri",
+  ascending: "Croissant",
+  descending: "Décroissant",
+  reset: "Réinitialiser",
+  apply: "Appliquer",
+  sortDexNumber: "N° du Pokédex national",
+  sortName: "Nom",
+  sortTotal: "Total des stats de base",
+  statHp: "PV",
+  statAttack: "Attaque",
+  statDefense: "Défense",
+  statSpecialAttack: "Att. Spé.",
+  statSpecialDefense: "Déf. Spé.",
+  statSpeed: "Vitesse",
+  searchLabel: "Rechercher un Pokémon par nom",
+  searchPlaceholder: "Rechercher parmi {count} Pokémon...",
+  loadingSearchIndex: "Chargement de l'index des Pokémon...",
+  noSearchResults: "Aucun Pokémon trouvé",
+  move: "Capacité",
+  power: "Puissance",
+  accuracyShort: "Préc.",
+  pp: "PP",
+  versionGroup: "Groupe de versions",
+  evolutionLevel: "Évo",
+  showMoreMoves: "Afficher plus de capacités ({count} restantes)",
+  learnLevelUp: "Montée de niveau",
+  learnMachine: "CT/CS",
+  learnEgg: "Œuf",
+  learnTutor: "Donneur",
+  spriteSource: "Source du sprite",
+  shiny: "Chromatique",
+  front: "Face",
+  back: "Dos",
+  spriteAlt: "Sprite de {name}",
+  spriteFront: "Sprite de face de {name}",
+  spriteBack: "Sprite de dos de {name}",
+  spriteShinyFront: "Sprite chromatique de face de {name}",
+  spriteShinyBack: "Sprite chromatique de dos de {name}",
+  spriteOfficialArtwork: "Illustration officielle",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown (animé)",
+  spriteDefault: "Par défaut",
+  spriteGame: "Gén. {generation} : {game}",
+  errorNetwork: "Erreur réseau",
+  errorTimeout: "La requête a expiré",
+  errorNotFound: "Introuvable",
+  errorServer: "Erreur du serveur",
+  errorMalformed: "Réponse inattendue",
+  errorLoadFailed: "Échec du chargement",
+};
+
+const de: Catalog = {
+  listTitle: "Pokémon-Liste",
+  refresh: "Neu laden",
+  retry: "Erneut versuchen",
+  seed: "Seed",
+  load: "Laden",
+  listMode: "Listenmodus",
+  modeRandom: "Zufällig",
+  modeBrowse: "Durchblättern",
+  modeFilter: "Filtern",
+  modeFavorites: "Favoriten",
+  loadingPokemon: "Pokémon werden geladen...",
+  loadingStats: "Werte werden geladen… {loaded} / {total}",
+  noFilterMatches: "Kein Pokémon passt zu diesen Filtern",
+  noFavorites: "Noch keine Favoriten. Markiere ein Pokémon mit einem Stern, um es hier zu sehen.",
+  keepFavorites: "Favoriten beim Neuladen an ihrem Platz lassen",
+  favorite: "{name} als Favorit markieren",
+  compare: "+ Vergleichen",
+  comparing: "✓ Im Vergleich",
+  previousPage: "‹ Zurück",
+  nextPage: "Weiter ›",
+  pageRange: "#{first}–#{last} von {count}",
+  spriteUnavailable: "Pokémon-Sprite nicht verfügbar",
+  listLoadFailed: "Pokémon-Liste konnte nicht geladen werden",
+  listOffline: "Du bist offline und diese Liste ist noch nicht offline verfügbar",
+  detailsTitle: "Pokémon-Details",
+  loadingDetails: "Details werden geladen...",
+  detailsLoadFailed: "Pokémon-Details konnten nicht geladen werden",
+  selectPrompt: "👆 Wähle ein Pokémon aus der Liste, um Details zu sehen",
+  noSprite: "Kein Sprite",
+  addToTeam: "+ Zu {team} hinzufügen",
+  inTeam: "In {team}",
+  teamFull: "{team} ist voll",
+  description: "Beschreibung",
+  game: "Spiel",
+  sprites: "Sprites",
+  types: "Typen",
+  typeMatchups: "Typen-Effektivität",
+  abilities: "Fähigkeiten",
+  hidden: "(versteckt)",
+  loadingAbility: "Fähigkeit wird geladen...",
+  abilityLoadFailed: "Fähigkeit konnte nicht geladen werden",
+  alsoFoundOn: "Auch bei",
+  abilityDialog: "Fähigkeit {name}",
+  close: "Schließen",
+  physicalStats: "Körperliche Merkmale",
+  height: "Größe",
+  weight: "Gewicht",
+  unknown: "Unbekannt",
+  build: "Statur",
+  bodyMassIndex: "BMI {value}",
+  sizeAiry: "Federleicht",
+  sizeSlender: "Schlank",
+  sizeAverage: "Durchschnittlich",
+  sizeStocky: "Stämmig",
+  sizeHeavyset: "Massig",
+  evolution: "Entwicklung",
+  baseStats: "Basiswerte",
+  statTotal: "Gesamt",
+  statsChart: "Basiswerte-Diagramm von {name}",
+  percentileHint: "Höher als bei {value} % aller Pokémon",
+  rankStats: "📊 Mit allen Pokémon vergleichen",
+  rankingStats: "Vergleich mit allen Pokémon… {loaded} / {total}",
+  rankedAmong: "Perzentile unter {count} Pokémon",
+  statsIndexFailed: "Werte-Index konnte nicht erstellt werden",
+  statCalculator: "Statusrechner",
+  level: "Level",
+  nature: "Wesen",
+  stat: "Wert",
+  base: "Basis",
+  ivs: "DVs",
+  evs: "EVs",
+  result: "Ergebnis",
+  levelShort: "Lv. {level}",
+  evsUsed: "Verteilte EVs: {used} / {max}",
+  evYield: "EV-Ausbeute: {yield}",
+  none: "Keine",
+  levelOutOfRange: "Das Level muss zwischen {min} und {max} liegen",
+  ivsOutOfRange: "DVs für {stat} müssen zwischen 0 und {max} liegen",
+  evsOutOfRange: "EVs für {stat} müssen zwischen 0 und {max} liegen",
+  evTotalTooHigh: "EVs ergeben {total}, mehr als {max}",
+  moves: "Attacken",
+  comparisonLoadFailed: "Vergleich konnte nicht geladen werden",
+  teamLoadFailed: "Team konnte nicht geladen werden",
+  offlineDownloadFailed: "Pokédex konnte nicht heruntergeladen werden",
+  offlineNotReady: "Der Offline-Modus ist noch nicht bereit; lade die Seite neu und versuche es erneut",
+  filters: "Filter",
+  type: "Typ",
+  generation: "Generation",
+  anyGeneration: "Alle",
+  generationNumber: "Generation {number}",
+  statMin: "min",
+  statMax: "max",
+  statMinLabel: "{stat} min",
+  statMaxLabel: "{stat} max",
+  sortBy: "Sortieren nach",
+  sortOrder: "Sortierreihenfolge",
+  ascending: "Aufsteigend",
+  descending: "Absteigend",
+  reset: "Zurücksetzen",
+  apply: "Anwenden",
+  sortDexNumber: "Nationale Dex-Nr.",
+  sortName: "Name",
+  sortTotal: "Basiswerte-Summe",
+  statHp: "KP",
+  statAttack: "Angriff",
+  statDefense: "Verteidigung",
+  statSpecialAttack: "Sp.-Angriff",
+  statSpecialDefense: "Sp.-Verteidigung",
+  statSpeed: "Initiative",
+  searchLabel: "Pokémon nach Namen suchen",
+  searchPlaceholder: "{count} Pokémon durchsuchen...",
+  loadingSearchIndex: "Pokémon-Index wird geladen...",
+  noSearchResults: "Kein Pokémon gefunden",
+  move: "Attacke",
+  power: "Stärke",
+  accuracyShort: "Gen.",
+  pp: "AP",
+  versionGroup: "Editionsgruppe",
+  evolutionLevel: "Entw.",
+  showMoreMoves: "Weitere Attacken anzeigen (noch {count})",
+  learnLevelUp: "Levelaufstieg",
+  learnMachine: "TM/VM",
+  learnEgg: "Ei",
+  learnTutor: "Lehrer",
+  spriteSource: "Sprite-Quelle",
+  shiny: "Schillernd",
+  front: "Vorne",
+  back: "Hinten",
+  spriteAlt: "Sprite von {name}",
+  spriteFront: "Frontsprite von {name}",
+  spriteBack: "Rückensprite von {name}",
+  spriteShinyFront: "Schillernder Frontsprite von {name}",
+  spriteShinyBack: "Schillernder Rückensprite von {name}",
+  spriteOfficialArtwork: "Offizielles Artwork",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown (animiert)",
+  spriteDefault: "Standard",
+  spriteGame: "Gen. {generation}: {game}",
+  errorNetwork: "Netzwerkfehler",
+  errorTimeout: "Zeitüberschreitung der Anfrage",
+  errorNotFound: "Nicht gefunden",
+  errorServer: "Serverfehler",
+  errorMalformed: "Unerwartete Antwort",
+  errorLoadFailed: "Laden fehlgeschlagen",
+};
+
+const ja: Catalog = {
+  listTitle: "ポケモンリスト",
+  refresh: "更新",
+  retry: "再試行",
+  seed: "シード",
+  load: "読み込む",
+  listMode: "表示モード",
+  modeRandom: "ランダム",
+  modeBrowse: "図鑑順",
+  modeFilter: "絞り込み",
+  modeFavorites: "お気に入り",
+  loadingPokemon: "ポケモンを読み込み中...",
+  loadingStats: "能力値を読み込み中… {loaded} / {total}",
+  noFilterMatches: "条件に合うポケモンはいません",
+  noFavorites: "お気に入りはまだありません。ポケモンに星を付けるとここに表示されます。",
+  keepFavorites: "更新時にお気に入りを残す",
+  favorite: "{name}をお気に入りに追加",
+  compare: "+ 比較",
+  comparing: "✓ 比較中",
+  previousPage: "‹ 前へ",
+  nextPage: "次へ ›",
+  pageRange: "{count}匹中 No.{first}–No.{last}",
+  spriteUnavailable: "ポケモンの画像はありません",
+  listLoadFailed: "ポケモンリストを読み込めませんでした",
+  listOffline: "オフラインです。このリストはまだオフラインで利用できません",
+  detailsTitle: "ポケモンの詳細",
+  loadingDetails: "詳細を読み込み中...",
+  detailsLoadFailed: "ポケモンの詳細を読み込めませんでした",
+  selectPrompt: "👆 リストからポケモンを選ぶと詳細が表示されます",
+  noSprite: "画像なし",
+  addToTeam: "+ {team}に追加",
+  inTeam: "{team}に登録済み",
+  teamFull: "{team}は満員です",
+  description: "説明",
+  game: "ゲーム",
+  sprites: "画像",
+  types: "タイプ",
+  typeMatchups: "タイプ相性",
+  abilities: "特性",
+  hidden: "(隠れ特性)",
+  loadingAbility: "特性を読み込み中...",
+  abilityLoadFailed: "特性を読み込めませんでした",
+  alsoFoundOn: "この特性を持つポケモン",
+  abilityDialog: "特性 {name}",
+  close: "閉じる",
+  physicalStats: "体格",
+  height: "高さ",
+  weight: "重さ",
+  unknown: "不明",
+  build: "体型",
+  bodyMassIndex: "BMI {value}",
+  sizeAiry: "ふわふわ",
+  sizeSlender: "ほっそり",
+  sizeAverage: "ふつう",
+  sizeStocky: "がっしり",
+  sizeHeavyset: "どっしり",
+  evolution: "進化",
+  baseStats: "種族値",
+  statTotal: "合計",
+  statsChart: "{name}の種族値チャート",
+  percentileHint: "ポケモン全体の{value}%より高い",
+  rankStats: "📊 全ポケモンと比べる",
+  rankingStats: "全ポケモンと比較中… {loaded} / {total}",
+  rankedAmong: "{count}匹中のパーセンタイル",
+  statsIndexFailed: "能力値のインデックスを作成できませんでした",
+  statCalculator: "ステータス計算",
+  level: "レベル",
+  nature: "せいかく",
+  stat: "能力",
+  base: "種族値",
+  ivs: "個体値",
+  evs: "努力値",
+  result: "実数値",
+  levelShort: "Lv. {level}",
+  evsUsed: "使用した努力値: {used} / {max}",
+  evYield: "もらえる努力値: {yield}",
+  none: "なし",
+  levelOutOfRange: "レベルは{min}から{max}の間で指定してください",
+  ivsOutOfRange: "{stat}の個体値は0から{max}の間で指定してください",
+  evsOutOfRange: "{stat}の努力値は0から{max}の間で指定してください",
+  evTotalTooHigh: "努力値の合計が{total}で、{max}を超えています",
+  moves: "わざ",
+  comparisonLoadFailed: "比較を読み込めませんでした",
+  teamLoadFailed: "チームを読み込めませんでした",
+  offlineDownloadFailed: "図鑑をダウンロードできませんでした",
+  offlineNotReady: "オフラインモードの準備ができていません。ページを再読み込みしてもう一度お試しください",
+  filters: "フィルター",
+  type: "タイプ",
+  generation: "世代",
+  anyGeneration: "すべて",
+  generationNumber: "第{number}世代",
+  statMin: "最小",
+  statMax: "最大",
+  statMinLabel: "{stat} 最小",
+  statMaxLabel: "{stat} 最大",
+  sortBy: "並べ替え",
+  sortOrder: "並び順",
+  ascending: "昇順",
+  descending: "降順",
+  reset: "リセット",
+  apply: "適用",
+  sortDexNumber: "全国図鑑番号",
+  sortName: "名前",
+  sortTotal: "種族値合計",
+  statHp: "HP",
+  statAttack: "こうげき",
+  statDefense: "ぼうぎょ",
+  statSpecialAttack: "とくこう",
+  statSpecialDefense: "とくぼう",
+  statSpeed: "すばやさ",
+  searchLabel: "名前でポケモンを検索",
+  searchPlaceholder: "{count}匹のポケモンを検索...",
+  loadingSearchIndex: "ポケモンの索引を読み込み中...",
+  noSearchResults: "ポケモンが見つかりません",
+  move: "わざ",
+  power: "威力",
+  accuracyShort: "命中",
+  pp: "PP",
+  versionGroup: "バージョングループ",
+  evolutionLevel: "進化",
+  showMoreMoves: "さらにわざを表示（残り{count}）",
+  learnLevelUp: "レベルアップ",
+  learnMachine: "わざマシン",
+  learnEgg: "タマゴわざ",
+  learnTutor: "教えわざ",
+  spriteSource: "スプライトの種類",
+  shiny: "色違い",
+  front: "正面",
+  back: "背面",
+  spriteAlt: "{name}のスプライト",
+  spriteFront: "{name}の正面スプライト",
+  spriteBack: "{name}の背面スプライト",
+  spriteShinyFront: "{name}の色違いの正面スプライト",
+  spriteShinyBack: "{name}の色違いの背面スプライト",
+  spriteOfficialArtwork: "公式アートワーク",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown（アニメーション）",
+  spriteDefault: "デフォルト",
+  spriteGame: "第{generation}世代: {game}",
+  errorNetwork: "ネットワークエラー",
+  errorTimeout: "リクエストがタイムアウトしました",
+  errorNotFound: "見つかりません",
+  errorServer: "サーバーエラー",
+  errorMalformed: "予期しない応答です",
+  errorLoadFailed: "読み込みに失敗しました",
+};
+const it: Catalog = {
+  listTitle: "Elenco Pokémon",
+  refresh: "Aggiorna",
+  retry: "Riprova",
+  seed: "Seme",
+  load: "Carica",
+  listMode: "Modalità elenco",
+  modeRandom: "Casuale",
+  modeBrowse: "Sfoglia",
+  modeFilter: "Filtra",
+  modeFavorites: "Preferiti",
+  loadingPokemon: "Caricamento Pokémon...",
+  loadingStats: "Caricamento statistiche… {loaded} / {total}",
+  noFilterMatches: "Nessun Pokémon corrisponde a questi filtri",
+  noFavorites: "Ancora nessun preferito. Aggiungi una stella a un Pokémon per vederlo qui.",
+  keepFavorites: "Mantieni i preferiti al loro posto quando aggiorni",
+  favorite: "Aggiungi {name} ai preferiti",
+  compare: "+ Confronta",
+  comparing: "✓ In confronto",
+  previousPage: "‹ Precedente",
+  nextPage: "Successiva ›",
+  pageRange: "#{first}–#{last} di {count}",
+  spriteUnavailable: "Sprite del Pokémon non disponibile",
+  listLoadFailed: "Impossibile caricare l'elenco dei Pokémon",
+  listOffline: "Sei offline e questo elenco non è ancora disponibile offline",
+  detailsTitle: "Dettagli Pokémon",
+  loadingDetails: "Caricamento dettagli...",
+  detailsLoadFailed: "Impossibile caricare i dettagli del Pokémon",
+  selectPrompt: "👆 Seleziona un Pokémon dall'elenco per vederne i dettagli",
+  noSprite: "Nessuno sprite",
+  addToTeam: "+ Aggiungi a {team}",
+  inTeam: "In {team}",
+  teamFull: "{team} è al completo",
+  description: "Descrizione",
+  game: "Gioco",
+  sprites: "Sprite",
+  types: "Tipi",
+  typeMatchups: "Efficacia dei tipi",
+  abilities: "Abilità",
+  hidden: "(nascosta)",
+  loadingAbility: "Caricamento abilità...",
+  abilityLoadFailed: "Impossibile caricare l'abilità",
+  alsoFoundOn: "Anche in",
+  abilityDialog: "Abilità {name}",
+  close: "Chiudi",
+  physicalStats: "Dati fisici",
+  height: "Altezza",
+  weight: "Peso",
+  unknown: "Sconosciuto",
+  build: "Corporatura",
+  bodyMassIndex: "IMC {value}",
+  sizeAiry: "Eterea",
+  sizeSlender: "Snella",
+  sizeAverage: "Media",
+  sizeStocky: "Robusta",
+  sizeHeavyset: "Massiccia",
+  evolution: "Evoluzione",
+  baseStats: "Statistiche base",
+  statTotal: "Totale",
+  statsChart: "Grafico delle statistiche base di {name}",
+  percentileHint: "Superiore al {value}% dei Pokémon",
+  rankStats: "📊 Confronta con tutti i Pokémon",
+  rankingStats: "Confronto con tutti i Pokémon… {loaded} / {total}",
+  rankedAmong: "Percentili tra {count} Pokémon",
+  statsIndexFailed: "Impossibile creare l'indice delle statistiche",
+  statCalculator: "Calcolatore di statistiche",
+  level: "Livello",
+  nature: "Natura",
+  stat: "Statistica",
+  base: "Base",
+  ivs: "IV",
+  evs: "EV",
+  result: "Risultato",
+  levelShort: "Lv. {level}",
+  evsUsed: "EV usati: {used} / {max}",
+  evYield: "EV conferiti: {yield}",
+  none: "Nessuno",
+  levelOutOfRange: "Il livello deve essere compreso tra {min} e {max}",
+  ivsOutOfRange: "Gli IV di {stat} devono essere compresi tra 0 e {max}",
+  evsOutOfRange: "Gli EV di {stat} devono essere compresi tra 0 e {max}",
+  evTotalTooHigh: "Gli EV sommano {total}, più di {max}",
+  moves: "Mosse",
+  comparisonLoadFailed: "Impossibile caricare il confronto",
+  teamLoadFailed: "Impossibile caricare la squadra",
+  offlineDownloadFailed: "Impossibile scaricare il Pokédex",
+  offlineNotReady: "La modalità offline non è ancora pronta; ricarica la pagina e riprova",
+  filters: "Filtri",
+  type: "Tipo",
+  generation: "Generazione",
+  anyGeneration: "Qualsiasi",
+  generationNumber: "Generazione {number}",
+  statMin: "min",
+  statMax: "max",
+  statMinLabel: "{stat} min",
+  statMaxLabel: "{stat} max",
+  sortBy: "Ordina per",
+  sortOrder: "Ordine",
+  ascending: "Crescente",
+  descending: "Decrescente",
+  reset: "Reimposta",
+  apply: "Applica",
+  sortDexNumber: "N. Pokédex Nazionale",
+  sortName: "Nome",
+  sortTotal: "Totale statistiche base",
+  statHp: "PS",
+  statAttack: "Attacco",
+  statDefense: "Difesa",
+  statSpecialAttack: "Att. Sp.",
+  statSpecialDefense: "Dif. Sp.",
+  statSpeed: "Velocità",
+  searchLabel: "Cerca Pokémon per nome",
+  searchPlaceholder: "Cerca tra {count} Pokémon...",
+  loadingSearchIndex: "Caricamento dell'indice dei Pokémon...",
+  noSearchResults: "Nessun Pokémon trovato",
+  move: "Mossa",
+  power: "Potenza",
+  accuracyShort: "Prec.",
+  pp: "PP",
+  versionGroup: "Gruppo di versioni",
+  evolutionLevel: "Evo",
+  showMoreMoves: "Mostra altre mosse ({count} rimanenti)",
+  learnLevelUp: "Aumento di livello",
+  learnMachine: "MT/MN",
+  learnEgg: "Uovo",
+  learnTutor: "Insegnamosse",
+  spriteSource: "Origine dello sprite",
+  shiny: "Cromatico",
+  front: "Fronte",
+  back: "Retro",
+  spriteAlt: "Sprite di {name}",
+  spriteFront: "Sprite frontale di {name}",
+  spriteBack: "Sprite posteriore di {name}",
+  spriteShinyFront: "Sprite frontale cromatico di {name}",
+  spriteShinyBack: "Sprite posteriore cromatico di {name}",
+  spriteOfficialArtwork: "Illustrazione ufficiale",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown (animato)",
+  spriteDefault: "Predefinito",
+  spriteGame: "Gen. {generation}: {game}",
+  errorNetwork: "Errore di rete",
+  errorTimeout: "Richiesta scaduta",
+  errorNotFound: "Non trovato",
+  errorServer: "Errore del server",
+  errorMalformed: "Risposta inattesa",
+  errorLoadFailed: "Caricamento non riuscito",
+};
+
+const ko: Catalog = {
+  listTitle: "포켓몬 목록",
+  refresh: "새로고침",
+  retry: "다시 시도",
+  seed: "시드",
+  load: "불러오기",
+  listMode: "목록 모드",
+  modeRandom: "무작위",
+  modeBrowse: "도감순",
+  modeFilter: "필터",
+  modeFavorites: "즐겨찾기",
+  loadingPokemon: "포켓몬을 불러오는 중...",
+  loadingStats: "능력치를 불러오는 중… {loaded} / {total}",
+  noFilterMatches: "조건에 맞는 포켓몬이 없습니다",
+  noFavorites: "아직 즐겨찾기가 없습니다. 포켓몬에 별표를 하면 여기에 표시됩니다.",
+  keepFavorites: "새로고침할 때 즐겨찾기 유지",
+  favorite: "{name} 즐겨찾기",
+  compare: "+ 비교",
+  comparing: "✓ 비교 중",
+  previousPage: "‹ 이전",
+  nextPage: "다음 ›",
+  pageRange: "{count}마리 중 No.{first}–No.{last}",
+  spriteUnavailable: "포켓몬 이미지를 사용할 수 없습니다",
+  listLoadFailed: "포켓몬 목록을 불러오지 못했습니다",
+  listOffline: "오프라인 상태이며 이 목록은 아직 오프라인에서 사용할 수 없습니다",
+  detailsTitle: "포켓몬 상세 정보",
+  loadingDetails: "상세 정보를 불러오는 중...",
+  detailsLoadFailed: "포켓몬 상세 정보를 불러오지 못했습니다",
+  selectPrompt: "👆 목록에서 포켓몬을 선택하면 상세 정보가 표시됩니다",
+  noSprite: "이미지 없음",
+  addToTeam: "+ {team}에 추가",
+  inTeam: "{team}에 있음",
+  teamFull: "{team}이(가) 가득 찼습니다",
+  description: "설명",
+  game: "게임",
+  sprites: "이미지",
+  types: "타입",
+  typeMatchups: "타입 상성",
+  abilities: "특성",
+  hidden: "(숨겨진 특성)",
+  loadingAbility: "특성을 불러오는 중...",
+  abilityLoadFailed: "특성을 불러오지 못했습니다",
+  alsoFoundOn: "이 특성을 가진 포켓몬",
+  abilityDialog: "특성 {name}",
+  close: "닫기",
+  physicalStats: "신체 정보",
+  height: "키",
+  weight: "몸무게",
+  unknown: "알 수 없음",
+  build: "체형",
+  bodyMassIndex: "BMI {value}",
+  sizeAiry: "가벼움",
+  sizeSlender: "날씬함",
+  sizeAverage: "보통",
+  sizeStocky: "다부짐",
+  sizeHeavyset: "묵직함",
+  evolution: "진화",
+  baseStats: "종족값",
+  statTotal: "합계",
+  statsChart: "{name}의 종족값 차트",
+  percentileHint: "전체 포켓몬의 {value}%보다 높음",
+  rankStats: "📊 모든 포켓몬과 비교",
+  rankingStats: "모든 포켓몬과 비교 중… {loaded} / {total}",
+  rankedAmong: "{count}마리 중 백분위",
+  statsIndexFailed: "능력치 색인을 만들지 못했습니다",
+  statCalculator: "능력치 계산기",
+  level: "레벨",
+  nature: "성격",
+  stat: "능력치",
+  base: "종족값",
+  ivs: "개체값",
+  evs: "노력치",
+  result: "실수치",
+  levelShort: "Lv. {level}",
+  evsUsed: "사용한 노력치: {used} / {max}",
+  evYield: "얻는 노력치: {yield}",
+  none: "없음",
+  levelOutOfRange: "레벨은 {min}에서 {max} 사이여야 합니다",
+  ivsOutOfRange: "{stat}의 개체값은 0에서 {max} 사이여야 합니다",
+  evsOutOfRange: "{stat}의 노력치는 0에서 {max} 사이여야 합니다",
+  evTotalTooHigh: "노력치 합계가 {total}(으)로 {max}을(를) 넘습니다",
+  moves: "기술",
+  comparisonLoadFailed: "비교를 불러오지 못했습니다",
+  teamLoadFailed: "팀을 불러오지 못했습니다",
+  offlineDownloadFailed: "도감을 다운로드하지 못했습니다",
+  offlineNotReady: "오프라인 모드가 아직 준비되지 않았습니다. 페이지를 새로고침한 후 다시 시도하세요",
+  filters: "필터",
+  type: "타입",
+  generation: "세대",
+  anyGeneration: "전체",
+  generationNumber: "{number}세대",
+  statMin: "최소",
+  statMax: "최대",
+  statMinLabel: "{stat} 최소",
+  statMaxLabel: "{stat} 최대",
+  sortBy: "정렬 기준",
+  sortOrder: "정렬 순서",
+  ascending: "오름차순",
+  descending: "내림차순",
+  reset: "초기화",
+  apply: "적용",
+  sortDexNumber: "전국도감 번호",
+  sortName: "이름",
+  sortTotal: "종족값 합계",
+  statHp: "HP",
+  statAttack: "공격",
+  statDefense: "방어",
+  statSpecialAttack: "특수공격",
+  statSpecialDefense: "특수방어",
+  statSpeed: "스피드",
+  searchLabel: "이름으로 포켓몬 검색",
+  searchPlaceholder: "포켓몬 {count}마리 검색...",
+  loadingSearchIndex: "포켓몬 색인을 불러오는 중...",
+  noSearchResults: "포켓몬을 찾을 수 없습니다",
+  move: "기술",
+  power: "위력",
+  accuracyShort: "명중",
+  pp: "PP",
+  versionGroup: "버전 그룹",
+  evolutionLevel: "진화",
+  showMoreMoves: "기술 더 보기 ({count}개 남음)",
+  learnLevelUp: "레벨업",
+  learnMachine: "기술머신",
+  learnEgg: "알 기술",
+  learnTutor: "기술 가르침",
+  spriteSource: "스프라이트 출처",
+  shiny: "이로치",
+  front: "앞모습",
+  back: "뒷모습",
+  spriteAlt: "{name} 스프라이트",
+  spriteFront: "{name} 앞모습 스프라이트",
+  spriteBack: "{name} 뒷모습 스프라이트",
+  spriteShinyFront: "{name} 이로치 앞모습 스프라이트",
+  spriteShinyBack: "{name} 이로치 뒷모습 스프라이트",
+  spriteOfficialArtwork: "공식 아트워크",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown (애니메이션)",
+  spriteDefault: "기본",
+  spriteGame: "{generation}세대: {game}",
+  errorNetwork: "네트워크 오류",
+  errorTimeout: "요청 시간이 초과되었습니다",
+  errorNotFound: "찾을 수 없음",
+  errorServer: "서버 오류",
+  errorMalformed: "예기치 않은 응답",
+  errorLoadFailed: "불러오지 못했습니다",
+};
+
+const zhHans: Catalog = {
+  listTitle: "宝可梦列表",
+  refresh: "刷新",
+  retry: "重试",
+  seed: "种子",
+  load: "加载",
+  listMode: "列表模式",
+  modeRandom: "随机",
+  modeBrowse: "浏览",
+  modeFilter: "筛选",
+  modeFavorites: "收藏",
+  loadingPokemon: "正在加载宝可梦...",
+  loadingStats: "正在加载能力值… {loaded} / {total}",
+  noFilterMatches: "没有符合这些条件的宝可梦",
+  noFavorites: "还没有收藏。为宝可梦加星标即可在此显示。",
+  keepFavorites: "刷新时保留收藏的位置",
+  favorite: "收藏{name}",
+  compare: "+ 对比",
+  comparing: "✓ 对比中",
+  previousPage: "‹ 上一页",
+  nextPage: "下一页 ›",
+  pageRange: "共 {count} 只中的 #{first}–#{last}",
+  spriteUnavailable: "宝可梦图像不可用",
+  listLoadFailed: "无法加载宝可梦列表",
+  listOffline: "你已离线，此列表尚不可离线使用",
+  detailsTitle: "宝可梦详情",
+  loadingDetails: "正在加载详情...",
+  detailsLoadFailed: "无法加载宝可梦详情",
+  selectPrompt: "👆 从列表中选择一只宝可梦以查看详情",
+  noSprite: "无图像",
+  addToTeam: "+ 加入{team}",
+  inTeam: "已在{team}中",
+  teamFull: "{team}已满",
+  description: "说明",
+  game: "游戏",
+  sprites: "图像",
+  types: "属性",
+  typeMatchups: "属性相克",
+  abilities: "特性",
+  hidden: "(隐藏特性)",
+  loadingAbility: "正在加载特性...",
+  abilityLoadFailed: "无法加载特性",
+  alsoFoundOn: "拥有此特性的宝可梦",
+  abilityDialog: "特性 {name}",
+  close: "关闭",
+  physicalStats: "身体数据",
+  height: "身高",
+  weight: "体重",
+  unknown: "未知",
+  build: "体型",
+  bodyMassIndex: "BMI {value}",
+  sizeAiry: "轻盈",
+  sizeSlender: "纤细",
+  sizeAverage: "普通",
+  sizeStocky: "结实",
+  sizeHeavyset: "厚重",
+  evolution: "进化",
+  baseStats: "种族值",
+  statTotal: "总计",
+  statsChart: "{name}的种族值图表",
+  percentileHint: "高于 {value}% 的宝可梦",
+  rankStats: "📊 与所有宝可梦比较",
+  rankingStats: "正在与所有宝可梦比较… {loaded} / {total}",
+  rankedAmong: "在 {count} 只宝可梦中的百分位",
+  statsIndexFailed: "无法建立能力值索引",
+  statCalculator: "能力值计算器",
+  level: "等级",
+  nature: "性格",
+  stat: "能力",
+  base: "种族值",
+  ivs: "个体值",
+  evs: "努力值",
+  result: "能力值",
+  levelShort: "Lv. {level}",
+  evsUsed: "已用努力值：{used} / {max}",
+  evYield: "获得努力值：{yield}",
+  none: "无",
+  levelOutOfRange: "等级必须在 {min} 到 {max} 之间",
+  ivsOutOfRange: "{stat} 的个体值必须在 0 到 {max} 之间",
+  evsOutOfRange: "{stat} 的努力值必须在 0 到 {max} 之间",
+  evTotalTooHigh: "努力值总计 {total}，超过 {max}",
+  moves: "招式",
+  comparisonLoadFailed: "无法加载对比",
+  teamLoadFailed: "无法加载队伍",
+  offlineDownloadFailed: "无法下载图鉴",
+  offlineNotReady: "离线模式尚未就绪，请刷新页面后重试",
+  filters: "筛选",
+  type: "属性",
+  generation: "世代",
+  anyGeneration: "全部",
+  generationNumber: "第{number}世代",
+  statMin: "最小",
+  statMax: "最大",
+  statMinLabel: "{stat}最小",
+  statMaxLabel: "{stat}最大",
+  sortBy: "排序方式",
+  sortOrder: "排序顺序",
+  ascending: "升序",
+  descending: "降序",
+  reset: "重置",
+  apply: "应用",
+  sortDexNumber: "全国图鉴编号",
+  sortName: "名称",
+  sortTotal: "种族值总和",
+  statHp: "HP",
+  statAttack: "攻击",
+  statDefense: "防御",
+  statSpecialAttack: "特攻",
+  statSpecialDefense: "特防",
+  statSpeed: "速度",
+  searchLabel: "按名称搜索宝可梦",
+  searchPlaceholder: "在 {count} 只宝可梦中搜索...",
+  loadingSearchIndex: "正在加载宝可梦索引...",
+  noSearchResults: "未找到宝可梦",
+  move: "招式",
+  power: "威力",
+  accuracyShort: "命中",
+  pp: "PP",
+  versionGroup: "版本组",
+  evolutionLevel: "进化",
+  showMoreMoves: "显示更多招式（剩余 {count} 个）",
+  learnLevelUp: "升级",
+  learnMachine: "招式学习器",
+  learnEgg: "蛋招式",
+  learnTutor: "招式教学",
+  spriteSource: "图像来源",
+  shiny: "异色",
+  front: "正面",
+  back: "背面",
+  spriteAlt: "{name}的图像",
+  spriteFront: "{name}的正面图像",
+  spriteBack: "{name}的背面图像",
+  spriteShinyFront: "{name}的异色正面图像",
+  spriteShinyBack: "{name}的异色背面图像",
+  spriteOfficialArtwork: "官方插画",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown（动画）",
+  spriteDefault: "默认",
+  spriteGame: "第{generation}世代：{game}",
+  errorNetwork: "网络错误",
+  errorTimeout: "请求超时",
+  errorNotFound: "未找到",
+  errorServer: "服务器错误",
+  errorMalformed: "意外的响应",
+  errorLoadFailed: "加载失败",
+};
+
+const zhHant: Catalog = {
+  listTitle: "寶可夢列表",
+  refresh: "重新整理",
+  retry: "重試",
+  seed: "種子",
+  load: "載入",
+  listMode: "列表模式",
+  modeRandom: "隨機",
+  modeBrowse: "瀏覽",
+  modeFilter: "篩選",
+  modeFavorites: "收藏",
+  loadingPokemon: "正在載入寶可夢...",
+  loadingStats: "正在載入能力值… {loaded} / {total}",
+  noFilterMatches: "沒有符合這些條件的寶可夢",
+  noFavorites: "還沒有收藏。為寶可夢加上星號即可在此顯示。",
+  keepFavorites: "重新整理時保留收藏的位置",
+  favorite: "收藏{name}",
+  compare: "+ 比較",
+  comparing: "✓ 比較中",
+  previousPage: "‹ 上一頁",
+  nextPage: "下一頁 ›",
+  pageRange: "共 {count} 隻中的 #{first}–#{last}",
+  spriteUnavailable: "無法顯示寶可夢圖像",
+  listLoadFailed: "無法載入寶可夢列表",
+  listOffline: "你已離線，此列表尚無法離線使用",
+  detailsTitle: "寶可夢詳細資料",
+  loadingDetails: "正在載入詳細資料...",
+  detailsLoadFailed: "無法載入寶可夢詳細資料",
+  selectPrompt: "👆 從列表中選擇一隻寶可夢以查看詳細資料",
+  noSprite: "無圖像",
+  addToTeam: "+ 加入{team}",
+  inTeam: "已在{team}中",
+  teamFull: "{team}已滿",
+  description: "說明",
+  game: "遊戲",
+  sprites: "圖像",
+  types: "屬性",
+  typeMatchups: "屬性相剋",
+  abilities: "特性",
+  hidden: "(隱藏特性)",
+  loadingAbility: "正在載入特性...",
+  abilityLoadFailed: "無法載入特性",
+  alsoFoundOn: "擁有此特性的寶可夢",
+  abilityDialog: "特性 {name}",
+  close: "關閉",
+  physicalStats: "身體資料",
+  height: "身高",
+  weight: "體重",
+  unknown: "未知",
+  build: "體型",
+  bodyMassIndex: "BMI {value}",
+  sizeAiry: "輕盈",
+  sizeSlender: "纖細",
+  sizeAverage: "普通",
+  sizeStocky: "結實",
+  sizeHeavyset: "厚重",
+  evolution: "進化",
+  baseStats: "種族值",
+  statTotal: "總計",
+  statsChart: "{name}的種族值圖表",
+  percentileHint: "高於 {value}% 的寶可夢",
+  rankStats: "📊 與所有寶可夢比較",
+  rankingStats: "正在與所有寶可夢比較… {loaded} / {total}",
+  rankedAmong: "在 {count} 隻寶可夢中的百分位",
+  statsIndexFailed: "無法建立能力值索引",
+  statCalculator: "能力值計算機",
+  level: "等級",
+  nature: "性格",
+  stat: "能力",
+  base: "種族值",
+  ivs: "個體值",
+  evs: "努力值",
+  result: "能力值",
+  levelShort: "Lv. {level}",
+  evsUsed: "已用努力值：{used} / {max}",
+  evYield: "獲得努力值：{yield}",
+  none: "無",
+  levelOutOfRange: "等級必須在 {min} 到 {max} 之間",
+  ivsOutOfRange: "{stat} 的個體值必須在 0 到 {max} 之間",
+  evsOutOfRange: "{stat} 的努力值必須在 0 到 {max} 之間",
+  evTotalTooHigh: "努力值總計 {total}，超過 {max}",
+  moves: "招式",
+  comparisonLoadFailed: "無法載入比較",
+  teamLoadFailed: "無法載入隊伍",
+  offlineDownloadFailed: "無法下載圖鑑",
+  offlineNotReady: "離線模式尚未就緒，請重新整理頁面後再試",
+  filters: "篩選",
+  type: "屬性",
+  generation: "世代",
+  anyGeneration: "全部",
+  generationNumber: "第{number}世代",
+  statMin: "最小",
+  statMax: "最大",
+  statMinLabel: "{stat}最小",
+  statMaxLabel: "{stat}最大",
+  sortBy: "排序方式",
+  sortOrder: "排序順序",
+  ascending: "升冪",
+  descending: "降冪",
+  reset: "重設",
+  apply: "套用",
+  sortDexNumber: "全國圖鑑編號",
+  sortName: "名稱",
+  sortTotal: "種族值總和",
+  statHp: "HP",
+  statAttack: "攻擊",
+  statDefense: "防禦",
+  statSpecialAttack: "特攻",
+  statSpecialDefense: "特防",
+  statSpeed: "速度",
+  searchLabel: "依名稱搜尋寶可夢",
+  searchPlaceholder: "在 {count} 隻寶可夢中搜尋...",
+  loadingSearchIndex: "正在載入寶可夢索引...",
+  noSearchResults: "找不到寶可夢",
+  move: "招式",
+  power: "威力",
+  accuracyShort: "命中",
+  pp: "PP",
+  versionGroup: "版本組",
+  evolutionLevel: "進化",
+  showMoreMoves: "顯示更多招式（剩餘 {count} 個）",
+  learnLevelUp: "升級",
+  learnMachine: "招式學習器",
+  learnEgg: "蛋招式",
+  learnTutor: "招式教學",
+  spriteSource: "圖像來源",
+  shiny: "異色",
+  front: "正面",
+  back: "背面",
+  spriteAlt: "{name}的圖像",
+  spriteFront: "{name}的正面圖像",
+  spriteBack: "{name}的背面圖像",
+  spriteShinyFront: "{name}的異色正面圖像",
+  spriteShinyBack: "{name}的異色背面圖像",
+  spriteOfficialArtwork: "官方插畫",
+  spriteHome: "HOME",
+  spriteShowdown: "Showdown（動畫）",
+  spriteDefault: "預設",
+  spriteGame: "第{generation}世代：{game}",
+  errorNetwork: "網路錯誤",
+  errorTimeout: "請求逾時",
+  errorNotFound: "找不到",
+  errorServer: "伺服器錯誤",
+  errorMalformed: "非預期的回應",
+  errorLoadFailed: "載入失敗",
+};
+
+const CATALOGS: Record<string, Catalog> = { en, es, fr, de, it, ja, ko, "zh-Hans": zhHans, "zh-Hant": zhHant };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * Returns the translation function for a language
+ */
+export function getTranslator(language: string = DEFAULT_LANGUAGE): Translate {
+  const catalog = CATALOGS[language] ?? en;
+  return (key, params = {}) => (catalog[key] ?? en[key]).replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
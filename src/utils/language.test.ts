@@ -0,0 +1,44 @@
+/**
+ * Unit tests for language selection and translations
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { cleanFlavorText, LANGUAGE_STORAGE_KEY, LANGUAGES, loadLanguage, saveLanguage, selectFlavorText } from "./language";
+import { getTranslator } from "./i18n";
+import type { FlavorText } from "../types/pokemon";
+
+const flavorTexts: FlavorText[] = [
+  { text: "A red entry", language: "en", version: "red" },
+  { text: "A gold entry", language: "en", version: "gold" },
+  { text: "Une entrée", language: "fr", version: "x" },
+];
+
+describe("Language", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should pick the entry for the language and game, falling back to English and the latest game", () => {
+    expect(selectFlavorText(flavorTexts, "fr")?.text).toBe("Une entrée");
+    expect(selectFlavorText(flavorTexts, "en", "red")?.text).toBe("A red entry");
+    expect(selectFlavorText(flavorTexts, "en", "ruby")?.text).toBe("A gold entry");
+    expect(selectFlavorText(flavorTexts, "ja")?.text).toBe("A gold entry");
+    expect(selectFlavorText([], "en")).toBeUndefined();
+    expect(cleanFlavorText("Line one\fline\ntwo  words")).toBe("Line one line two words");
+  });
+
+  it("should persist the language and translate UI strings with an English fallback", () => {
+    saveLanguage("de");
+    expect(loadLanguage()).toBe("de");
+    window.localStorage.setItem(LANGUAGE_STORAGE_KEY, "klingon");
+    expect(loadLanguage()).toBe("en");
+
+    expect(getTranslator("fr")("refresh")).toBe("Actualiser");
+    expect(getTranslator("ko")("refresh")).toBe("새로고침");
+    expect(getTranslator("klingon")("refresh")).toBe("Refresh");
+    for (const { code } of LANGUAGES.filter((language) => language.code !== "en")) {
+      expect(getTranslator(code)("listLoadFailed")).not.toBe("Failed to load Pokemon list");
+    }
+    expect(getTranslator("es")("pageRange", { first: 1, last: 20, count: 1025 })).toBe("#1–#20 de 1025");
+  });
+});
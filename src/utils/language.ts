@@ -0,0 +1,78 @@
+/**
+ * Languages
+ *
+ * PokeAPI text (flavor text, effects, names) comes as one entry per language.
+ * Entries are picked by language name, e.g. "en" or "ja-Hrkt". The chosen
+ * language is kept in localStorage; UI strings are translated in i18n.ts.
+ */
+
+import type { FlavorText, NamedAPIResource } from "../types/pokemon";
+
+export const DEFAULT_LANGUAGE = "en";
+
+export const LANGUAGE_STORAGE_KEY = "pokemon-language";
+
+/**
+ * Languages offered in the selector, by PokeAPI language name, with their own name for themselves
+ */
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Español" },
+  { code: "fr", label: "Français" },
+  { code: "de", label: "Deutsch" },
+  { code: "it", label: "Italiano" },
+  { code: "ja", label: "日本語" },
+  { code: "ko", label: "한국어" },
+  { code: "zh-Hans", label: "简体中文" },
+  { code: "zh-Hant", label: "繁體中文" },
+];
+
+/**
+ * The entry in `language`, falling back to English and then to the first entry
+ */
+export function findLocalized<T extends { language: NamedAPIResource }>(entries: T[], language: string = DEFAULT_LANGUAGE): T | undefined {
+  return entries.find((entry) => entry.language.name === language) ?? entries.find((entry) => entry.language.name === DEFAULT_LANGUAGE) ?? entries[0];
+}
+
+/**
+ * Flavor text is laid out for the games' text boxes; joins its lines into plain text
+ */
+export function cleanFlavorText(text: string): string {
+  return text.replace(/[\f\n\r]+/g, " ").replace(/\s{2,}/g, " ");
+}
+
+/**
+ * Pokedex entries to read in `language`; English ones if the species has none in it
+ */
+export function getFlavorTexts(flavorTexts: FlavorText[], language: string): FlavorText[] {
+  const localized = flavorTexts.filter((entry) => entry.language === language);
+  return localized.length ? localized : flavorTexts.filter((entry) => entry.language === DEFAULT_LANGUAGE);
+}
+
+/**
+ * The entry from `version`, or the latest game's when that game has none
+ */
+export function selectFlavorText(flavorTexts: FlavorText[], language: string, version?: string): FlavorText | undefined {
+  const entries = getFlavorTexts(flavorTexts, language);
+  return entries.find((entry) => entry.version === version) ?? entries[entries.length - 1];
+}
+
+/**
+ * Reads the saved language; anything missing or unknown yields the default
+ */
+export function loadLanguage(storage: Storage = window.localStorage): string {
+  try {
+    const saved = storage.getItem(LANGUAGE_STORAGE_KEY);
+    return LANGUAGES.some((language) => language.code === saved) ? (saved as string) : DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+}
+
+export function saveLanguage(language: string, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(LANGUAGE_STORAGE_KEY, language);
+  } catch (err) {
+    console.error("Failed to save language:", err);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for learnsets
+ */
+
+import { describe, it, expect } from "vitest";
+import { getLearnset, getVersionGroups, sortLearnset } from "./moves";
+import type { MoveData, PokemonMove } from "../types/pokemon";
+
+const BASE = "https://pokeapi.co/api/v2";
+
+const versionGroup = (name: string, id: number) => ({ name, url: `${BASE}/version-group/${id}/` });
+
+const learned = (name: string, details: [method: string, level: number, group: ReturnType<typeof versionGroup>][]): PokemonMove => ({
+  move: { name, url: `${BASE}/move/${name}/` },
+  version_group_details: details.map(([method, level, group]) => ({ level_learned_at: level, move_learn_method: { name: method, url: "" }, version_group: group })),
+});
+
+const redBlue = versionGroup("red-blue", 1);
+const scarletViolet = versionGroup("scarlet-violet", 25);
+
+const moves = [
+  learned("thunder-shock", [["level-up", 1, redBlue], ["level-up", 1, scarletViolet]]),
+  learned("thunderbolt", [["machine", 0, redBlue], ["machine", 0, scarletViolet]]),
+  learned("volt-tackle", [["egg", 0, scarletViolet]]),
+  learned("thunder", [["level-up", 43, redBlue], ["level-up", 44, scarletViolet], ["machine", 0, scarletViolet]]),
+  learned("growl", [["level-up", 1, redBlue], ["level-up", 0, scarletViolet]]),
+];
+
+const move = (name: string, type: string, power: number | null): MoveData => ({ id: 1, name, type: { name: type, url: "" }, power, accuracy: 100, pp: 10, damage_class: null });
+
+describe("Learnsets", () => {
+  it("should list version groups oldest first", () => {
+    expect(getVersionGroups([moves[2], moves[0]]).map((group) => group.name)).toEqual(["red-blue", "scarlet-violet"]);
+  });
+
+  it("should group a version group's moves by learn method", () => {
+    const learnset = getLearnset(moves, "scarlet-violet");
+
+    expect(learnset.map((group) => group.method)).toEqual(["level-up", "machine", "egg"]);
+    expect(learnset[0].moves.map((entry) => [entry.move.name, entry.level])).toEqual([
+      ["thunder-shock", 1],
+      ["thunder", 44],
+      ["growl", 0],
+    ]);
+    expect(learnset[1].moves.map((entry) => entry.move.name)).toEqual(["thunderbolt", "thunder"]);
+    expect(getLearnset(moves, "red-blue").map((group) => group.method)).toEqual(["level-up", "machine"]);
+  });
+
+  it("should sort by a column with unloaded and missing values last", () => {
+    const [levelUp] = getLearnset(moves, "scarlet-violet");
+    const details = { thunder: move("thunder", "electric", 110), growl: move("growl", "normal", null) };
+
+    expect(sortLearnset(levelUp.moves, "level", "asc", details).map((entry) => entry.move.name)).toEqual(["growl", "thunder-shock", "thunder"]);
+    expect(sortLearnset(levelUp.moves, "power", "desc", details).map((entry) => entry.move.name)).toEqual(["thunder", "growl", "thunder-shock"]);
+    expect(sortLearnset(levelUp.moves, "power", "asc", details).map((entry) => entry.move.name)).toEqual(["thunder", "growl", "thunder-shock"]);
+  });
+});
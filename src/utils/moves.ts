@@ -0,0 +1,90 @@
+/**
+ * Learnsets
+ *
+ * Groups a Pokemon's `moves` by learn method for one version group, and sorts the
+ * rows by a column. Power, accuracy, PP and type come from `/move/{id}`, which is
+ * only fetched for the rows on screen, so those columns can be missing for a while.
+ */
+
+import { getResourceIdFromUrl } from "./pokemonFilters";
+import { formatResourceName } from "./evolution";
+import type { MoveData, NamedAPIResource, PokemonMove } from "../types/pokemon";
+import type { SortOrder } from "./pokemonFilters";
+import type { MessageKey, Translate } from "./i18n";
+
+/**
+ * Learn methods in display order; rarer methods (e.g. "stadium-surfing-pikachu") follow these
+ */
+export const LEARN_METHODS = ["level-up", "machine", "egg", "tutor"];
+
+const LEARN_METHOD_LABELS: Record<string, MessageKey> = { "level-up": "learnLevelUp", machine: "learnMachine", egg: "learnEgg", tutor: "learnTutor" };
+
+export const getLearnMethodLabel = (method: string, t: Translate) => (method in LEARN_METHOD_LABELS ? t(LEARN_METHOD_LABELS[method]) : formatResourceName(method));
+
+export type MoveSortKey = "level" | "name" | "type" | "power" | "accuracy" | "pp";
+
+export interface LearnsetEntry {
+  move: NamedAPIResource;
+  /** 0 unless learned by level-up */
+  level: number;
+}
+
+export interface LearnsetGroup {
+  method: string;
+  moves: LearnsetEntry[];
+}
+
+/**
+ * Version groups the Pokemon learns moves in, oldest first
+ */
+export function getVersionGroups(moves: PokemonMove[]): NamedAPIResource[] {
+  const groups = new Map<string, NamedAPIResource>();
+  for (const { version_group_details } of moves) {
+    for (const { version_group } of version_group_details) groups.set(version_group.name, version_group);
+  }
+  const id = (group: NamedAPIResource) => getResourceIdFromUrl(group.url) ?? Number.MAX_SAFE_INTEGER;
+  return [...groups.values()].sort((a, b) => id(a) - id(b));
+}
+
+/**
+ * The moves learned in `versionGroup`, grouped by learn method
+ * A move learned at several levels (or by several methods) gets one row for each.
+ */
+export function getLearnset(moves: PokemonMove[], versionGroup: string): LearnsetGroup[] {
+  const groups = new Map<string, LearnsetEntry[]>();
+  for (const { move, version_group_details } of moves) {
+    for (const detail of version_group_details) {
+      if (detail.version_group.name !== versionGroup) continue;
+      const method = detail.move_learn_method.name;
+      groups.set(method, [...(groups.get(method) ?? []), { move, level: detail.level_learned_at }]);
+    }
+  }
+
+  const rank = (method: string) => (LEARN_METHODS.includes(method) ? LEARN_METHODS.indexOf(method) : LEARN_METHODS.length);
+  return [...groups.entries()].sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b)).map(([method, entries]) => ({ method, moves: entries }));
+}
+
+/**
+ * Sorts learnset rows by a column
+ * Rows whose move details aren't loaded yet, or that have no value (e.g. a status move's
+ * power), go last in either order; ties fall back to level, then name.
+ */
+export function sortLearnset(entries: LearnsetEntry[], sort: MoveSortKey, order: SortOrder, details: Record<string, MoveData>): LearnsetEntry[] {
+  const value = (entry: LearnsetEntry): number | string | null => {
+    if (sort === "level") return entry.level;
+    if (sort === "name") return entry.move.name;
+    const move = details[entry.move.name];
+    if (!move) return null;
+    return sort === "type" ? move.type.name : move[sort];
+  };
+  const tieBreak = (a: LearnsetEntry, b: LearnsetEntry) => a.level - b.level || a.move.name.localeCompare(b.move.name);
+
+  return [...entries].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === null || right === null) return left === right ? tieBreak(a, b) : left === null ? 1 : -1;
+
+    const compared = typeof left === "number" && typeof right === "number" ? left - right : String(left).localeCompare(String(right));
+    return (order === "asc" ? compared : -compared) || tieBreak(a, b);
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for offline support
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { isOfflineReady, loadOfflineDownload, OFFLINE_DOWNLOAD_STORAGE_KEY, onOfflineReadyChange, saveOfflineDownload, updateStaleData } from "./offline";
+
+const notice = (stale: boolean, cachedAt: number | null = null) => ({ url: "https://pokeapi.co/api/v2/pokemon/25/", stale, cachedAt });
+
+describe("Offline", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    delete (navigator as any).serviceWorker;
+  });
+
+  it("should flag stale data with its oldest cache time until a fresh response arrives", () => {
+    let staleData = updateStaleData(null, notice(true, 2000));
+    staleData = updateStaleData(staleData, notice(true, 1000));
+    staleData = updateStaleData(staleData, notice(true, null));
+    expect(staleData).toEqual({ cachedAt: 1000 });
+
+    expect(updateStaleData(staleData, notice(false))).toBeNull();
+    expect(updateStaleData(null, notice(false))).toBeNull();
+  });
+
+  it("should persist the last download", () => {
+    saveOfflineDownload({ downloaded: 1025, failed: 2, downloadedAt: 1000 });
+    expect(loadOfflineDownload()).toEqual({ downloaded: 1025, failed: 2, downloadedAt: 1000 });
+
+    window.localStorage.setItem(OFFLINE_DOWNLOAD_STORAGE_KEY, JSON.stringify({ downloaded: "all" }));
+    expect(loadOfflineDownload()).toBeNull();
+  });
+
+  it("should only be ready once a service worker controls the page", () => {
+    expect(isOfflineReady()).toBe(false);
+
+    const serviceWorker = Object.assign(new EventTarget(), { controller: null as object | null });
+    Object.defineProperty(navigator, "serviceWorker", { value: serviceWorker, configurable: true });
+    const changes: boolean[] = [];
+    const stop = onOfflineReadyChange((ready) => changes.push(ready));
+    expect(isOfflineReady()).toBe(false);
+
+    serviceWorker.controller = {};
+    serviceWorker.dispatchEvent(new Event("controllerchange"));
+    stop();
+    serviceWorker.dispatchEvent(new Event("controllerchange"));
+
+    expect(isOfflineReady()).toBe(true);
+    expect(changes).toEqual([true]);
+  });
+});
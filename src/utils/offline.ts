@@ -0,0 +1,119 @@
+/**
+ * Offline Support
+ *
+ * The service worker (public/sw.js) caches the app shell, sprites and API
+ * responses, and falls back to them when the network or PokeAPI fails. It
+ * reports every API response it handles, so the dashboard can tell the user
+ * when what they see comes from that cache rather than the API.
+ */
+
+export const SERVICE_WORKER_URL = "/sw.js";
+
+// Must match API_RESPONSE_MESSAGE in public/sw.js
+export const API_RESPONSE_MESSAGE = "pokeapi-response";
+
+/**
+ * An API response as reported by the service worker
+ */
+export interface ApiResponseNotice {
+  url: string;
+  /** Served from the cache because the request failed */
+  stale: boolean;
+  /** When a stale copy was cached, in ms since the epoch; null for fresh responses */
+  cachedAt: number | null;
+}
+
+/**
+ * Shown while any data on screen is stale: since when, as far as known
+ */
+export interface StaleData {
+  cachedAt: number | null;
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator;
+}
+
+/**
+ * Whether a service worker controls the page, so the API responses it requests are cached
+ * Not yet the case on the visit that installs the worker, until it activates.
+ */
+export function isOfflineReady(): boolean {
+  return isOfflineSupported() && navigator.serviceWorker.controller !== null;
+}
+
+/**
+ * Calls `listener` with isOfflineReady() whenever the page's service worker changes
+ * @returns A function that stops listening
+ */
+export function onOfflineReadyChange(listener: (ready: boolean) => void): () => void {
+  if (!isOfflineSupported()) return () => {};
+
+  const handleControllerChange = () => listener(isOfflineReady());
+  navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+  return () => navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+}
+
+/**
+ * Registers the service worker in production builds; the dev server serves modules the worker shouldn't cache
+ */
+export function registerServiceWorker(): void {
+  if (!isOfflineSupported() || !import.meta.env.PROD) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((err) => console.error("Service worker registration failed:", err));
+}
+
+/**
+ * Calls `listener` for each API response the service worker reports
+ * @returns A function that stops listening
+ */
+export function onApiResponse(listener: (notice: ApiResponseNotice) => void): () => void {
+  if (!isOfflineSupported()) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === API_RESPONSE_MESSAGE) listener({ url: event.data.url, stale: event.data.stale, cachedAt: event.data.cachedAt });
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
+
+/**
+ * Folds a notice into the stale state: a fresh response means the API is back,
+ * a stale one keeps the oldest cache time seen
+ */
+export function updateStaleData(current: StaleData | null, notice: ApiResponseNotice): StaleData | null {
+  if (!notice.stale) return null;
+  if (!current || current.cachedAt === null) return { cachedAt: notice.cachedAt };
+  return { cachedAt: notice.cachedAt === null ? current.cachedAt : Math.min(current.cachedAt, notice.cachedAt) };
+}
+
+export const OFFLINE_DOWNLOAD_STORAGE_KEY = "pokemon-offline-download";
+
+/**
+ * The last Pokedex download, so it can be shown after a reload
+ */
+export interface OfflineDownload {
+  downloaded: number;
+  failed: number;
+  /** ms since the epoch */
+  downloadedAt: number;
+}
+
+/**
+ * Reads the last download; missing, unreadable or malformed data yields null
+ */
+export function loadOfflineDownload(storage: Storage = window.localStorage): OfflineDownload | null {
+  try {
+    const saved = JSON.parse(storage.getItem(OFFLINE_DOWNLOAD_STORAGE_KEY) ?? "null");
+    return typeof saved?.downloaded === "number" && typeof saved.failed === "number" && typeof saved.downloadedAt === "number" ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveOfflineDownload(download: OfflineDownload, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(OFFLINE_DOWNLOAD_STORAGE_KEY, JSON.stringify(download));
+  } catch (err) {
+    console.error("Failed to save the offline download:", err);
+  }
+}
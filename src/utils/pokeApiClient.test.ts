@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the PokeAPI client
+ *
+ * These tests validate URL building against a configurable base URL and
+ * requests that bypass the response cache.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PokeApiClient, DEFAULT_POKEAPI_BASE_URL } from "./pokeApiClient";
+
+describe("PokeApiClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should default to the public PokeAPI", () => {
+    const client = new PokeApiClient();
+
+    expect(client.baseUrl).toBe(DEFAULT_POKEAPI_BASE_URL);
+    expect(client.resourceUrl("pokemon", "Pikachu")).toBe("https://pokeapi.co/api/v2/pokemon/pikachu/");
+  });
+
+  it("should build URLs against a custom base URL", () => {
+    const client = new PokeApiClient({ baseUrl: "http://localhost:8000/api/v2/" });
+
+    expect(client.resourceUrl("pokemon-species", 25)).toBe("http://localhost:8000/api/v2/pokemon-species/25/");
+    expect(client.resourceUrl("pokemon", "https://pokeapi.co/api/v2/pokemon/25/")).toBe("http://localhost:8000/api/v2/pokemon/25/");
+    expect(client.resourceUrl("pokemon", "http://localhost:8000/api/v2/pokemon/6/")).toBe("http://localhost:8000/api/v2/pokemon/6/");
+  });
+
+  it("should request typed resources from the configured host", async () => {
+    const mockFetch = globalThis.fetch as any;
+    const client = new PokeApiClient({ baseUrl: "http://localhost:8000/api/v2" });
+
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ count: 0, next: null, previous: null, results: [] }) });
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ id: 10, name: "fire" }) });
+
+    await client.listPokemon({ limit: 50, offset: 100 });
+    const type = await client.getType("fire");
+
+    expect(mockFetch.mock.calls[0][0]).toBe("http://localhost:8000/api/v2/pokemon?limit=50&offset=100");
+    expect(mockFetch.mock.calls[1][0]).toBe("http://localhost:8000/api/v2/type/fire/");
+    expect(type.name).toBe("fire");
+  });
+
+  it("should neither serve nor keep responses of requests that bypass the cache", async () => {
+    const mockFetch = globalThis.fetch as any;
+    const client = new PokeApiClient();
+
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ id: 10, name: "fire" }) });
+
+    await client.getType("fire", { cache: false });
+    await client.getType("fire");
+    await client.getType("fire", { cache: false });
+    await client.getType("fire");
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
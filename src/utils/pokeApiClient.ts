@@ -0,0 +1,195 @@
+/**
+ * PokeAPI Client
+ *
+ * Single place that knows how PokeAPI URLs are built. The base URL defaults to
+ * the public API but can point at a self-hosted mirror or a local fixture
+ * server, either through `VITE_POKEAPI_BASE_URL` or the `apiBaseUrl` prop on App.
+ */
+
+import { ResponseCache } from "./responseCache";
+import { fetchJson } from "./fetchWithRetry";
+import type { RetryOptions } from "./fetchWithRetry";
+import { decodeResponse, pokemonListResponseDecoder, pokemonDecoder, speciesDataDecoder, typeDataDecoder, generationDataDecoder, evolutionChainDecoder, moveDataDecoder, abilityDataDecoder } from "./validators";
+import type { Decoder } from "./validators";
+import type { CacheStore } from "./responseCache";
+import type { PokemonListResponse, Pokemon, SpeciesData, TypeData, GenerationData, EvolutionChain, MoveData, AbilityData } from "../types/pokemon";
+
+export const DEFAULT_POKEAPI_BASE_URL = "https://pokeapi.co/api/v2";
+
+/**
+ * Identifies a resource by numeric ID, name, or the absolute URL the API returned
+ */
+export type ResourceId = string | number;
+
+/**
+ * Endpoints with their own cache policy
+ */
+export type CachedResource = "pokemon-list" | "pokemon" | "pokemon-species" | "type" | "generation" | "evolution-chain" | "move" | "ability";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * How long each endpoint's responses stay fresh
+ * Lists change when new Pokemon are added; type, generation, evolution, move and ability data practically never change.
+ */
+export const DEFAULT_CACHE_TTLS: Record<CachedResource, number> = {
+  "pokemon-list": HOUR,
+  pokemon: DAY,
+  "pokemon-species": DAY,
+  type: 7 * DAY,
+  generation: 7 * DAY,
+  "evolution-chain": 7 * DAY,
+  move: 7 * DAY,
+  ability: 7 * DAY,
+};
+
+/**
+ * Endpoints small enough to write through to the persistent store
+ * Pokemon detail and species payloads are large (flavor text in every language) and stay memory-only,
+ * as do moves: a single learnset can mean a hundred of them.
+ */
+export const DEFAULT_PERSISTED_RESOURCES: CachedResource[] = ["pokemon-list", "type", "generation", "evolution-chain"];
+
+export interface PokeApiClientOptions {
+  baseUrl?: string;
+  /** Per-endpoint TTL overrides in milliseconds */
+  cacheTtls?: Partial<Record<CachedResource, number>>;
+  /** Enables a persistent cache layer, e.g. `new LocalStorageCacheStore()` */
+  persistentStore?: CacheStore;
+  persistedResources?: CachedResource[];
+  /** Retry policy for transient failures (network, timeout, 429, 5xx) */
+  retry?: RetryOptions;
+}
+
+/**
+ * Per-call request options
+ */
+export interface RequestOptions {
+  /** Cancels this caller's request; a request shared with other callers keeps running for them */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds */
+  timeout?: number;
+  /** False for bulk loads: the response is neither served from nor kept in the cache, though in-flight requests are still shared */
+  cache?: boolean;
+}
+
+export interface ListPokemonOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Resolves the base URL from an explicit override, the Vite env, or the public API
+ */
+export function resolveBaseUrl(override?: string): string {
+  const baseUrl = override || import.meta.env.VITE_POKEAPI_BASE_URL || DEFAULT_POKEAPI_BASE_URL;
+  return baseUrl.replace(/\/+$/, "");
+}
+
+export class PokeApiClient {
+  readonly baseUrl: string;
+  private readonly cache: ResponseCache;
+  private readonly cacheTtls: Record<CachedResource, number>;
+  private readonly persistedResources: Set<CachedResource>;
+  private readonly retry: RetryOptions;
+
+  constructor(options: PokeApiClientOptions = {}) {
+    this.baseUrl = resolveBaseUrl(options.baseUrl);
+    this.cache = new ResponseCache({ persistentStore: options.persistentStore });
+    this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cacheTtls };
+    this.persistedResources = new Set(options.persistedResources ?? DEFAULT_PERSISTED_RESOURCES);
+    this.retry = options.retry ?? {};
+  }
+
+  /**
+   * Builds the URL for a resource
+   *
+   * Absolute URLs (e.g. `url` fields from list responses) are passed through, but
+   * public API URLs are rewritten onto the configured base so a mirror that
+   * returns upstream links is still the only host we talk to.
+   */
+  resourceUrl(resource: string, id: ResourceId): string {
+    const key = String(id);
+    if (/^https?:\/\//.test(key)) {
+      return key.startsWith(DEFAULT_POKEAPI_BASE_URL) ? this.baseUrl + key.slice(DEFAULT_POKEAPI_BASE_URL.length) : key;
+    }
+    return `${this.baseUrl}/${resource}/${key.toLowerCase()}/`;
+  }
+
+  listPokemonUrl({ limit = 20, offset = 0 }: ListPokemonOptions = {}): string {
+    return `${this.baseUrl}/pokemon?limit=${limit}&offset=${offset}`;
+  }
+
+  listPokemon(list: ListPokemonOptions = {}, options?: RequestOptions): Promise<PokemonListResponse> {
+    return this.getPokemonPage(this.listPokemonUrl(list), options);
+  }
+
+  /**
+   * Fetches a list page by URL, e.g. the `next`/`previous` links of a previous page
+   */
+  getPokemonPage(url: string, options?: RequestOptions): Promise<PokemonListResponse> {
+    return this.request("pokemon-list", this.resourceUrl("pokemon", url), pokemonListResponseDecoder, options);
+  }
+
+  getPokemon(id: ResourceId, options?: RequestOptions): Promise<Pokemon> {
+    return this.request("pokemon", this.resourceUrl("pokemon", id), pokemonDecoder, options);
+  }
+
+  getSpecies(id: ResourceId, options?: RequestOptions): Promise<SpeciesData> {
+    return this.request("pokemon-species", this.resourceUrl("pokemon-species", id), speciesDataDecoder, options);
+  }
+
+  getType(id: ResourceId, options?: RequestOptions): Promise<TypeData> {
+    return this.request("type", this.resourceUrl("type", id), typeDataDecoder, options);
+  }
+
+  getGeneration(id: ResourceId, options?: RequestOptions): Promise<GenerationData> {
+    return this.request("generation", this.resourceUrl("generation", id), generationDataDecoder, options);
+  }
+
+  getEvolutionChain(id: ResourceId, options?: RequestOptions): Promise<EvolutionChain> {
+    return this.request("evolution-chain", this.resourceUrl("evolution-chain", id), evolutionChainDecoder, options);
+  }
+
+  getMove(id: ResourceId, options?: RequestOptions): Promise<MoveData> {
+    return this.request("move", this.resourceUrl("move", id), moveDataDecoder, options);
+  }
+
+  getAbility(id: ResourceId, options?: RequestOptions): Promise<AbilityData> {
+    return this.request("ability", this.resourceUrl("ability", id), abilityDataDecoder, options);
+  }
+
+  /**
+   * Drops every cached response, including persisted ones
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Serves fresh cached responses without a network call and shares in-flight requests for the same URL
+   * Failures reject with the typed errors from apiErrors.ts once retries are exhausted;
+   * bodies that fail `decoder` reject with a SchemaValidationError and are not cached.
+   */
+  protected request<T>(resource: CachedResource, url: string, decoder: Decoder<T>, options: RequestOptions = {}): Promise<T> {
+    const useCache = options.cache ?? true;
+    const cached = useCache ? this.cache.get<T>(url) : undefined;
+    if (cached !== undefined) return Promise.resolve(cached);
+
+    return this.cache.dedupe(
+      url,
+      async (signal) => {
+        const data = decodeResponse(decoder, await fetchJson(url, { ...this.retry, timeout: options.timeout, signal }), url);
+        if (useCache) this.cache.set(url, data, this.cacheTtls[resource], this.persistedResources.has(resource));
+        return data;
+      },
+      options.signal,
+    );
+  }
+}
+
+/**
+ * Client used when callers don't supply their own
+ */
+export const defaultPokeApiClient = new PokeApiClient();
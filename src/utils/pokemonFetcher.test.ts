@@ -5,11 +5,30 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { fetchPokemonListWithDetails, createFetchTimingTracker } from "./pokemonFetcher";
+import type { Mock } from "vitest";
+import { fetchPokemonListWithDetails, fetchPokemonDetails, fetchMoves, fetchAbilityDetails, fetchStatsIndex, downloadPokedex, fetchPokemonIndex, fetchPokemonPage, fetchFilteredPokemon, importShowdownTeam, selectRandomPokemon, createFetchTimingTracker } from "./pokemonFetcher";
+import { EMPTY_FILTERS } from "./pokemonFilters";
+import { createSeededRandom } from "./seededRandom";
+import { defaultPokeApiClient } from "./pokeApiClient";
+
+/**
+ * The parts of a Response the client reads
+ */
+interface FakeResponse {
+  ok: boolean;
+  status?: number;
+  statusText?: string;
+  headers?: { get: (name: string) => string | null };
+  json?: () => Promise<unknown>;
+}
+
+// fetch is replaced with a mock in test-setup.ts; tests answer it with fake responses
+const mockFetch = vi.mocked(globalThis.fetch) as unknown as Mock<[url: string, init?: RequestInit], Promise<FakeResponse>>;
 
 describe("Pokemon Fetcher - Parallel Loading Tests", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    defaultPokeApiClient.clearCache();
   });
 
   /**
@@ -125,6 +144,9 @@ describe("Pokemon Fetcher - Parallel Loading Tests", () => {
     const failedPokemon = result.filter((p) => p.image === null);
     expect(failedPokemon.length).toBeGreaterThanOrEqual(1);
 
+    // ASSERTION: Failed Pokemon should carry an error state for per-card retry
+    expect(failedPokemon.every((p) => p.error)).toBe(true);
+
     // ASSERTION: At least two Pokemon should have succeeded
     const successfulPokemon = result.filter((p) => p.image !== null);
     expect(successfulPokemon.length).toBeGreaterThanOrEqual(2);
@@ -255,4 +277,520 @@ describe("Pokemon Fetcher - Parallel Loading Tests", () => {
     expect(timing.timeDiff).toBeLessThan(100);
     expect(timing.isParallel).toBe(true);
   });
+
+  /**
+   * TEST 6: Progress Callbacks
+   * Verifies skeletons are reported first and each card is reported as it settles
+   */
+  it("should report skeletons first and then each Pokemon as it loads", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        count: 1,
+        results: [{ name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon/25/" }],
+      }),
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: 25,
+        name: "pikachu",
+        sprites: { front_default: "pikachu.png" },
+        types: [],
+        abilities: [],
+        stats: [],
+        species: { name: "pikachu", url: "species-25" },
+      }),
+    });
+
+    const events: string[] = [];
+    const onListLoaded = vi.fn(() => events.push("list"));
+    const onPokemonLoaded = vi.fn(() => events.push("pokemon"));
+
+    await fetchPokemonListWithDetails({ requestTimeout: 100, count: 1, onListLoaded, onPokemonLoaded });
+
+    // ASSERTION: Skeletons are reported before any card settles
+    expect(events).toEqual(["list", "pokemon"]);
+    expect(onListLoaded).toHaveBeenCalledWith([{ name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon/25/", image: null, isLoading: true }]);
+    expect(onPokemonLoaded).toHaveBeenCalledWith({ name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon/25/", image: "pikachu.png", isLoading: false }, 0);
+  });
+
+  /**
+   * TEST 7: Details With Description
+   * Verifies the species description is resolved and cleaned up, with every language's entries and names kept
+   */
+  it("should load Pokemon details with an English description", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: 25,
+        name: "pikachu",
+        sprites: { front_default: "pikachu.png" },
+        types: [],
+        abilities: [],
+        stats: [],
+        species: { name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon-species/25/" },
+      }),
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        name: "pikachu",
+        order: 35,
+        flavor_text_entries: [
+          { flavor_text: "Pikachu (fr)", language: { name: "fr", url: "" }, version: { name: "red", url: "" } },
+          { flavor_text: "When several of\fthese POKéMON gather", language: { name: "en", url: "" }, version: { name: "red", url: "" } },
+        ],
+        names: [
+          { name: "Pikachu", language: { name: "en", url: "" } },
+          { name: "ピカチュウ", language: { name: "ja", url: "" } },
+        ],
+      }),
+    });
+
+    const result = await fetchPokemonDetails("https://pokeapi.co/api/v2/pokemon/25/");
+
+    expect(mockFetch.mock.calls[1][0]).toBe("https://pokeapi.co/api/v2/pokemon-species/25/");
+    expect(result.name).toBe("pikachu");
+    expect(result.description).toBe("When several of these POKéMON gather");
+    expect(result.flavorTexts).toEqual([
+      { text: "Pikachu (fr)", language: "fr", version: "red" },
+      { text: "When several of these POKéMON gather", language: "en", version: "red" },
+    ]);
+    expect(result.localizedNames).toEqual({ en: "Pikachu", ja: "ピカチュウ" });
+  });
+
+  /**
+   * TEST 8: Cached Details
+   * Verifies that reopening a Pokemon costs no extra network calls
+   */
+  it("should serve a reopened Pokemon from the cache", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: 25,
+        name: "pikachu",
+        sprites: { front_default: "pikachu.png" },
+        types: [],
+        abilities: [],
+        stats: [],
+        species: { name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon-species/25/" },
+      }),
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ name: "pikachu", order: 35, flavor_text_entries: [] }),
+    });
+
+    await fetchPokemonDetails("https://pokeapi.co/api/v2/pokemon/25/");
+    const reopened = await fetchPokemonDetails("https://pokeapi.co/api/v2/pokemon/25/");
+
+    expect(reopened.name).toBe("pikachu");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  /**
+   * TEST 9: Seeded Selection
+   * Verifies that a seed reproduces the same list and never repeats a Pokemon
+   */
+  it("should select the same distinct Pokemon for the same seed", () => {
+    const results = Array.from({ length: 50 }, (_, i) => ({ name: `pokemon-${i}`, url: `https://pokeapi.co/api/v2/pokemon/${i + 1}/` }));
+
+    const first = selectRandomPokemon(results, 10, createSeededRandom("abc"));
+    const second = selectRandomPokemon(results, 10, createSeededRandom("abc"));
+    const other = selectRandomPokemon(results, 10, createSeededRandom("xyz"));
+
+    expect(second.map((p) => p.name)).toEqual(first.map((p) => p.name));
+    expect(other.map((p) => p.name)).not.toEqual(first.map((p) => p.name));
+    expect(new Set(first.map((p) => p.name)).size).toBe(10);
+
+    // Asking for more than exist returns every entry once
+    expect(new Set(selectRandomPokemon(results.slice(0, 3), 10, createSeededRandom("abc")).map((p) => p.name)).size).toBe(3);
+  });
+
+  /**
+   * TEST 10: Full Search Index
+   * Verifies that the name index covers Pokemon beyond the first 1000
+   */
+  it("should fetch the remaining Pokemon when the index has more than one page", async () => {
+    const entry = (i: number) => ({ name: `pokemon-${i}`, url: `https://pokeapi.co/api/v2/pokemon/${i + 1}/` });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ count: 1025, next: "https://pokeapi.co/api/v2/pokemon?offset=1000&limit=1000", previous: null, results: Array.from({ length: 1000 }, (_, i) => entry(i)) }),
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ count: 1025, next: null, previous: null, results: Array.from({ length: 25 }, (_, i) => entry(1000 + i)) }),
+    });
+
+    const index = await fetchPokemonIndex();
+
+    expect(index).toHaveLength(1025);
+    expect(index[1024].name).toBe("pokemon-1024");
+    expect(mockFetch.mock.calls[1][0]).toBe("https://pokeapi.co/api/v2/pokemon?limit=25&offset=1000");
+  });
+
+  /**
+   * TEST 11: Browse Pages
+   * Verifies that a page is loaded from its link and reports its position first
+   */
+  it("should load a Pokedex page from a next link", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        count: 1302,
+        next: "https://pokeapi.co/api/v2/pokemon?offset=40&limit=20",
+        previous: "https://pokeapi.co/api/v2/pokemon?offset=0&limit=20",
+        results: [{ name: "nidoran-f", url: "https://pokeapi.co/api/v2/pokemon/29/" }],
+      }),
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 29, name: "nidoran-f", sprites: { front_default: "nidoran-f.png" }, species: { name: "nidoran-f", url: "species-29" } }),
+    });
+
+    const onPageLoaded = vi.fn();
+    const page = await fetchPokemonPage("https://pokeapi.co/api/v2/pokemon?offset=20&limit=20", { onPageLoaded });
+
+    expect(mockFetch.mock.calls[0][0]).toBe("https://pokeapi.co/api/v2/pokemon?offset=20&limit=20");
+    expect(onPageLoaded).toHaveBeenCalledWith({
+      count: 1302,
+      offset: 20,
+      next: "https://pokeapi.co/api/v2/pokemon?offset=40&limit=20",
+      previous: "https://pokeapi.co/api/v2/pokemon?offset=0&limit=20",
+    });
+    expect(page.pokemon).toEqual([{ name: "nidoran-f", url: "https://pokeapi.co/api/v2/pokemon/29/", image: "nidoran-f.png", isLoading: false }]);
+  });
+
+  /**
+   * TEST 12: Filters
+   * Verifies that type, generation and stat filters combine, and that the result is sorted
+   */
+  it("should combine type, generation and stat filters", async () => {
+    const BASE = "https://pokeapi.co/api/v2";
+    const resource = (name: string, id: number) => ({ name, url: `${BASE}/pokemon/${id}/` });
+    const details = (id: number, name: string, speed: number) => ({
+      id,
+      name,
+      sprites: { front_default: `${name}.png` },
+      stats: [{ base_stat: speed, effort: 0, stat: { name: "speed", url: "" } }],
+      species: { name, url: `${BASE}/pokemon-species/${id}/` },
+    });
+
+    const routes: Record<string, unknown> = {
+      [`${BASE}/pokemon?limit=1000&offset=0`]: {
+        count: 4,
+        next: null,
+        previous: null,
+        results: [resource("charmander", 4), resource("charizard", 6), resource("moltres", 146), resource("talonflame", 663)],
+      },
+      [`${BASE}/type/fire/`]: {
+        id: 10,
+        name: "fire",
+        damage_relations: {},
+        pokemon: ["charmander", "charizard", "moltres", "talonflame"].map((name, i) => ({ slot: 1, pokemon: resource(name, [4, 6, 146, 663][i]) })),
+      },
+      [`${BASE}/generation/1/`]: {
+        id: 1,
+        name: "generation-i",
+        pokemon_species: [4, 6, 146].map((id) => ({ name: `species-${id}`, url: `${BASE}/pokemon-species/${id}/` })),
+      },
+      [`${BASE}/pokemon/4/`]: details(4, "charmander", 65),
+      [`${BASE}/pokemon/6/`]: details(6, "charizard", 100),
+      [`${BASE}/pokemon/146/`]: details(146, "moltres", 90),
+    };
+    mockFetch.mockImplementation((url: string) => Promise.resolve({ ok: true, json: async () => routes[url] }));
+
+    const onProgress = vi.fn();
+    const page = await fetchFilteredPokemon(
+      { ...EMPTY_FILTERS, types: ["fire"], generation: 1, stats: { speed: { min: 80, max: null } }, sort: "speed", order: "desc" },
+      0,
+      20,
+      { onProgress },
+    );
+
+    expect(page.count).toBe(2);
+    expect(page.pokemon.map((p) => p.name)).toEqual(["charizard", "moltres"]);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+    // Talonflame is outside generation 1, so its stats are never requested
+    expect(mockFetch.mock.calls.some(([url]: [string]) => url.endsWith("/pokemon/663/"))).toBe(false);
+  });
+
+  /**
+   * TEST 13: Evolution Tree
+   * Verifies that details include the species' evolution chain with a sprite per stage
+   */
+  it("should load the evolution tree with the details", async () => {
+    const BASE = "https://pokeapi.co/api/v2";
+    const pokemon = (id: number, name: string) => ({ id, name, sprites: { front_default: `${name}.png` }, species: { name, url: `${BASE}/pokemon-species/${id}/` } });
+    const species = (id: number) => ({ name: `species-${id}`, url: `${BASE}/pokemon-species/${id}/` });
+
+    const routes: Record<string, unknown> = {
+      [`${BASE}/pokemon/172/`]: pokemon(172, "pichu"),
+      [`${BASE}/pokemon/25/`]: pokemon(25, "pikachu"),
+      [`${BASE}/pokemon-species/25/`]: { name: "pikachu", flavor_text_entries: [], evolution_chain: { url: `${BASE}/evolution-chain/10/` } },
+      [`${BASE}/evolution-chain/10/`]: {
+        id: 10,
+        chain: {
+          species: species(172),
+          evolution_details: [],
+          evolves_to: [
+            {
+              species: species(25),
+              evolution_details: [{ trigger: { name: "level-up", url: "" }, min_happiness: 220 }],
+              evolves_to: [{ species: species(26), evolution_details: [{ trigger: { name: "use-item", url: "" }, item: { name: "thunder-stone", url: "" } }], evolves_to: [] }],
+            },
+          ],
+        },
+      },
+    };
+    mockFetch.mockImplementation((url: string) =>
+      url in routes ? Promise.resolve({ ok: true, json: async () => routes[url] }) : Promise.resolve({ ok: false, status: 404, headers: { get: () => null } }),
+    );
+
+    const details = await fetchPokemonDetails(25);
+    const raichu = details.evolution.evolvesTo[0].evolvesTo[0];
+
+    expect(details.evolution.image).toBe("pichu.png");
+    expect(details.evolution.evolvesTo[0].conditions[0].min_happiness).toBe(220);
+    // A stage that fails to load keeps its place without a sprite
+    expect(raichu).toMatchObject({ name: "species-26", url: `${BASE}/pokemon/26/`, image: null });
+    expect(raichu.conditions[0].item.name).toBe("thunder-stone");
+  });
+
+  /**
+   * TEST 14: Showdown Import
+   * Verifies that species, abilities and duplicates are checked against PokeAPI and reported by line
+   */
+  it("should validate imported Showdown sets against PokeAPI", async () => {
+    const BASE = "https://pokeapi.co/api/v2";
+    const ability = (name: string, slot: number) => ({ ability: { name, url: "" }, is_hidden: slot === 3, slot });
+
+    const routes: Record<string, unknown> = {
+      [`${BASE}/pokemon/pelipper/`]: { id: 279, name: "pelipper", abilities: [ability("keen-eye", 1), ability("drizzle", 2), ability("rain-dish", 3)], species: { name: "pelipper", url: "" } },
+      [`${BASE}/pokemon/rotom-wash/`]: { id: 10009, name: "rotom-wash", abilities: [ability("levitate", 1)], species: { name: "rotom", url: "" } },
+    };
+    mockFetch.mockImplementation((url: string) =>
+      url in routes ? Promise.resolve({ ok: true, json: async () => routes[url] }) : Promise.resolve({ ok: false, status: 404, headers: { get: () => null } }),
+    );
+
+    const valid = await importShowdownTeam("Pelipper @ Damp Rock\nAbility: Drizzle\n\nRotom-Wash\nAbility: Levitate");
+    expect(valid.errors).toEqual([]);
+    expect(valid.members.map((member) => member.name)).toEqual(["pelipper", "rotom-wash"]);
+
+    const invalid = await importShowdownTeam("Pelipper\nAbility: Swift Swim\n\nPelipperino\nAbility: Drizzle");
+    expect(invalid.errors).toEqual([
+      { line: 2, message: "Pelipper can't have Swift Swim (possible: Keen Eye, Drizzle, Rain Dish)" },
+      { line: 4, message: `Unknown species "Pelipperino"` },
+    ]);
+
+    const duplicate = await importShowdownTeam("Pelipper\n\nRotom-Wash\n\nPelipper @ Leftovers");
+    expect(duplicate.errors).toEqual([{ line: 5, message: "Pelipper is already on the team" }]);
+    expect(duplicate.members.map((member) => member.name)).toEqual(["pelipper", "rotom-wash"]);
+  });
+
+  /**
+   * TEST 15: Pinned Favorites
+   * Verifies that pinned cards keep their positions, aren't reloaded or picked again,
+   * and leave the rest of the seeded list unchanged
+   */
+  it("should keep pinned cards in place when rerolling", async () => {
+    const entry = (i: number) => ({ name: `pokemon-${i}`, url: `https://pokeapi.co/api/v2/pokemon/${i + 1}/` });
+    const pinned = { ...entry(0), image: "pinned.png", isLoading: false };
+
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: async () => (url.includes("limit=") ? { count: 5, next: null, previous: null, results: Array.from({ length: 5 }, (_, i) => entry(i)) } : { id: 2, name: "other", sprites: { front_default: "other.png" }, species: { name: "other", url: "" } }),
+      }),
+    );
+
+    const list = await fetchPokemonListWithDetails({ count: 3, seed: "abc", pinned: [{ index: 1, pokemon: pinned }] });
+
+    expect(list).toHaveLength(3);
+    expect(list[1]).toBe(pinned);
+    expect(list.filter((p) => p.name === "pokemon-0")).toHaveLength(1);
+    expect(mockFetch).not.toHaveBeenCalledWith(pinned.url, expect.anything());
+
+    const shared = await fetchPokemonListWithDetails({ count: 3, seed: "abc" });
+    // Slots that didn't pick the pinned Pokemon match the list the seed gives without pins
+    for (const index of [0, 2]) {
+      if (shared[index].name !== "pokemon-0") expect(list[index].name).toBe(shared[index].name);
+    }
+  });
+
+  /**
+   * TEST 16: Lazy Move Details
+   * Verifies that each move is reported as it loads and a failed move is left out
+   */
+  it("should load move details and skip moves that fail", async () => {
+    const BASE = "https://pokeapi.co/api/v2";
+    const thunderbolt = { id: 85, name: "thunderbolt", type: { name: "electric", url: "" }, power: 90, accuracy: 100, pp: 15, damage_class: { name: "special", url: "" } };
+
+    mockFetch.mockImplementation((url: string) =>
+      url === `${BASE}/move/85/` ? Promise.resolve({ ok: true, json: async () => thunderbolt }) : Promise.resolve({ ok: false, status: 404, headers: { get: () => null } }),
+    );
+
+    const onMoveLoaded = vi.fn();
+    const moves = await fetchMoves(
+      [
+        { name: "thunderbolt", url: `${BASE}/move/85/` },
+        { name: "missing", url: `${BASE}/move/9999/` },
+      ],
+      { onMoveLoaded },
+    );
+
+    expect(moves).toEqual([thunderbolt]);
+    expect(onMoveLoaded).toHaveBeenCalledWith(thunderbolt);
+    expect(onMoveLoaded).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * TEST 17: Ability Details
+   * Verifies that the effect text follows the language, falling back to English, and hidden holders are marked
+   */
+  it("should load an ability's effect in the selected language", async () => {
+    const language = (name: string) => ({ name, url: "" });
+
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        id: 9,
+        name: "static",
+        effect_entries: [
+          { effect: "Statique (long)", short_effect: "Statique", language: language("fr") },
+          { effect: "Has a 30% chance of paralyzing attacking Pokémon on contact.", short_effect: "May paralyze on contact.", language: language("en") },
+        ],
+        pokemon: [
+          { is_hidden: false, slot: 1, pokemon: { name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon/25/" } },
+          { is_hidden: true, slot: 3, pokemon: { name: "electrike", url: "https://pokeapi.co/api/v2/pokemon/309/" } },
+        ],
+      }),
+    });
+
+    const french = await fetchAbilityDetails("static", { language: "fr" });
+    const german = await fetchAbilityDetails("static", { language: "de" });
+
+    expect(french.shortEffect).toBe("Statique");
+    expect(german.shortEffect).toBe("May paralyze on contact.");
+    expect(german.pokemon).toEqual([
+      { name: "pikachu", url: "https://pokeapi.co/api/v2/pokemon/25/", isHidden: false },
+      { name: "electrike", url: "https://pokeapi.co/api/v2/pokemon/309/", isHidden: true },
+    ]);
+  });
+
+  /**
+   * TEST 18: Stats Index
+   * Verifies every Pokemon's stats are indexed, leaving out the ones that fail to load
+   */
+  it("should build the stats index from every Pokemon, skipping failures", async () => {
+    const stat = (name: string, base_stat: number) => ({ base_stat, effort: 0, stat: { name, url: "" } });
+
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes("?")) {
+        return {
+          ok: true,
+          json: async () => ({
+            count: 3,
+            next: null,
+            results: [1, 2, 3].map((id) => ({ name: `pokemon-${id}`, url: `https://pokeapi.co/api/v2/pokemon/${id}/` })),
+          }),
+        };
+      }
+      const id = Number(url.match(/(\d+)\/$/)[1]);
+      if (id === 2) return { ok: false, status: 404, statusText: "Not Found" };
+      return {
+        ok: true,
+        json: async () => ({ id, name: `pokemon-${id}`, sprites: {}, types: [], abilities: [], stats: [stat("hp", id * 50), stat("speed", id * 10)], species: { name: `pokemon-${id}`, url: "" } }),
+      };
+    });
+
+    const progress: number[] = [];
+    const index = await fetchStatsIndex({ onProgress: (loaded) => progress.push(loaded) });
+
+    expect(index.count).toBe(2);
+    expect(index.values.hp).toEqual([50, 150]);
+    expect(index.values.total).toEqual([60, 180]);
+    expect(progress).toEqual([0, 1, 2, 3]);
+  });
+
+  /**
+   * TEST 19: Offline Download
+   * Verifies every Pokemon's details and species are requested, counting the ones that fail
+   */
+  it("should download every Pokemon's details and species for offline use", async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes("?")) {
+        return {
+          ok: true,
+          json: async () => ({
+            count: 2,
+            next: null,
+            results: [1, 2].map((id) => ({ name: `pokemon-${id}`, url: `https://pokeapi.co/api/v2/pokemon/${id}/` })),
+          }),
+        };
+      }
+      if (url.endsWith("/pokemon-species/2/")) return { ok: false, status: 404, statusText: "Not Found" };
+      const id = Number(url.match(/(\d+)\/$/)[1]);
+      if (url.includes("/pokemon-species/")) return { ok: true, json: async () => ({ name: `pokemon-${id}`, order: id, flavor_text_entries: [] }) };
+      return {
+        ok: true,
+        json: async () => ({ id, name: `pokemon-${id}`, sprites: {}, types: [], abilities: [], stats: [], species: { name: `pokemon-${id}`, url: `https://pokeapi.co/api/v2/pokemon-species/${id}/` } }),
+      };
+    });
+
+    const progress: string[] = [];
+    const result = await downloadPokedex({ onProgress: (loaded, total) => progress.push(`${loaded}/${total}`) });
+
+    expect(result).toEqual({ downloaded: 1, failed: 1 });
+    expect(progress).toEqual(["0/2", "1/2", "2/2"]);
+    expect(mockFetch.mock.calls.map(([url]: [string]) => url)).toContain("https://pokeapi.co/api/v2/pokemon-species/1/");
+  });
+
+  /**
+   * TEST 20: Showdown Base Formes
+   * Verifies that a plain species name PokeAPI has no Pokemon for imports the species' default variety
+   */
+  it("should import a base forme through its species' default variety", async () => {
+    const BASE = "https://pokeapi.co/api/v2";
+    const routes: Record<string, unknown> = {
+      [`${BASE}/pokemon-species/urshifu/`]: {
+        name: "urshifu",
+        varieties: [
+          { is_default: true, pokemon: { name: "urshifu-single-strike", url: `${BASE}/pokemon/892/` } },
+          { is_default: false, pokemon: { name: "urshifu-rapid-strike", url: `${BASE}/pokemon/10191/` } },
+        ],
+      },
+      [`${BASE}/pokemon/892/`]: { id: 892, name: "urshifu-single-strike", abilities: [{ ability: { name: "unseen-fist", url: "" }, is_hidden: false, slot: 1 }], species: { name: "urshifu", url: "" } },
+    };
+    mockFetch.mockImplementation((url: string) =>
+      url in routes ? Promise.resolve({ ok: true, json: async () => routes[url] }) : Promise.resolve({ ok: false, status: 404, headers: { get: () => null } }),
+    );
+
+    const result = await importShowdownTeam("Urshifu @ Choice Band\nAbility: Unseen Fist");
+
+    expect(result.errors).toEqual([]);
+    expect(result.members.map((member) => member.name)).toEqual(["urshifu-single-strike"]);
+    expect(mockFetch.mock.calls[0][0]).toBe(`${BASE}/pokemon/urshifu/`);
+  });
+
+  /**
+   * TEST 21: Showdown Unknown Species
+   * Verifies that a name that is neither a Pokemon nor a species is reported after both lookups
+   */
+  it("should report a species PokeAPI knows neither as a Pokemon nor as a species", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404, headers: { get: () => null } });
+
+    const result = await importShowdownTeam("Missingno\nAbility: Pressure");
+
+    expect(result.errors).toEqual([{ line: 1, message: `Unknown species "Missingno"` }]);
+    expect(result.members).toEqual([]);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual(["https://pokeapi.co/api/v2/pokemon/missingno/", "https://pokeapi.co/api/v2/pokemon-species/missingno/"]);
+  });
 });
@@ -2,82 +2,654 @@
  * Pokemon Fetching Utilities
  *
  * Extracted from App.tsx to allow for unit testing without React rendering.
- * This module contains the core parallel loading logic that improved performance 10x.
+ * This module is the single data layer for the dashboard: App and PokemonList
+ * consume it, so the code covered by the unit tests is the code users run.
  */
 
-import type { PokemonListResponse, PokemonWithImage, Pokemon } from "../types/pokemon";
+import { defaultPokeApiClient } from "./pokeApiClient";
+import { describeError, getErrorMessageKey, isAbortError, HttpStatusError } from "./apiErrors";
+import { createSeededRandom } from "./seededRandom";
+import { mapWithConcurrency } from "./concurrency";
+import { buildEvolutionTree, formatResourceName, getSpeciesId } from "./evolution";
+import { buildTypeChart, getDefensiveMultipliers } from "./typeEffectiveness";
+import { POKEMON_TYPES } from "./pokemonTypes";
+import { parseShowdown, toApiName } from "./showdown";
+import { TEAM_SIZE } from "./teams";
+import { DEFAULT_LANGUAGE, cleanFlavorText, findLocalized } from "./language";
+import { getCardSprite } from "./sprites";
+import { placePinned } from "./favorites";
+import { buildStatsIndex } from "./statsIndex";
+import type { StatsIndex } from "./statsIndex";
+import type { PinnedPokemon } from "./favorites";
+import type { ShowdownIssue, ShowdownSet } from "./showdown";
+import type { TypeChart, TypeMultipliers } from "./typeEffectiveness";
+import { getResourceIdFromUrl, matchesStatRanges, needsStats, sortPokemon } from "./pokemonFilters";
+import type { PokemonFilters } from "./pokemonFilters";
+import type { RandomSource } from "./seededRandom";
+import type { PokeApiClient, ResourceId } from "./pokeApiClient";
+import type { Pokemon, PokemonListItem, PokemonWithImage, PokemonWithDescription, EvolutionStage, MoveData, NamedAPIResource, AbilityDetails } from "../types/pokemon";
 
-export interface FetchPokemonOptions {
+/**
+ * Page size of the list request behind both the random list and the search index,
+ * so both share one cached response
+ */
+const INDEX_PAGE_SIZE = 1000;
+
+/**
+ * Detail requests in flight at once when a filter or the stats index needs every candidate's stats
+ */
+const FILTER_CONCURRENCY = 8;
+
+/**
+ * Move requests in flight at once while a learnset loads
+ */
+const MOVE_CONCURRENCY = 6;
+
+/**
+ * Pokemon downloaded at once for offline use; each one is a details and a species request
+ */
+const OFFLINE_CONCURRENCY = 6;
+
+export interface FetchPokemonDetailsOptions {
+  /** Client to fetch through; defaults to the env-configured client */
+  client?: PokeApiClient;
+  /** Cancels the load; the returned promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+export interface FetchPokemonOptions extends FetchPokemonDetailsOptions {
   requestTimeout?: number;
   count?: number;
+  /** Makes the random selection reproducible: the same seed always picks the same Pokemon */
+  seed?: string;
+  /** Cards kept at their positions; only the remaining slots are picked at random */
+  pinned?: PinnedPokemon[];
+  /**
+   * Called once the random selection is made, before any detail request settles.
+   * Every entry is still in its skeleton state (`isLoading: true`).
+   */
+  onListLoaded?: (pokemon: PokemonWithImage[]) => void;
+  /**
+   * Called as soon as an individual detail request settles (success or failure),
+   * so each card can leave its skeleton state independently.
+   */
+  onPokemonLoaded?: (pokemon: PokemonWithImage, index: number) => void;
 }
 
 /**
- * Fetches Pokemon list and loads details in parallel
+ * Picks `count` distinct entries from the list endpoint results
+ * Uses a partial Fisher-Yates shuffle, so no entry can be picked twice.
+ */
+export function selectRandomPokemon(results: PokemonListItem[], count: number, random: RandomSource = Math.random): PokemonWithImage[] {
+  const indices = results.map((_, index) => index);
+  const target = Math.min(count, results.length);
+
+  for (let i = 0; i < target; i++) {
+    const j = i + Math.floor(random() * (indices.length - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+
+  return indices.slice(0, target).map((index) => ({
+    name: results[index].name,
+    url: results[index].url,
+    image: null,
+    isLoading: true,
+  }));
+}
+
+/**
+ * Fetches the sprite for a single list entry
+ * A failure resolves to the entry with an `error` so one card can't break the grid,
+ * and the card can be retried on its own by calling this again. Only cancellation rejects.
  *
+ * @param pokemon - List entry to load
  * @param options - Configuration options
+ * @returns Promise resolving to the entry with its image or error state
+ */
+export async function fetchPokemonCard(pokemon: PokemonListItem, options: Pick<FetchPokemonOptions, "client" | "requestTimeout" | "signal"> = {}): Promise<PokemonWithImage> {
+  const { client = defaultPokeApiClient, requestTimeout = 10000, signal } = options;
+
+  try {
+    const details = await client.getPokemon(pokemon.url, { timeout: requestTimeout, signal });
+    return {
+      name: pokemon.name,
+      url: pokemon.url,
+      image: getCardSprite(details.sprites),
+      isLoading: false,
+    };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+
+    // Individual Pokemon failure - return without image
+    console.error(`Failed to load details for ${pokemon.name}:`, err);
+    return {
+      name: pokemon.name,
+      url: pokemon.url,
+      image: null,
+      isLoading: false,
+      error: getErrorMessageKey(err),
+    };
+  }
+}
+
+/**
+ * Fetches Pokemon list and loads details in parallel
+ *
+ * Aborting `options.signal` cancels the list request and every detail request
+ * still in flight; no progress callbacks fire after that.
+ *
+ * @param options - Configuration options and progress callbacks
  * @returns Promise resolving to array of Pokemon with images
  */
 export async function fetchPokemonListWithDetails(options: FetchPokemonOptions = {}): Promise<PokemonWithImage[]> {
-  const { requestTimeout = 10000, count = 10 } = options;
+  const { client = defaultPokeApiClient, requestTimeout = 10000, count = 10, seed, pinned = [], signal, onListLoaded, onPokemonLoaded } = options;
 
   // Fetch the list of available Pokemon
-  const response = await fetch("https://pokeapi.co/api/v2/pokemon?limit=1000");
-  const data: PokemonListResponse = await response.json();
-
-  // Select random Pokemon
-  const randomPokemon: PokemonWithImage[] = [];
-  const usedIndices = new Set<number>();
-
-  while (randomPokemon.length < count) {
-    const randomIndex = Math.floor(Math.random() * data.results.length);
-    if (!usedIndices.has(randomIndex)) {
-      usedIndices.add(randomIndex);
-      const pokemon = data.results[randomIndex];
-      randomPokemon.push({
-        name: pokemon.name,
-        url: pokemon.url,
-        image: null,
-        isLoading: true,
-      });
-    }
+  const data = await client.listPokemon({ limit: INDEX_PAGE_SIZE }, { signal });
+  signal?.throwIfAborted();
+
+  // The first `count` picks depend only on the seed; the extra ones replace picks that duplicate a pinned card
+  const picks = selectRandomPokemon(data.results, count + pinned.length, seed ? createSeededRandom(seed) : Math.random);
+  const randomPokemon = placePinned(picks, pinned, count);
+  onListLoaded?.(randomPokemon);
+
+  return loadCards(randomPokemon, { client, requestTimeout, signal, onPokemonLoaded });
+}
+
+/**
+ * Position of one Pokedex page, in National Dex order
+ */
+export interface PokemonPageInfo {
+  count: number;
+  /** Index of the first entry on this page */
+  offset: number;
+  next: string | null;
+  previous: string | null;
+}
+
+export interface PokemonPage extends PokemonPageInfo {
+  pokemon: PokemonWithImage[];
+}
+
+export interface FetchPokemonPageOptions extends Omit<FetchPokemonOptions, "count" | "seed"> {
+  /** Called as soon as the page itself loads, before its cards do */
+  onPageLoaded?: (page: PokemonPageInfo) => void;
+}
+
+/**
+ * Reads the `offset` query parameter of a list page URL
+ */
+export function getPageOffset(pageUrl: string): number {
+  return Number(new URL(pageUrl).searchParams.get("offset")) || 0;
+}
+
+/**
+ * Fetches one page of the Pokedex and loads its cards in parallel
+ *
+ * @param pageUrl - A list page URL, typically the `next`/`previous` link of the current page
+ * @param options - Configuration options and progress callbacks
+ * @returns Promise resolving to the page with its loaded cards
+ */
+export async function fetchPokemonPage(pageUrl: string, options: FetchPokemonPageOptions = {}): Promise<PokemonPage> {
+  const { client = defaultPokeApiClient, requestTimeout = 10000, signal, onPageLoaded, onListLoaded, onPokemonLoaded } = options;
+
+  const data = await client.getPokemonPage(pageUrl, { signal });
+  signal?.throwIfAborted();
+
+  const info: PokemonPageInfo = { count: data.count, offset: getPageOffset(pageUrl), next: data.next, previous: data.previous };
+  onPageLoaded?.(info);
+
+  const skeletons = data.results.map((pokemon) => ({ name: pokemon.name, url: pokemon.url, image: null, isLoading: true }));
+  onListLoaded?.(skeletons);
+
+  return { ...info, pokemon: await loadCards(skeletons, { client, requestTimeout, signal, onPokemonLoaded }) };
+}
+
+/**
+ * Loads the cards of a fixed set of Pokemon, e.g. the favorites, in parallel
+ *
+ * @param entries - Pokemon to show, in order
+ * @param options - Configuration options and progress callbacks
+ * @returns Promise resolving to the loaded cards
+ */
+export async function fetchPokemonCards(entries: PokemonListItem[], options: Omit<FetchPokemonOptions, "count" | "seed" | "pinned"> = {}): Promise<PokemonWithImage[]> {
+  const { client = defaultPokeApiClient, requestTimeout = 10000, signal, onListLoaded, onPokemonLoaded } = options;
+
+  const skeletons = entries.map((pokemon) => ({ name: pokemon.name, url: pokemon.url, image: null, isLoading: true }));
+  onListLoaded?.(skeletons);
+
+  return loadCards(skeletons, { client, requestTimeout, signal, onPokemonLoaded });
+}
+
+export interface FetchFilteredPokemonOptions extends FetchPokemonPageOptions {
+  /** Reports stat loading progress when the filters need every candidate's details */
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Fetches one page of the Pokemon matching `filters`
+ *
+ * Type and generation filters narrow the full index using the (cached) `/type`
+ * and `/generation` endpoints; every filter must match. Stat ranges and stat
+ * sorts additionally need each remaining candidate's details, which are loaded
+ * a few at a time outside the response cache, keeping only their stats, as for
+ * the stats index.
+ * The generation endpoint lists species, so alternate forms never match a generation.
+ *
+ * @param filters - Filters and sort order to apply
+ * @param offset - Index of the first matching entry to load cards for
+ * @param pageSize - Number of cards per page
+ * @param options - Configuration options and progress callbacks
+ * @returns Promise resolving to the page with its loaded cards
+ */
+export async function fetchFilteredPokemon(filters: PokemonFilters, offset: number, pageSize: number, options: FetchFilteredPokemonOptions = {}): Promise<PokemonPage> {
+  const { client = defaultPokeApiClient, requestTimeout = 10000, signal, onPageLoaded, onListLoaded, onPokemonLoaded, onProgress } = options;
+
+  const [index, types, generation] = await Promise.all([
+    fetchPokemonIndex({ client, signal }),
+    Promise.all(filters.types.map((type) => client.getType(type, { signal }))),
+    filters.generation === null ? null : client.getGeneration(filters.generation, { signal }),
+  ]);
+  signal?.throwIfAborted();
+
+  const typeMembers = types.map((type) => new Set(type.pokemon.map((entry) => entry.pokemon.name)));
+  const generationSpecies = generation && new Set(generation.pokemon_species.map((species) => getResourceIdFromUrl(species.url)));
+
+  let candidates = index.filter(
+    (pokemon) => typeMembers.every((members) => members.has(pokemon.name)) && (!generationSpecies || generationSpecies.has(getResourceIdFromUrl(pokemon.url))),
+  );
+
+  const details = new Map<string, Pick<Pokemon, "stats">>();
+  if (needsStats(filters)) {
+    let loaded = 0;
+    onProgress?.(loaded, candidates.length);
+    await mapWithConcurrency(candidates, FILTER_CONCURRENCY, async (pokemon) => {
+      try {
+        const { stats } = await client.getPokemon(pokemon.url, { timeout: requestTimeout, signal, cache: false });
+        details.set(pokemon.name, { stats });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        // Without stats it can't be matched; leave it out rather than fail the whole filter
+        console.error(`Failed to load stats for ${pokemon.name}:`, err);
+      }
+      onProgress?.(++loaded, candidates.length);
+    });
+    signal?.throwIfAborted();
+
+    candidates = candidates.filter((pokemon) => details.has(pokemon.name) && matchesStatRanges(details.get(pokemon.name), filters.stats));
   }
 
+  const matches = sortPokemon(candidates, filters, details);
+  const info: PokemonPageInfo = { count: matches.length, offset, next: null, previous: null };
+  onPageLoaded?.(info);
+
+  const skeletons = matches.slice(offset, offset + pageSize).map((pokemon) => ({ name: pokemon.name, url: pokemon.url, image: null, isLoading: true }));
+  onListLoaded?.(skeletons);
+
+  return { ...info, pokemon: await loadCards(skeletons, { client, requestTimeout, signal, onPokemonLoaded }) };
+}
+
+/**
+ * Loads every card's details in parallel, reporting each one as it settles
+ */
+async function loadCards(entries: PokemonWithImage[], options: Pick<FetchPokemonOptions, "client" | "requestTimeout" | "signal" | "onPokemonLoaded">): Promise<PokemonWithImage[]> {
+  const { onPokemonLoaded, signal } = options;
+
   // PARALLEL LOADING: Fetch all Pokemon details simultaneously
-  const detailPromises = randomPokemon.map(async (pokemon) => {
+  const detailPromises = entries.map(async (pokemon, index) => {
+    // Pinned cards arrive already loaded
+    if (!pokemon.isLoading) return pokemon;
+    const loaded = await fetchPokemonCard(pokemon, options);
+    onPokemonLoaded?.(loaded, index);
+    return loaded;
+  });
+
+  // Wait for all requests to complete (in parallel)
+  const results = await Promise.allSettled(detailPromises);
+  signal?.throwIfAborted();
+
+  // Extract successful results
+  return results.filter((result) => result.status === "fulfilled").map((result) => (result as PromiseFulfilledResult<PokemonWithImage>).value);
+}
+
+/**
+ * Fetches the name index of every Pokemon, for search
+ *
+ * The first page is the same request the random list makes, so it is usually
+ * served from the cache; anything beyond it (there are more than 1000 Pokemon)
+ * is fetched in one follow-up request.
+ *
+ * @param options - Configuration options
+ * @returns Promise resolving to every Pokemon name and detail URL
+ */
+export async function fetchPokemonIndex(options: FetchPokemonDetailsOptions = {}): Promise<PokemonListItem[]> {
+  const { client = defaultPokeApiClient, signal } = options;
+
+  const firstPage = await client.listPokemon({ limit: INDEX_PAGE_SIZE }, { signal });
+  if (!firstPage.next || firstPage.count <= firstPage.results.length) return firstPage.results;
+
+  const rest = await client.listPokemon({ limit: firstPage.count - firstPage.results.length, offset: firstPage.results.length }, { signal });
+  return [...firstPage.results, ...rest.results];
+}
+
+/**
+ * Fetches an evolution chain with the sprite of every stage
+ * A stage whose Pokemon fails to load keeps its place in the tree without a sprite.
+ *
+ * @param chainUrl - The species' `evolution_chain` URL
+ * @param options - Configuration options
+ * @returns Promise resolving to the root stage of the tree
+ */
+export async function fetchEvolutionTree(chainUrl: string, options: FetchPokemonDetailsOptions = {}): Promise<EvolutionStage> {
+  const { client = defaultPokeApiClient, signal } = options;
+
+  const chain = await client.getEvolutionChain(chainUrl, { signal });
+
+  return buildEvolutionTree(chain.chain, async (species) => {
+    const url = client.resourceUrl("pokemon", getSpeciesId(species));
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), requestTimeout);
+      const pokemon = await client.getPokemon(url, { signal });
+      return { url, image: getCardSprite(pokemon.sprites) };
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.error(`Failed to load evolution stage ${species.name}:`, err);
+      return { url, image: null };
+    }
+  });
+}
 
-      const detailResponse = await fetch(pokemon.url, { signal: controller.signal });
-      clearTimeout(timeoutId);
+/**
+ * Fetches the defensive type chart for a type combination
+ *
+ * @param types - Names of the defending Pokemon's types
+ * @param options - Configuration options
+ * @returns Promise resolving to the damage multiplier taken from each attacking type
+ */
+export async function fetchTypeMultipliers(types: string[], options: FetchPokemonDetailsOptions = {}): Promise<TypeMultipliers> {
+  const { client = defaultPokeApiClient, signal } = options;
 
-      const details: Pokemon = await detailResponse.json();
-      return {
-        name: pokemon.name,
-        url: pokemon.url,
-        image: details.sprites.front_default,
-        isLoading: false,
-      };
+  const typeData = await Promise.all(types.map((type) => client.getType(type, { signal })));
+  return getDefensiveMultipliers(typeData);
+}
+
+/**
+ * Fetches the full type chart from every type's damage relations
+ * Type responses are persisted by the client, so after the first load this works offline.
+ *
+ * @param options - Configuration options
+ * @returns Promise resolving to the attacking x defending multiplier chart
+ */
+export async function fetchTypeChart(options: FetchPokemonDetailsOptions = {}): Promise<TypeChart> {
+  const { client = defaultPokeApiClient, signal } = options;
+
+  const types = await Promise.all(POKEMON_TYPES.map((type) => client.getType(type, { signal })));
+  return buildTypeChart(types);
+}
+
+/**
+ * Fetches the data of every team member
+ *
+ * @param names - Member names, as stored in the team
+ * @param options - Configuration options
+ * @returns Promise resolving to the members in team order
+ */
+export async function fetchTeamMembers(names: string[], options: FetchPokemonDetailsOptions = {}): Promise<Pokemon[]> {
+  const { client = defaultPokeApiClient, signal } = options;
+
+  return Promise.all(names.map((name) => client.getPokemon(name, { signal })));
+}
+
+/**
+ * Options of loads that go through every Pokemon: the stats index and the offline download
+ */
+export interface FetchAllPokemonOptions extends FetchPokemonDetailsOptions {
+  requestTimeout?: number;
+  /** Reports how many Pokemon have loaded so far */
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Builds the stats index from every Pokemon's details
+ * Details are loaded a few at a time, bypassing the response cache, and only their
+ * stats are kept. A Pokemon that fails to load is left out of the index rather
+ * than failing the whole build.
+ *
+ * @param options - Configuration options and progress callback
+ * @returns Promise resolving to the index of every Pokemon that loaded
+ */
+export async function fetchStatsIndex(options: FetchAllPokemonOptions = {}): Promise<StatsIndex> {
+  const { client = defaultPokeApiClient, requestTimeout = 10000, signal, onProgress } = options;
+
+  const index = await fetchPokemonIndex({ client, signal });
+  let loaded = 0;
+  onProgress?.(loaded, index.length);
+
+  const stats = await mapWithConcurrency(index, FILTER_CONCURRENCY, async (entry) => {
+    try {
+      const { stats } = await client.getPokemon(entry.url, { timeout: requestTimeout, signal, cache: false });
+      return { stats };
     } catch (err) {
-      // Individual Pokemon failure - return without image
-      console.error(`Failed to load details for ${pokemon.name}:`, err);
-      return {
-        name: pokemon.name,
-        url: pokemon.url,
-        image: null,
-        isLoading: false,
-      };
+      if (isAbortError(err)) throw err;
+      console.error(`Failed to load stats for ${entry.name}:`, err);
+      return null;
+    } finally {
+      onProgress?.(++loaded, index.length);
     }
   });
+  signal?.throwIfAborted();
 
-  // Wait for all requests to complete (in parallel)
-  const results = await Promise.allSettled(detailPromises);
+  return buildStatsIndex(stats.filter((entry) => entry !== null));
+}
 
-  // Extract successful results
-  const pokemonWithImages = results.filter((result) => result.status === "fulfilled").map((result) => (result as PromiseFulfilledResult<PokemonWithImage>).value);
+export interface DownloadPokedexResult {
+  /** Pokemon whose details and species were saved */
+  downloaded: number;
+  /** Pokemon that failed to load and won't be available offline */
+  failed: number;
+}
+
+/**
+ * Requests the full list and every Pokemon's details and species, so the service
+ * worker caches them for offline use (see utils/offline.ts)
+ * Requests bypass the response cache, so each one reaches the service worker without
+ * filling memory. A Pokemon that fails to load is counted and skipped rather than
+ * failing the download.
+ *
+ * @param options - Configuration options and progress callback
+ * @returns Promise resolving to how many Pokemon were downloaded and how many failed
+ */
+export async function downloadPokedex(options: FetchAllPokemonOptions = {}): Promise<DownloadPokedexResult> {
+  const { client = defaultPokeApiClient, requestTimeout = 10000, signal, onProgress } = options;
+
+  const index = await fetchPokemonIndex({ client, signal });
+  let loaded = 0;
+  let failed = 0;
+  onProgress?.(loaded, index.length);
+
+  await mapWithConcurrency(index, OFFLINE_CONCURRENCY, async (entry) => {
+    try {
+      const pokemon = await client.getPokemon(entry.url, { timeout: requestTimeout, signal, cache: false });
+      await client.getSpecies(pokemon.species.url, { timeout: requestTimeout, signal, cache: false });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      failed++;
+      console.error(`Failed to download ${entry.name}:`, err);
+    } finally {
+      onProgress?.(++loaded, index.length);
+    }
+  });
+  signal?.throwIfAborted();
+
+  return { downloaded: index.length - failed, failed };
+}
+
+export interface FetchMovesOptions extends FetchPokemonDetailsOptions {
+  /** Called as each move loads, so its row can fill in before the rest */
+  onMoveLoaded?: (move: MoveData) => void;
+}
+
+/**
+ * Loads move details with bounded concurrency
+ * A move that fails to load is left out, so one bad move can't blank the whole table.
+ *
+ * @param moves - Moves to load, e.g. the rows of the learnset on screen
+ * @returns Promise resolving to the moves that loaded, in order
+ */
+export async function fetchMoves(moves: NamedAPIResource[], options: FetchMovesOptions = {}): Promise<MoveData[]> {
+  const { client = defaultPokeApiClient, signal, onMoveLoaded } = options;
+
+  const loaded = await mapWithConcurrency(moves, MOVE_CONCURRENCY, async (move) => {
+    const data = await loadOptionalSection(`move ${move.name}`, () => client.getMove(move.url, { signal }));
+    if (data && !signal?.aborted) onMoveLoaded?.(data);
+    return data;
+  });
+  signal?.throwIfAborted();
+
+  return loaded.filter((move): move is MoveData => move !== null);
+}
+
+export interface FetchAbilityOptions extends FetchPokemonDetailsOptions {
+  /** Language of the effect text; falls back to English */
+  language?: string;
+}
+
+/**
+ * Loads an ability's effect text and the Pokemon that can have it
+ */
+export async function fetchAbilityDetails(name: string, options: FetchAbilityOptions = {}): Promise<AbilityDetails> {
+  const { client = defaultPokeApiClient, signal, language = DEFAULT_LANGUAGE } = options;
+
+  const data = await client.getAbility(name, { signal });
+  const entry = findLocalized(data.effect_entries, language);
+
+  return {
+    name: data.name,
+    shortEffect: entry?.short_effect ?? "",
+    effect: entry?.effect ?? "No effect description available",
+    pokemon: data.pokemon.map(({ pokemon, is_hidden }) => ({ name: pokemon.name, url: pokemon.url, isHidden: is_hidden })),
+  };
+}
+
+/**
+ * Loads the Pokemon a Showdown species name refers to
+ * Showdown writes base formes as the plain species name (Urshifu, Giratina, Aegislash),
+ * which PokeAPI only knows as a species, so a 404 falls back to the species' default variety.
+ */
+async function getShowdownPokemon(client: PokeApiClient, species: string, signal?: AbortSignal): Promise<Pokemon> {
+  const name = toApiName(species);
+  try {
+    return await client.getPokemon(name, { signal });
+  } catch (err) {
+    if (!(err instanceof HttpStatusError && err.status === 404)) throw err;
+    const { varieties } = await client.getSpecies(name, { signal });
+    const variety = varieties.find((entry) => entry.is_default) ?? varieties[0];
+    if (!variety) throw err;
+    return client.getPokemon(variety.pokemon.url, { signal });
+  }
+}
+
+export interface ShowdownImport {
+  /** Validated sets keyed by the PokeAPI name of their species, in paste order */
+  members: { name: string; set: ShowdownSet }[];
+  /** Problems found, by line; nothing should be imported while there are any */
+  errors: ShowdownIssue[];
+}
+
+/**
+ * Parses a Showdown paste and validates every species and ability against PokeAPI
+ *
+ * @param text - Pasted Showdown export
+ * @param options - Configuration options
+ * @returns Promise resolving to the validated members and every problem found, by line
+ */
+export async function importShowdownTeam(text: string, options: FetchPokemonDetailsOptions = {}): Promise<ShowdownImport> {
+  const { client = defaultPokeApiClient, signal } = options;
+  const { sets, errors } = parseShowdown(text);
+
+  if (sets.length === 0 && errors.length === 0) errors.push({ line: 1, message: "Nothing to import" });
+  sets.slice(TEAM_SIZE).forEach((extra) => errors.push({ line: extra.speciesLine, message: `A team has at most ${TEAM_SIZE} Pokémon` }));
+
+  const members = await Promise.all(
+    sets.slice(0, TEAM_SIZE).map(async ({ set, speciesLine, abilityLine }) => {
+      let pokemon: Pokemon;
+      try {
+        pokemon = await getShowdownPokemon(client, set.species, signal);
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        const unknown = err instanceof HttpStatusError && err.status === 404;
+        errors.push({ line: speciesLine, message: unknown ? `Unknown species "${set.species}"` : `Couldn't check "${set.species}": ${describeError(err)}` });
+        return null;
+      }
+
+      const abilities = pokemon.abilities.map((entry) => entry.ability.name);
+      if (set.ability && !abilities.includes(toApiName(set.ability))) {
+        errors.push({ line: abilityLine, message: `${set.species} can't have ${set.ability} (possible: ${abilities.map(formatResourceName).join(", ")})` });
+      }
+      return { name: pokemon.name, set, speciesLine };
+    }),
+  );
 
-  return pokemonWithImages;
+  // Like addTeamMember, a team holds each Pokemon once
+  const seen = new Set<string>();
+  const unique = members.filter((member) => {
+    if (!member) return false;
+    if (seen.has(member.name)) {
+      errors.push({ line: member.speciesLine, message: `${member.set.species} is already on the team` });
+      return false;
+    }
+    seen.add(member.name);
+    return true;
+  });
+
+  return { members: unique.map(({ name, set }) => ({ name, set })), errors: errors.sort((a, b) => a.line - b.line) };
+}
+
+/**
+ * Loads a secondary part of the details view (a section, a move); a failure resolves to null so the rest still shows
+ */
+async function loadOptionalSection<T>(label: string, load: () => Promise<T>): Promise<T | null> {
+  try {
+    return await load();
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.error(`Failed to load ${label}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Fetches detailed Pokemon information including species description, evolution tree and type matchups
+ * A failed evolution chain or type chart leaves that section null instead of failing the details.
+ *
+ * @param id - Pokemon ID, name or detail API endpoint URL
+ * @param options - Configuration options
+ * @returns Promise resolving to the Pokemon with its cleaned-up description
+ */
+export async function fetchPokemonDetails(id: ResourceId, options: FetchPokemonDetailsOptions = {}): Promise<PokemonWithDescription> {
+  const { client = defaultPokeApiClient, signal } = options;
+
+  const data = await client.getPokemon(id, { signal });
+  const types = data.types.map((entry) => entry.type.name);
+  const [speciesData, matchups] = await Promise.all([
+    client.getSpecies(data.species.url, { signal }),
+    types.length ? loadOptionalSection(`the type chart of ${data.name}`, () => fetchTypeMultipliers(types, { client, signal })) : null,
+  ]);
+
+  // Find English description or fallback to first available
+  const description = findLocalized(speciesData.flavor_text_entries)?.flavor_text || "No description available";
+
+  const chainUrl = speciesData.evolution_chain?.url;
+  const evolution = chainUrl ? await loadOptionalSection(`the evolution chain of ${data.name}`, () => fetchEvolutionTree(chainUrl, { client, signal })) : null;
+
+  return {
+    ...data,
+    description: cleanFlavorText(description),
+    evolution,
+    matchups,
+    // Every language and game, so switching either needs no new request
+    flavorTexts: speciesData.flavor_text_entries.map((entry) => ({ text: cleanFlavorText(entry.flavor_text), language: entry.language.name, version: entry.version.name })),
+    localizedNames: Object.fromEntries(speciesData.names.map((entry) => [entry.language.name, entry.name])),
+  };
 }
 
 /**
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for list filters
+ */
+
+import { describe, it, expect } from "vitest";
+import { EMPTY_FILTERS, filtersFromSearchParams, filtersToSearchParams, matchesStatRanges, needsStats, sortPokemon } from "./pokemonFilters";
+import type { PokemonFilters } from "./pokemonFilters";
+import type { Pokemon } from "../types/pokemon";
+
+const BASE = "https://pokeapi.co/api/v2";
+
+const pokemon = (id: number, name: string, stats: Record<string, number>): Pokemon => ({
+  id,
+  name,
+  sprites: { front_default: null },
+  types: [],
+  abilities: [],
+  moves: [],
+  stats: Object.entries(stats).map(([stat, base_stat]) => ({ base_stat, effort: 0, stat: { name: stat, url: "" } })),
+  species: { name, url: `${BASE}/pokemon-species/${id}/` },
+});
+
+const entry = (p: Pokemon) => ({ name: p.name, url: `${BASE}/pokemon/${p.id}/` });
+
+const pikachu = pokemon(25, "pikachu", { hp: 35, attack: 55, speed: 90 });
+const snorlax = pokemon(143, "snorlax", { hp: 160, attack: 110, speed: 30 });
+const abra = pokemon(63, "abra", { hp: 25, attack: 20, speed: 90 });
+
+describe("Pokemon filters", () => {
+  it("should round-trip filters through query parameters", () => {
+    const filters: PokemonFilters = {
+      types: ["fire", "flying"],
+      generation: 1,
+      stats: { speed: { min: 100, max: null }, "special-attack": { min: 50, max: 120 } },
+      sort: "attack",
+      order: "desc",
+    };
+
+    const params = filtersToSearchParams(filters);
+    expect(params).toMatchObject({ types: "fire,flying", gen: "1", speed: "100-", "special-attack": "50-120", sort: "attack", order: "desc", hp: null });
+    expect(filtersFromSearchParams((name) => params[name] ?? null)).toEqual(filters);
+  });
+
+  it("should clear default filters from the URL and ignore malformed parameters", () => {
+    expect(Object.values(filtersToSearchParams(EMPTY_FILTERS)).every((value) => value === null)).toBe(true);
+
+    const params: Record<string, string> = { gen: "42", sort: "weight", order: "sideways", hp: "abc-" };
+    expect(filtersFromSearchParams((name) => params[name] ?? null)).toEqual(EMPTY_FILTERS);
+    expect(filtersFromSearchParams((name) => (name === "types" ? "flying,shadowy" : null)).types).toEqual(["flying"]);
+  });
+
+  it("should match inclusive stat ranges", () => {
+    expect(matchesStatRanges(pikachu, { speed: { min: 90, max: null }, hp: { min: null, max: 35 } })).toBe(true);
+    expect(matchesStatRanges(snorlax, { speed: { min: 90, max: null } })).toBe(false);
+    expect(matchesStatRanges(snorlax, {})).toBe(true);
+  });
+
+  it("should only need stats for stat ranges and stat sorts", () => {
+    expect(needsStats({ ...EMPTY_FILTERS, types: ["fire"], sort: "name" })).toBe(false);
+    expect(needsStats({ ...EMPTY_FILTERS, sort: "total" })).toBe(true);
+    expect(needsStats({ ...EMPTY_FILTERS, stats: { hp: { min: 10, max: null } } })).toBe(true);
+  });
+
+  it("should sort by stat, total, name and ID, breaking ties by ID", () => {
+    const entries = [snorlax, abra, pikachu].map(entry);
+    const details = new Map([snorlax, abra, pikachu].map((p) => [p.name, p]));
+    const names = (sorted: { name: string }[]) => sorted.map((p) => p.name);
+
+    expect(names(sortPokemon(entries, { sort: "id", order: "asc" }))).toEqual(["pikachu", "abra", "snorlax"]);
+    expect(names(sortPokemon(entries, { sort: "name", order: "desc" }))).toEqual(["snorlax", "pikachu", "abra"]);
+    expect(names(sortPokemon(entries, { sort: "speed", order: "desc" }, details))).toEqual(["pikachu", "abra", "snorlax"]);
+    expect(names(sortPokemon(entries, { sort: "total", order: "asc" }, details))).toEqual(["abra", "pikachu", "snorlax"]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Pokemon List Filters
+ *
+ * Filter and sort state for the Filter list mode, its query-string encoding,
+ * and the pure matching and sorting logic. Fetching the data the filters need
+ * lives in pokemonFetcher.ts.
+ */
+
+import { POKEMON_TYPES } from "./pokemonTypes";
+import type { Pokemon, PokemonListItem } from "../types/pokemon";
+
+/**
+ * Base stats as the API names them
+ */
+export const STAT_NAMES = ["hp", "attack", "defense", "special-attack", "special-defense", "speed"] as const;
+
+export type StatName = (typeof STAT_NAMES)[number];
+
+export type SortKey = "id" | "name" | "total" | StatName;
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Inclusive bounds; `null` leaves that side open
+ */
+export interface StatRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface PokemonFilters {
+  /** A Pokemon must have every listed type */
+  types: string[];
+  generation: number | null;
+  stats: Partial<Record<StatName, StatRange>>;
+  sort: SortKey;
+  order: SortOrder;
+}
+
+export const EMPTY_FILTERS: PokemonFilters = { types: [], generation: null, stats: {}, sort: "id", order: "asc" };
+
+/**
+ * Number of generations the generation filter offers
+ */
+export const GENERATION_COUNT = 9;
+
+const SORT_KEYS: SortKey[] = ["id", "name", "total", ...STAT_NAMES];
+
+/**
+ * Reads the numeric ID at the end of a resource URL, e.g. `/pokemon/25/`
+ */
+export function getResourceIdFromUrl(url: string): number | null {
+  const match = url.match(/\/(\d+)\/?$/);
+  return match ? Number(match[1]) : null;
+}
+
+export function getBaseStat(pokemon: Pick<Pokemon, "stats">, stat: StatName): number {
+  return pokemon.stats.find((entry) => entry.stat.name === stat)?.base_stat ?? 0;
+}
+
+export function getStatTotal(pokemon: Pick<Pokemon, "stats">): number {
+  return pokemon.stats.reduce((total, entry) => total + entry.base_stat, 0);
+}
+
+/**
+ * True when matching or sorting needs each candidate's base stats, i.e. a detail request per Pokemon
+ */
+export function needsStats(filters: PokemonFilters): boolean {
+  const hasRange = Object.values(filters.stats).some((range) => range && (range.min !== null || range.max !== null));
+  return hasRange || (filters.sort !== "id" && filters.sort !== "name");
+}
+
+export function matchesStatRanges(pokemon: Pick<Pokemon, "stats">, stats: PokemonFilters["stats"]): boolean {
+  return (Object.entries(stats) as [StatName, StatRange][]).every(([stat, range]) => {
+    const value = getBaseStat(pokemon, stat);
+    return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+  });
+}
+
+/**
+ * Sorts list entries by `filters.sort`; `details` supplies the stats for stat and total sorts
+ * Ties fall back to National Dex order so the result is stable across reloads.
+ */
+export function sortPokemon(entries: PokemonListItem[], filters: Pick<PokemonFilters, "sort" | "order">, details: Map<string, Pick<Pokemon, "stats">> = new Map()): PokemonListItem[] {
+  const id = (entry: PokemonListItem) => getResourceIdFromUrl(entry.url) ?? Number.MAX_SAFE_INTEGER;
+  const value = (entry: PokemonListItem): number | string => {
+    if (filters.sort === "id") return id(entry);
+    if (filters.sort === "name") return entry.name;
+    const pokemon = details.get(entry.name);
+    if (!pokemon) return 0;
+    return filters.sort === "total" ? getStatTotal(pokemon) : getBaseStat(pokemon, filters.sort);
+  };
+  const direction = filters.order === "desc" ? -1 : 1;
+
+  return [...entries].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    const compared = typeof left === "string" ? left.localeCompare(right as string) : left - (right as number);
+    return compared * direction || id(a) - id(b);
+  });
+}
+
+const formatRange = (range: StatRange | undefined) => (range && (range.min !== null || range.max !== null) ? `${range.min ?? ""}-${range.max ?? ""}` : null);
+
+const parseBound = (value: string) => (value.trim() === "" || !Number.isFinite(Number(value)) ? null : Number(value));
+
+/**
+ * Query parameters for the filters, e.g. `?types=fire,flying&gen=1&speed=100-&sort=attack&order=desc`
+ * Defaults map to `null` so passing the result to `setSearchParams` clears them from the URL.
+ */
+export function filtersToSearchParams(filters: PokemonFilters): Record<string, string | null> {
+  const params: Record<string, string | null> = {
+    types: filters.types.length ? filters.types.join(",") : null,
+    gen: filters.generation === null ? null : String(filters.generation),
+    sort: filters.sort === EMPTY_FILTERS.sort ? null : filters.sort,
+    order: filters.order === EMPTY_FILTERS.order ? null : filters.order,
+  };
+  for (const stat of STAT_NAMES) params[stat] = formatRange(filters.stats[stat]);
+  return params;
+}
+
+/**
+ * Reads filters back from query parameters, ignoring anything malformed
+ */
+export function filtersFromSearchParams(getParam: (name: string) => string | null): PokemonFilters {
+  // An unknown type (a typo, a stale link) is dropped rather than failing the list with a 404
+  const types = getParam("types")?.split(",").filter((type) => POKEMON_TYPES.includes(type)) ?? [];
+  const generation = Number(getParam("gen"));
+  const sort = getParam("sort") as SortKey;
+
+  const stats: PokemonFilters["stats"] = {};
+  for (const stat of STAT_NAMES) {
+    const [min, max] = getParam(stat)?.split("-") ?? [];
+    const range = { min: parseBound(min ?? ""), max: parseBound(max ?? "") };
+    if (range.min !== null || range.max !== null) stats[stat] = range;
+  }
+
+  return {
+    types,
+    generation: Number.isInteger(generation) && generation >= 1 && generation <= GENERATION_COUNT ? generation : null,
+    stats,
+    sort: SORT_KEYS.includes(sort) ? sort : EMPTY_FILTERS.sort,
+    order: getParam("order") === "desc" ? "desc" : "asc",
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for Pokemon name search
+ */
+
+import { describe, it, expect } from "vitest";
+import { searchPokemon, editDistance } from "./pokemonSearch";
+
+const index = ["pikachu", "pichu", "raichu", "charmander", "charmeleon", "charizard", "mr-mime", "pidgey", "pidgeotto"].map((name, i) => ({
+  name,
+  url: `https://pokeapi.co/api/v2/pokemon/${i + 1}/`,
+}));
+
+const names = (query: string, limit?: number) => searchPokemon(index, query, limit).map((p) => p.name);
+
+describe("Pokemon search", () => {
+  it("should rank exact and prefix matches first", () => {
+    expect(names("pi")).toEqual(["pichu", "pidgey", "pikachu", "pidgeotto"]);
+    expect(names("charmander")[0]).toBe("charmander");
+  });
+
+  it("should rank prefix matches above substring matches", () => {
+    expect(names("chu")).toEqual(["pichu", "raichu", "pikachu"]);
+  });
+
+  it("should tolerate typos in longer queries", () => {
+    expect(names("charzard")).toContain("charizard");
+    expect(names("pikachoo")).toContain("pikachu");
+  });
+
+  it("should match letters in order", () => {
+    expect(names("chrzd")).toEqual(["charizard"]);
+  });
+
+  it("should normalize spaces and case", () => {
+    expect(names("Mr Mime")).toEqual(["mr-mime"]);
+  });
+
+  it("should return nothing for an empty query and respect the limit", () => {
+    expect(names("  ")).toEqual([]);
+    expect(names("p", 2)).toHaveLength(2);
+  });
+
+  it("should compute edit distance", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Pokemon Name Search
+ *
+ * Ranks entries of the name index against a search query. Results are tiered:
+ * exact name, prefix, substring, prefix with typos, then in-order letters
+ * (e.g. "chrzd" for charizard). Within a tier, shorter names rank first.
+ */
+
+import type { PokemonListItem } from "../types/pokemon";
+
+enum MatchTier {
+  Exact,
+  Prefix,
+  Substring,
+  TypoPrefix,
+  Subsequence,
+}
+
+/**
+ * Lower-cases and hyphenates a query so "mr mime" finds "mr-mime"
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/[\s_.]+/g, "-");
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function isSubsequence(query: string, name: string): boolean {
+  let position = 0;
+  for (const char of name) {
+    if (char === query[position]) position++;
+    if (position === query.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Typos tolerated for a query of this length: none for very short queries
+ */
+function allowedTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 7 ? 1 : 2;
+}
+
+function matchTier(query: string, name: string): MatchTier | null {
+  if (name === query) return MatchTier.Exact;
+  if (name.startsWith(query)) return MatchTier.Prefix;
+  if (name.includes(query)) return MatchTier.Substring;
+
+  const typos = allowedTypos(query.length);
+  if (typos > 0 && editDistance(query, name.slice(0, query.length)) <= typos) return MatchTier.TypoPrefix;
+  if (query.length >= 3 && isSubsequence(query, name)) return MatchTier.Subsequence;
+
+  return null;
+}
+
+/**
+ * Returns the best matches for `query` from the name index
+ *
+ * @param index - Every Pokemon name, e.g. from fetchPokemonIndex
+ * @param query - Raw text from the search box
+ * @param limit - Maximum number of suggestions
+ */
+export function searchPokemon(index: PokemonListItem[], query: string, limit = 8): PokemonListItem[] {
+  const normalized = normalizeQuery(query);
+  if (!normalized) return [];
+
+  const matches: { item: PokemonListItem; tier: MatchTier }[] = [];
+  for (const item of index) {
+    const tier = matchTier(normalized, item.name);
+    if (tier !== null) matches.push({ item, tier });
+  }
+
+  return matches
+    .sort((a, b) => a.tier - b.tier || a.item.name.length - b.item.name.length || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit)
+    .map((match) => match.item);
+}
@@ -0,0 +1,35 @@
+/**
+ * Pokemon Types
+ *
+ * The 18 battle types with their badge colours, shared by every component that shows types.
+ */
+
+const TYPE_COLORS: Record<string, string> = {
+  normal: "#A8A878",
+  fire: "#F08030",
+  water: "#6890F0",
+  electric: "#F8D030",
+  grass: "#78C850",
+  ice: "#98D8D8",
+  fighting: "#C03028",
+  poison: "#A040A0",
+  ground: "#E0C068",
+  flying: "#A890F0",
+  psychic: "#F85888",
+  bug: "#A8B820",
+  rock: "#B8A038",
+  ghost: "#705898",
+  dragon: "#7038F8",
+  dark: "#705848",
+  steel: "#B8B8D0",
+  fairy: "#EE99AC",
+};
+
+/**
+ * Type names as the API spells them, in the games' usual order
+ */
+export const POKEMON_TYPES = Object.keys(TYPE_COLORS);
+
+export function getTypeColor(type: string): string {
+  return TYPE_COLORS[type] || "#777";
+}
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the response cache
+ *
+ * These tests validate TTL expiry, persistence and in-flight request deduplication.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ResponseCache, LocalStorageCacheStore } from "./responseCache";
+
+describe("ResponseCache", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should expire entries after their TTL", () => {
+    let now = 1000;
+    const cache = new ResponseCache({ now: () => now });
+
+    cache.set("key", { value: 1 }, 500);
+    expect(cache.get("key")).toEqual({ value: 1 });
+
+    now = 1500;
+    expect(cache.get("key")).toBeUndefined();
+  });
+
+  it("should restore persisted entries in a new cache instance", () => {
+    const first = new ResponseCache({ persistentStore: new LocalStorageCacheStore() });
+    first.set("persisted", "list", 60000, true);
+    first.set("memory-only", "details", 60000);
+
+    const second = new ResponseCache({ persistentStore: new LocalStorageCacheStore() });
+    expect(second.get("persisted")).toBe("list");
+    expect(second.get("memory-only")).toBeUndefined();
+  });
+
+  it("should share one in-flight request between concurrent callers", async () => {
+    const cache = new ResponseCache();
+    let resolve: (value: string) => void;
+    const factory = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+
+    const first = cache.dedupe("url", factory);
+    const second = cache.dedupe("url", factory);
+    resolve!("data");
+
+    expect(await first).toBe("data");
+    expect(await second).toBe("data");
+    expect(factory).toHaveBeenCalledTimes(1);
+
+    // Once settled, the next call starts a new request
+    cache.dedupe("url", factory);
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only abort a shared request once every caller has aborted", async () => {
+    const cache = new ResponseCache();
+    let sharedSignal: AbortSignal;
+    const factory = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(() => {});
+    };
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const firstRequest = cache.dedupe("url", factory, first.signal);
+    const secondRequest = cache.dedupe("url", factory, second.signal);
+
+    first.abort();
+    await expect(firstRequest).rejects.toMatchObject({ name: "AbortError" });
+    expect(sharedSignal!.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondRequest).rejects.toMatchObject({ name: "AbortError" });
+    expect(sharedSignal!.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Response Cache
+ *
+ * In-memory cache for API responses with per-entry TTLs, an optional persistent
+ * layer (localStorage) that survives reloads, and request deduplication so
+ * concurrent requests for the same URL share one in-flight promise.
+ */
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Synchronous key/value store for cache entries
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  get(key: string): CacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Persists entries in localStorage under a key prefix
+ * Storage errors (quota, private mode, corrupt JSON) are treated as cache misses.
+ */
+export class LocalStorageCacheStore implements CacheStore {
+  constructor(
+    private readonly storage: Storage = window.localStorage,
+    private readonly prefix = "pokeapi-cache:",
+  ) {}
+
+  get(key: string): CacheEntry | undefined {
+    try {
+      const raw = this.storage.getItem(this.prefix + key);
+      return raw ? (JSON.parse(raw) as CacheEntry) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    try {
+      this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+    } catch (err) {
+      console.warn(`Failed to persist cache entry for ${key}:`, err);
+    }
+  }
+
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  clear(): void {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) keys.push(key);
+    }
+    keys.forEach((key) => this.storage.removeItem(key));
+  }
+}
+
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting on the request */
+  subscribers: number;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
+
+export interface ResponseCacheOptions {
+  /** Optional second-level store that survives page reloads */
+  persistentStore?: CacheStore;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+export class ResponseCache {
+  private readonly memory = new MemoryCacheStore();
+  private readonly persistentStore?: CacheStore;
+  private readonly now: () => number;
+  private readonly inFlight = new Map<string, InFlightRequest<unknown>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.persistentStore = options.persistentStore;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns a fresh cached value, checking memory first and then the persistent store
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.memory.get(key) ?? this.promote(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= this.now()) {
+      this.memory.delete(key);
+      this.persistentStore?.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  /**
+   * Stores a value for `ttl` milliseconds
+   * Only entries with `persist` set are written through to the persistent store,
+   * so large payloads don't exhaust the localStorage quota.
+   */
+  set<T>(key: string, value: T, ttl: number, persist = false): void {
+    const entry: CacheEntry<T> = { value, expiresAt: this.now() + ttl };
+    this.memory.set(key, entry);
+    if (persist) this.persistentStore?.set(key, entry);
+  }
+
+  /**
+   * Runs `factory` unless a request for `key` is already in flight, in which case
+   * the caller shares that request's promise
+   *
+   * Each caller may pass its own `signal`. Aborting it rejects only that caller;
+   * the shared request is aborted (through the signal handed to `factory`) once
+   * every caller waiting on it has aborted.
+   */
+  dedupe<T>(key: string, factory: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    let request = this.inFlight.get(key) as InFlightRequest<T> | undefined;
+    if (!request) {
+      const controller = new AbortController();
+      const entry: InFlightRequest<T> = {
+        controller,
+        subscribers: 0,
+        promise: factory(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === entry) this.inFlight.delete(key);
+        }),
+      };
+      this.inFlight.set(key, entry);
+      request = entry;
+    }
+
+    request.subscribers++;
+    if (!signal) return request.promise;
+
+    const shared = request;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+        }
+        reject(abortReason(signal));
+      };
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      shared.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  clear(): void {
+    this.memory.clear();
+    this.persistentStore?.clear();
+  }
+
+  private promote(key: string): CacheEntry | undefined {
+    const entry = this.persistentStore?.get(key);
+    if (entry) this.memory.set(key, entry);
+    return entry;
+  }
+}
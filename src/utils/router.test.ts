@@ -0,0 +1,32 @@
+/**
+ * Unit tests for client-side routes
+ */
+
+import { describe, it, expect } from "vitest";
+import { navigate, parseRoute, pokemonRoute, routePath } from "./router";
+
+describe("Router", () => {
+  it("should parse and build Pokemon and list paths", () => {
+    expect(parseRoute("/pokemon/mr-mime")).toEqual({ page: "pokemon", id: "mr-mime" });
+    expect(parseRoute("/pokemon/25/")).toEqual({ page: "pokemon", id: "25" });
+    expect(parseRoute("/list")).toEqual({ page: "list" });
+    expect(parseRoute("/")).toEqual({ page: "list" });
+    expect(routePath(pokemonRoute("https://pokeapi.co/api/v2/pokemon/25/"))).toBe("/pokemon/25");
+    expect(routePath(pokemonRoute("pikachu"))).toBe("/pokemon/pikachu");
+  });
+
+  it("should push one history entry per changed URL, keeping the query string", () => {
+    window.history.replaceState(null, "", "/list?seed=abc");
+    const length = window.history.length;
+
+    navigate({ page: "pokemon", id: "pikachu" });
+    navigate({ page: "pokemon", id: "pikachu" });
+
+    expect(window.history.length).toBe(length + 1);
+    expect(window.location.pathname + window.location.search).toBe("/pokemon/pikachu?seed=abc");
+
+    navigate({ page: "list" }, { seed: "xyz" });
+    expect(window.location.pathname + window.location.search).toBe("/list?seed=xyz");
+    window.history.replaceState(null, "", "/");
+  });
+});
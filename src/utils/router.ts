@@ -0,0 +1,57 @@
+/**
+ * Client-Side Routes
+ *
+ * The path says what is open: `/pokemon/:nameOrId` for a Pokemon's details and
+ * `/list` (or `/`) for the list alone. List state such as the seed stays in the
+ * query string (see urlState.ts), so both kinds of route can be shared as is.
+ * Route changes push history entries; back/forward is reported by `onRouteChange`.
+ */
+
+import { getResourceIdFromUrl } from "./pokemonFilters";
+
+export type Route = { page: "list" } | { page: "pokemon"; id: string };
+
+export function parseRoute(pathname: string): Route {
+  const match = pathname.match(/^\/pokemon\/([^/]+)\/?$/);
+  return match ? { page: "pokemon", id: decodeURIComponent(match[1]) } : { page: "list" };
+}
+
+export function routePath(route: Route): string {
+  return route.page === "pokemon" ? `/pokemon/${encodeURIComponent(route.id)}` : "/list";
+}
+
+export function getRoute(): Route {
+  return parseRoute(window.location.pathname);
+}
+
+/**
+ * Route for a Pokemon given by name or detail URL, e.g. `.../pokemon/25/` -> `/pokemon/25`
+ */
+export function pokemonRoute(nameOrUrl: string): Route {
+  const id = /^https?:\/\//.test(nameOrUrl) ? (getResourceIdFromUrl(nameOrUrl) ?? nameOrUrl.replace(/\/$/, "").split("/").pop()) : nameOrUrl;
+  return { page: "pokemon", id: String(id) };
+}
+
+/**
+ * Pushes a history entry for `route`, keeping the query string apart from `updates`
+ * A `null` update removes the parameter. Nothing is pushed if the URL would not change.
+ */
+export function navigate(route: Route, updates: Record<string, string | null> = {}): void {
+  const url = new URL(window.location.href);
+  url.pathname = routePath(route);
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === null) url.searchParams.delete(name);
+    else url.searchParams.set(name, value);
+  }
+  if (url.href !== window.location.href) window.history.pushState(null, "", url);
+}
+
+/**
+ * Calls `listener` when back/forward changes the route
+ * @returns A function that stops listening
+ */
+export function onRouteChange(listener: (route: Route) => void): () => void {
+  const handlePopState = () => listener(getRoute());
+  window.addEventListener("popstate", handlePopState);
+  return () => window.removeEventListener("popstate", handlePopState);
+}
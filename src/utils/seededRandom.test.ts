@@ -0,0 +1,29 @@
+/**
+ * Unit tests for seeded random numbers
+ */
+
+import { describe, it, expect } from "vitest";
+import { createSeededRandom, generateSeed } from "./seededRandom";
+
+describe("Seeded random", () => {
+  it("should produce the same sequence for the same seed", () => {
+    const first = createSeededRandom("abc");
+    const second = createSeededRandom("abc");
+
+    const sequence = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it("should produce different sequences for different seeds", () => {
+    expect(createSeededRandom("abc")()).not.toBe(createSeededRandom("abd")());
+  });
+
+  it("should generate six-character URL-safe seeds", () => {
+    expect(generateSeed(() => 0)).toBe("000000");
+    expect(generateSeed()).toMatch(/^[0-9a-z]{6}$/);
+  });
+});
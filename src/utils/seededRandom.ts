@@ -0,0 +1,47 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Deterministic replacement for Math.random() so a random Pokemon list can be
+ * reproduced (and shared) from a short seed string.
+ */
+
+/**
+ * Returns a random number generator in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a seed string to a 32-bit integer (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a mulberry32 generator: the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a short, URL-safe seed for a new random list
+ */
+export function generateSeed(random: RandomSource = Math.random): string {
+  return Math.floor(random() * 36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
+}
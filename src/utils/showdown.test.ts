@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the Showdown paste format
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseShowdown, serializeShowdown, toApiName, fromApiName } from "./showdown";
+
+const TEAM = `Wavecrash (Barraskewda) (F) @ Choice Band
+Ability: Swift Swim
+Level: 50
+Shiny: Yes
+EVs: 252 Atk / 4 SpD / 252 Spe
+Adamant Nature
+IVs: 0 SpA
+- Liquidation
+- Close Combat
+- Aqua Jet
+- Psychic Fangs
+
+Pelipper @ Damp Rock
+Ability: Drizzle
+EVs: 248 HP / 252 Def / 8 SpD
+Bold Nature
+- Hurricane
+- Scald
+- U-turn
+- Roost`;
+
+describe("Showdown paste format", () => {
+  it("should parse every field of a set", () => {
+    const { sets, errors } = parseShowdown(TEAM);
+
+    expect(errors).toEqual([]);
+    expect(sets).toHaveLength(2);
+    expect(sets[0].set).toEqual({
+      nickname: "Wavecrash",
+      species: "Barraskewda",
+      gender: "F",
+      item: "Choice Band",
+      ability: "Swift Swim",
+      level: 50,
+      shiny: true,
+      evs: { attack: 252, "special-defense": 4, speed: 252 },
+      nature: "Adamant",
+      ivs: { "special-attack": 0 },
+      moves: ["Liquidation", "Close Combat", "Aqua Jet", "Psychic Fangs"],
+    });
+    expect(sets[1]).toMatchObject({ speciesLine: 13, abilityLine: 14, set: { species: "Pelipper", item: "Damp Rock" } });
+  });
+
+  it("should round-trip a paste unchanged", () => {
+    const { sets } = parseShowdown(TEAM);
+    const serialized = serializeShowdown(sets.map((entry) => entry.set));
+
+    expect(serialized).toBe(TEAM);
+    expect(parseShowdown(serialized).sets).toEqual(sets);
+  });
+
+  it("should round-trip a bare species", () => {
+    const text = serializeShowdown([{ species: "Rotom-Wash", evs: {}, ivs: {}, moves: [] }]);
+
+    expect(text).toBe("Rotom-Wash");
+    expect(parseShowdown(text).sets[0].set).toEqual({ species: "Rotom-Wash", evs: {}, ivs: {}, moves: [] });
+  });
+
+  it("should report problems by line and keep parsing", () => {
+    const { sets, errors } = parseShowdown(
+      ["Garchomp @ Life Orb", "Ability: Rough Skin", "EVs: 252 Atk / 252 Spe / 100 HP", "IVs: 32 Atk / 10 Foo", "Spicy Nature", "Level: 101", "Wibble", "- Earthquake", "- Outrage", "- Swords Dance", "- Fire Fang", "- Stone Edge"].join("\n"),
+    );
+
+    expect(sets).toHaveLength(1);
+    expect(sets[0].set.moves).toHaveLength(4);
+    expect(errors).toEqual([
+      { line: 3, message: "EVs total 604, more than 510" },
+      { line: 4, message: "IVs for Atk must be at most 31" },
+      { line: 4, message: `Can't read IVs "10 Foo"` },
+      { line: 5, message: `Unknown nature "Spicy"` },
+      { line: 6, message: "Level must be between 1 and 100" },
+      { line: 7, message: `Can't read "Wibble"` },
+      { line: 12, message: "A Pokémon can know at most 4 moves" },
+    ]);
+  });
+
+  it("should convert between Showdown and PokeAPI names", () => {
+    expect(toApiName("Mr. Mime")).toBe("mr-mime");
+    expect(toApiName("Farfetch’d")).toBe("farfetchd");
+    expect(toApiName("Flabébé")).toBe("flabebe");
+    expect(toApiName("Swift Swim")).toBe("swift-swim");
+    expect(fromApiName("rotom-wash")).toBe("Rotom-Wash");
+  });
+});
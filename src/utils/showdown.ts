@@ -0,0 +1,247 @@
+/**
+ * Showdown Paste Format
+ *
+ * Parses and serializes the text format Pokemon Showdown uses for importing and
+ * exporting sets:
+ *
+ *   Nickname (Species) (F) @ Item
+ *   Ability: Swift Swim
+ *   EVs: 252 Atk / 4 SpD / 252 Spe
+ *   Adamant Nature
+ *   IVs: 0 SpA
+ *   - Waterfall
+ *
+ * Sets are separated by blank lines. Parsing is purely syntactic; checking species
+ * and abilities against PokeAPI happens in pokemonFetcher.ts (importShowdownTeam).
+ */
+
+import { STAT_NAMES } from "./pokemonFilters";
+import type { StatName } from "./pokemonFilters";
+
+export interface ShowdownSet {
+  /** Species as written, e.g. "Rotom-Wash" */
+  species: string;
+  nickname?: string;
+  gender?: "M" | "F";
+  item?: string;
+  ability?: string;
+  level?: number;
+  shiny?: boolean;
+  nature?: string;
+  evs: Partial<Record<StatName, number>>;
+  ivs: Partial<Record<StatName, number>>;
+  moves: string[];
+}
+
+/**
+ * A parsed set with the (1-based) lines its validated fields came from
+ */
+export interface ParsedShowdownSet {
+  set: ShowdownSet;
+  speciesLine: number;
+  abilityLine?: number;
+}
+
+export interface ShowdownIssue {
+  /** 1-based line number in the pasted text */
+  line: number;
+  message: string;
+}
+
+export interface ShowdownParseResult {
+  sets: ParsedShowdownSet[];
+  errors: ShowdownIssue[];
+}
+
+export const MAX_EV = 252;
+export const MAX_TOTAL_EVS = 510;
+export const MAX_IV = 31;
+export const MAX_MOVES = 4;
+
+export const NATURES = "Hardy Lonely Brave Adamant Naughty Bold Docile Relaxed Impish Lax Timid Hasty Serious Jolly Naive Modest Mild Quiet Bashful Rash Calm Gentle Sassy Careful Quirky".split(" ");
+
+/**
+ * Stat abbreviations used on the EVs/IVs lines
+ */
+export const STAT_ABBREVIATIONS: Record<StatName, string> = {
+  hp: "HP",
+  attack: "Atk",
+  defense: "Def",
+  "special-attack": "SpA",
+  "special-defense": "SpD",
+  speed: "Spe",
+};
+
+const STAT_BY_ABBREVIATION = new Map(STAT_NAMES.map((stat) => [STAT_ABBREVIATIONS[stat].toLowerCase(), stat]));
+
+/**
+ * Converts a Showdown name to a PokeAPI resource name, e.g. "Mr. Mime" -> "mr-mime", "Farfetch’d" -> "farfetchd"
+ */
+export function toApiName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // strip accents, e.g. "Flabébé"
+    .toLowerCase()
+    .replace(/[.'’:%]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+/**
+ * Converts a PokeAPI resource name to a Showdown-style name, e.g. "rotom-wash" -> "Rotom-Wash"
+ */
+export function fromApiName(name: string): string {
+  return name.replace(/(^|-)([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * Parses the first line: `Nickname (Species) (M) @ Item`, where everything but the species is optional
+ */
+function parseHeader(line: string): Pick<ShowdownSet, "species" | "nickname" | "gender" | "item"> {
+  let rest = line;
+  let item: string | undefined;
+  const at = rest.lastIndexOf(" @ ");
+  if (at !== -1) {
+    item = rest.slice(at + 3).trim() || undefined;
+    rest = rest.slice(0, at);
+  }
+
+  let gender: ShowdownSet["gender"];
+  const genderMatch = rest.match(/\s*\((M|F)\)\s*$/);
+  if (genderMatch) {
+    gender = genderMatch[1] as ShowdownSet["gender"];
+    rest = rest.slice(0, genderMatch.index);
+  }
+
+  const nicknameMatch = rest.match(/^(.*?)\s*\(([^()]+)\)\s*$/);
+  if (nicknameMatch && nicknameMatch[1]) {
+    return { nickname: nicknameMatch[1].trim(), species: nicknameMatch[2].trim(), gender, item };
+  }
+  return { species: rest.trim(), gender, item };
+}
+
+/**
+ * Parses `252 Atk / 4 SpD / 252 Spe`, reporting malformed or out-of-range entries
+ */
+function parseSpread(value: string, max: number, label: string, line: number, errors: ShowdownIssue[]): Partial<Record<StatName, number>> {
+  const spread: Partial<Record<StatName, number>> = {};
+
+  for (const part of value.split("/")) {
+    const match = part.trim().match(/^(\d+)\s+(\w+)$/);
+    const stat = match && STAT_BY_ABBREVIATION.get(match[2].toLowerCase());
+    if (!match || !stat) {
+      errors.push({ line, message: `Can't read ${label} "${part.trim()}"` });
+      continue;
+    }
+
+    const amount = Number(match[1]);
+    if (amount > max) errors.push({ line, message: `${label} for ${STAT_ABBREVIATIONS[stat]} must be at most ${max}` });
+    spread[stat] = amount;
+  }
+
+  return spread;
+}
+
+/**
+ * Parses a Showdown paste into sets, collecting problems per line instead of stopping at the first one
+ */
+export function parseShowdown(text: string): ShowdownParseResult {
+  const sets: ParsedShowdownSet[] = [];
+  const errors: ShowdownIssue[] = [];
+  let current: ParsedShowdownSet | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+
+    if (!line) {
+      current = null;
+      return;
+    }
+
+    if (!current) {
+      const header = parseHeader(line);
+      if (!header.species) {
+        errors.push({ line: lineNumber, message: "Missing species" });
+        return;
+      }
+      current = { set: { ...header, evs: {}, ivs: {}, moves: [] }, speciesLine: lineNumber };
+      sets.push(current);
+      return;
+    }
+
+    const { set } = current;
+    const [key, ...valueParts] = line.split(":");
+    const value = valueParts.join(":").trim();
+
+    if (line.startsWith("-")) {
+      const move = line.slice(1).trim();
+      if (set.moves.length >= MAX_MOVES) errors.push({ line: lineNumber, message: `A Pokémon can know at most ${MAX_MOVES} moves` });
+      else if (move) set.moves.push(move);
+    } else if (/\s+Nature$/i.test(line)) {
+      const nature = NATURES.find((entry) => entry.toLowerCase() === line.replace(/\s+Nature$/i, "").trim().toLowerCase());
+      if (nature) set.nature = nature;
+      else errors.push({ line: lineNumber, message: `Unknown nature "${line.replace(/\s+Nature$/i, "").trim()}"` });
+    } else if (valueParts.length === 0) {
+      errors.push({ line: lineNumber, message: `Can't read "${line}"` });
+    } else {
+      switch (key.trim().toLowerCase()) {
+        case "ability":
+          set.ability = value;
+          current.abilityLine = lineNumber;
+          break;
+        case "level": {
+          const level = Number(value);
+          if (Number.isInteger(level) && level >= 1 && level <= 100) set.level = level;
+          else errors.push({ line: lineNumber, message: `Level must be between 1 and 100` });
+          break;
+        }
+        case "shiny":
+          set.shiny = value.toLowerCase() === "yes";
+          break;
+        case "evs": {
+          set.evs = parseSpread(value, MAX_EV, "EVs", lineNumber, errors);
+          const total = Object.values(set.evs).reduce((sum, amount) => sum + amount, 0);
+          if (total > MAX_TOTAL_EVS) errors.push({ line: lineNumber, message: `EVs total ${total}, more than ${MAX_TOTAL_EVS}` });
+          break;
+        }
+        case "ivs":
+          set.ivs = parseSpread(value, MAX_IV, "IVs", lineNumber, errors);
+          break;
+        default:
+          // Fields this dashboard doesn't model (Tera Type, Happiness, Hidden Power, ...) are skipped
+          break;
+      }
+    }
+  });
+
+  return { sets, errors };
+}
+
+const formatSpread = (spread: Partial<Record<StatName, number>>) =>
+  STAT_NAMES.filter((stat) => spread[stat] !== undefined)
+    .map((stat) => `${spread[stat]} ${STAT_ABBREVIATIONS[stat]}`)
+    .join(" / ");
+
+/**
+ * Serializes sets back to a Showdown paste, with the field order Showdown itself exports
+ */
+export function serializeShowdown(sets: ShowdownSet[]): string {
+  return sets
+    .map((set) => {
+      let header = set.nickname ? `${set.nickname} (${set.species})` : set.species;
+      if (set.gender) header += ` (${set.gender})`;
+      if (set.item) header += ` @ ${set.item}`;
+
+      const lines = [header];
+      if (set.ability) lines.push(`Ability: ${set.ability}`);
+      if (set.level !== undefined) lines.push(`Level: ${set.level}`);
+      if (set.shiny) lines.push("Shiny: Yes");
+      if (formatSpread(set.evs)) lines.push(`EVs: ${formatSpread(set.evs)}`);
+      if (set.nature) lines.push(`${set.nature} Nature`);
+      if (formatSpread(set.ivs)) lines.push(`IVs: ${formatSpread(set.ivs)}`);
+      for (const move of set.moves) lines.push(`- ${move}`);
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
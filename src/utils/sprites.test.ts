@@ -0,0 +1,50 @@
+/**
+ * Unit tests for sprite selection
+ */
+
+import { describe, it, expect } from "vitest";
+import { getCardSprite, getSpriteSources, resolveSprite } from "./sprites";
+import { getTranslator } from "./i18n";
+import type { PokemonSprites } from "../types/pokemon";
+
+const sprites: PokemonSprites = {
+  front_default: "front.png",
+  front_shiny: "front-shiny.png",
+  back_default: "back.png",
+  back_shiny: null,
+  other: {
+    "official-artwork": { front_default: "artwork.png", front_shiny: "artwork-shiny.png" },
+    home: { front_default: null, front_shiny: null },
+  },
+  versions: {
+    "generation-i": { "red-blue": { front_default: "rb.png", back_default: "rb-back.png" }, yellow: { front_default: null } },
+    "generation-viii": { icons: { front_default: "icon.png" } },
+  },
+};
+
+describe("Sprites", () => {
+  it("should list only the sources that have sprites", () => {
+    const t = getTranslator("en");
+    expect(getSpriteSources(sprites).map(({ key, label, params }) => ({ key, label: t(label, params) }))).toEqual([
+      { key: "official-artwork", label: "Official artwork" },
+      { key: "default", label: "Default" },
+      { key: "generation-i/red-blue", label: "Gen I: Red Blue" },
+    ]);
+  });
+
+  it("should pick the requested sprite, falling back to the next best one", () => {
+    expect(resolveSprite(sprites, { source: "generation-i/red-blue", shiny: false, back: true })).toBe("rb-back.png");
+    // Red/Blue had no shinies: keep the side, drop the shine
+    expect(resolveSprite(sprites, { source: "generation-i/red-blue", shiny: true, back: true })).toBe("rb-back.png");
+    // Artwork has no back: the front of the same source comes first
+    expect(resolveSprite(sprites, { source: "official-artwork", shiny: true, back: true })).toBe("artwork-shiny.png");
+    // Nothing for Yellow or HOME: the default sprites take over
+    expect(resolveSprite(sprites, { source: "generation-i/yellow", shiny: false, back: false })).toBe("front.png");
+    expect(resolveSprite(sprites, { source: "home", shiny: true, back: true })).toBe("back.png");
+  });
+
+  it("should fall back to the artwork when a card has no default sprite", () => {
+    expect(getCardSprite({ ...sprites, front_default: null, front_shiny: null, back_default: null })).toBe("artwork.png");
+    expect(getCardSprite({ front_default: null })).toBeNull();
+  });
+});
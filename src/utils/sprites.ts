@@ -0,0 +1,98 @@
+/**
+ * Sprites
+ *
+ * Picks a sprite URL out of the many PokeAPI offers. A source is either one of the
+ * modern styles ("official-artwork", "home", "showdown"), the default sprites, or a
+ * game, keyed "generation/version-group" (e.g. "generation-i/red-blue"). Most
+ * Pokemon lack some sprites, so every lookup falls back to the next best one.
+ */
+
+import { formatResourceName } from "./evolution";
+import type { PokemonSprites, SpriteSet } from "../types/pokemon";
+import type { MessageKey } from "./i18n";
+
+export interface SpriteOptions {
+  source: string;
+  shiny: boolean;
+  back: boolean;
+}
+
+export interface SpriteSource {
+  key: string;
+  /** Message to translate for the source's name (see utils/i18n.ts) */
+  label: MessageKey;
+  params: Record<string, string>;
+}
+
+export const DEFAULT_SPRITE_OPTIONS: SpriteOptions = { source: "official-artwork", shiny: false, back: false };
+
+const STYLE_LABELS: Record<string, MessageKey> = {
+  "official-artwork": "spriteOfficialArtwork",
+  home: "spriteHome",
+  showdown: "spriteShowdown",
+  default: "spriteDefault",
+};
+
+// Per-game entries that aren't a game's sprites
+const NON_GAME_SPRITES = ["icons"];
+
+export function getSpriteSet(sprites: PokemonSprites, source: string): SpriteSet | undefined {
+  if (source === "default") return sprites;
+  if (source === "official-artwork" || source === "home" || source === "showdown") return sprites.other?.[source];
+  const [generation, versionGroup] = source.split("/");
+  return sprites.versions?.[generation]?.[versionGroup];
+}
+
+const hasAnySprite = (set: SpriteSet | undefined) => Boolean(set && Object.values(set).some(Boolean));
+
+/**
+ * "generation-iv/diamond-pearl" -> the source labelled "Gen IV: Diamond Pearl"
+ */
+function formatGameSource(generation: string, versionGroup: string): SpriteSource {
+  return {
+    key: `${generation}/${versionGroup}`,
+    label: "spriteGame",
+    params: { generation: generation.replace("generation-", "").toUpperCase(), game: formatResourceName(versionGroup) },
+  };
+}
+
+/**
+ * The sources with at least one sprite for this Pokemon: modern styles first, then games oldest first
+ */
+export function getSpriteSources(sprites: PokemonSprites): SpriteSource[] {
+  const styles = Object.keys(STYLE_LABELS)
+    .filter((key) => hasAnySprite(getSpriteSet(sprites, key)))
+    .map((key) => ({ key, label: STYLE_LABELS[key], params: {} }));
+
+  const games = Object.entries(sprites.versions ?? {}).flatMap(([generation, groups]) =>
+    Object.entries(groups)
+      .filter(([versionGroup, set]) => !NON_GAME_SPRITES.includes(versionGroup) && hasAnySprite(set))
+      .map(([versionGroup]) => formatGameSource(generation, versionGroup)),
+  );
+
+  return [...styles, ...games];
+}
+
+/**
+ * The sprite closest to what was asked for
+ *
+ * Within the chosen source, the side (front/back) is kept before shininess. After that
+ * come the default sprites, then the official artwork and HOME renders.
+ *
+ * @returns The URL, or null if the Pokemon has no sprite at all
+ */
+export function resolveSprite(sprites: PokemonSprites, { source, shiny, back }: SpriteOptions): string | null {
+  const side = back ? "back" : "front";
+  const fromSet = (set: SpriteSet | undefined) =>
+    set ? [shiny ? set[`${side}_shiny`] : null, set[`${side}_default`], shiny ? set.front_shiny : null, set.front_default] : [];
+
+  const candidates = [...fromSet(getSpriteSet(sprites, source)), ...fromSet(sprites), sprites.other?.["official-artwork"]?.front_default, sprites.other?.home?.front_default];
+  return candidates.find((url): url is string => Boolean(url)) ?? null;
+}
+
+/**
+ * The sprite for small list and card images
+ */
+export function getCardSprite(sprites: PokemonSprites): string | null {
+  return resolveSprite(sprites, { source: "default", shiny: false, back: false });
+}
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for the stat calculator
+ */
+
+import { describe, it, expect } from "vitest";
+import { getTranslator } from "./i18n";
+import { calculateStat, calculateStats, DEFAULT_CALCULATOR_INPUT, formatNature, getNatureEffect, getStatRange, validateCalculatorInput } from "./statCalculator";
+
+// Garchomp's base stats
+const garchomp = { hp: 108, attack: 130, defense: 95, "special-attack": 80, "special-defense": 85, speed: 102 };
+
+describe("Stat calculator", () => {
+  it("should apply the official formulas with nature, IVs and EVs", () => {
+    // The games' own example: a level 78 Adamant Garchomp
+    const stats = calculateStats(garchomp, {
+      level: 78,
+      nature: "Adamant",
+      ivs: { hp: 24, attack: 12, defense: 30, "special-attack": 16, "special-defense": 23, speed: 5 },
+      evs: { hp: 74, attack: 190, defense: 91, "special-attack": 48, "special-defense": 84, speed: 23 },
+    });
+
+    expect(stats).toEqual({ hp: 289, attack: 278, defense: 193, "special-attack": 135, "special-defense": 171, speed: 171 });
+    expect(calculateStat("hp", 1, { level: 100, nature: "Hardy", iv: 31, ev: 252 })).toBe(1); // Shedinja
+  });
+
+  it("should read nature effects and show min/max ranges", () => {
+    expect(getNatureEffect("Timid")).toEqual({ increased: "speed", decreased: "attack" });
+    expect(getNatureEffect("Serious")).toEqual({ increased: null, decreased: null });
+    expect(formatNature("Modest")).toBe("Modest (+SpA, -Atk)");
+
+    expect(getStatRange("hp", 108, 100)).toEqual({ min: 326, max: 420 });
+    expect(getStatRange("speed", 102, 50)).toEqual({ min: 96, max: 169 });
+  });
+
+  it("should reject spreads beyond the games' limits", () => {
+    expect(validateCalculatorInput(DEFAULT_CALCULATOR_INPUT)).toEqual([]);
+
+    const errors = validateCalculatorInput({
+      ...DEFAULT_CALCULATOR_INPUT,
+      level: 101,
+      ivs: { ...DEFAULT_CALCULATOR_INPUT.ivs, speed: 32 },
+      evs: { hp: 252, attack: 256, defense: 4, "special-attack": 0, "special-defense": 0, speed: 0 },
+    });
+    expect(errors.map(({ key }) => key)).toEqual(["levelOutOfRange", "evsOutOfRange", "ivsOutOfRange", "evTotalTooHigh"]);
+
+    const t = getTranslator("en");
+    expect(errors.map(({ key, params }) => t(key, params))).toEqual(["Level must be between 1 and 100", "EVs for Atk must be between 0 and 252", "IVs for Spe must be between 0 and 31", "EVs total 512, more than 510"]);
+  });
+});
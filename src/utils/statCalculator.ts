@@ -0,0 +1,130 @@
+/**
+ * Stat Calculator
+ *
+ * Final stats from base stats, level, IVs, EVs and nature, using the formulas of
+ * the games since Generation III:
+ *
+ *   HP    = floor((2 × Base + IV + floor(EV / 4)) × Level / 100) + Level + 10
+ *   Other = floor((floor((2 × Base + IV + floor(EV / 4)) × Level / 100) + 5) × Nature)
+ *
+ * where Nature is 1.1 for the stat a nature raises, 0.9 for the one it lowers and 1 otherwise.
+ */
+
+import { STAT_NAMES } from "./pokemonFilters";
+import { MAX_EV, MAX_IV, MAX_TOTAL_EVS, NATURES, STAT_ABBREVIATIONS } from "./showdown";
+import type { StatName } from "./pokemonFilters";
+import type { MessageKey } from "./i18n";
+
+export const MIN_LEVEL = 1;
+export const MAX_LEVEL = 100;
+
+/**
+ * Levels whose min/max stat ranges are shown: the usual competitive level and the cap
+ */
+export const RANGE_LEVELS = [50, 100];
+
+export type StatSpread = Record<StatName, number>;
+
+export interface StatCalculatorInput {
+  level: number;
+  nature: string;
+  ivs: StatSpread;
+  evs: StatSpread;
+}
+
+export interface NatureEffect {
+  increased: StatName | null;
+  decreased: StatName | null;
+}
+
+export interface StatRange {
+  min: number;
+  max: number;
+}
+
+const spread = (value: number): StatSpread => Object.fromEntries(STAT_NAMES.map((stat) => [stat, value])) as StatSpread;
+
+export const DEFAULT_CALCULATOR_INPUT: StatCalculatorInput = { level: 50, nature: "Hardy", ivs: spread(MAX_IV), evs: spread(0) };
+
+// NATURES is the games' 5 × 5 grid: the row is the raised stat, the column the lowered one
+const NATURE_GRID_STATS: StatName[] = ["attack", "defense", "speed", "special-attack", "special-defense"];
+
+export function getNatureEffect(nature: string): NatureEffect {
+  const index = NATURES.indexOf(nature);
+  const increased = NATURE_GRID_STATS[Math.floor(index / NATURE_GRID_STATS.length)];
+  const decreased = NATURE_GRID_STATS[index % NATURE_GRID_STATS.length];
+  // Unknown natures and the diagonal (Hardy, Docile, ...) are neutral
+  return index === -1 || increased === decreased ? { increased: null, decreased: null } : { increased, decreased };
+}
+
+/**
+ * "Adamant (+Atk, -SpA)", or just the name for a neutral nature
+ */
+export function formatNature(nature: string): string {
+  const { increased, decreased } = getNatureEffect(nature);
+  return increased ? `${nature} (+${STAT_ABBREVIATIONS[increased]}, -${STAT_ABBREVIATIONS[decreased]})` : nature;
+}
+
+function getNatureMultiplier(stat: StatName, nature: string): number {
+  const { increased, decreased } = getNatureEffect(nature);
+  return stat === increased ? 1.1 : stat === decreased ? 0.9 : 1;
+}
+
+/**
+ * The final value of one stat
+ *
+ * @param base - The species' base stat
+ */
+export function calculateStat(stat: StatName, base: number, { level, nature, iv, ev }: { level: number; nature: string; iv: number; ev: number }): number {
+  const scaled = Math.floor(((2 * base + iv + Math.floor(ev / 4)) * level) / 100);
+  if (stat === "hp") {
+    // Shedinja, the only Pokemon with 1 base HP, always has 1 HP
+    return base === 1 ? 1 : scaled + level + 10;
+  }
+  return Math.floor((scaled + 5) * getNatureMultiplier(stat, nature));
+}
+
+export function calculateStats(baseStats: StatSpread, input: StatCalculatorInput): StatSpread {
+  return Object.fromEntries(
+    STAT_NAMES.map((stat) => [stat, calculateStat(stat, baseStats[stat], { level: input.level, nature: input.nature, iv: input.ivs[stat], ev: input.evs[stat] })]),
+  ) as StatSpread;
+}
+
+/**
+ * Lowest (0 IVs, 0 EVs, hindering nature) and highest (31 IVs, 252 EVs, helpful nature) value of a stat at `level`
+ */
+export function getStatRange(stat: StatName, base: number, level: number): StatRange {
+  const hindering = NATURES.find((nature) => getNatureEffect(nature).decreased === stat) ?? "Hardy";
+  const helpful = NATURES.find((nature) => getNatureEffect(nature).increased === stat) ?? "Hardy";
+  return {
+    min: calculateStat(stat, base, { level, nature: hindering, iv: 0, ev: 0 }),
+    max: calculateStat(stat, base, { level, nature: helpful, iv: MAX_IV, ev: MAX_EV }),
+  };
+}
+
+/**
+ * A problem with the calculator input, as a message to translate (see utils/i18n.ts)
+ */
+export interface CalculatorInputError {
+  key: MessageKey;
+  params: Record<string, string | number>;
+}
+
+/**
+ * Checks the level, IVs and EVs against the games' limits
+ *
+ * @returns One error per problem; empty when the input is valid
+ */
+export function validateCalculatorInput({ level, ivs, evs }: StatCalculatorInput): CalculatorInputError[] {
+  const errors: CalculatorInputError[] = [];
+  if (!Number.isInteger(level) || level < MIN_LEVEL || level > MAX_LEVEL) errors.push({ key: "levelOutOfRange", params: { min: MIN_LEVEL, max: MAX_LEVEL } });
+
+  for (const stat of STAT_NAMES) {
+    if (!Number.isInteger(ivs[stat]) || ivs[stat] < 0 || ivs[stat] > MAX_IV) errors.push({ key: "ivsOutOfRange", params: { stat: STAT_ABBREVIATIONS[stat], max: MAX_IV } });
+    if (!Number.isInteger(evs[stat]) || evs[stat] < 0 || evs[stat] > MAX_EV) errors.push({ key: "evsOutOfRange", params: { stat: STAT_ABBREVIATIONS[stat], max: MAX_EV } });
+  }
+
+  const totalEvs = STAT_NAMES.reduce((total, stat) => total + evs[stat], 0);
+  if (totalEvs > MAX_TOTAL_EVS) errors.push({ key: "evTotalTooHigh", params: { total: totalEvs, max: MAX_TOTAL_EVS } });
+  return errors;
+}
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for the stats index and percentiles
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { STAT_NAMES } from "./pokemonFilters";
+import { buildStatsIndex, getPercentile, getStatMax, loadStatsIndex, saveStatsIndex, STATS_INDEX_STORAGE_KEY } from "./statsIndex";
+import type { Pokemon } from "../types/pokemon";
+
+const pokemon = (name: string, base: number): Pokemon =>
+  ({
+    id: base,
+    name,
+    stats: STAT_NAMES.map((stat) => ({ base_stat: base, effort: 0, stat: { name: stat, url: "" } })),
+  }) as Pokemon;
+
+describe("Stats index", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should rank stats against every indexed Pokemon", () => {
+    const index = buildStatsIndex([pokemon("c", 90), pokemon("a", 30), pokemon("b", 60), pokemon("d", 60)], 1000);
+
+    expect(index.count).toBe(4);
+    expect(index.values.speed).toEqual([30, 60, 60, 90]);
+    expect(index.values.total).toEqual([180, 360, 360, 540]);
+    expect(getStatMax(index, "attack")).toBe(90);
+
+    expect(getPercentile(index, "speed", 30)).toBe(13); // half of one tie out of four
+    expect(getPercentile(index, "speed", 60)).toBe(50);
+    expect(getPercentile(index, "total", 600)).toBe(100);
+  });
+
+  it("should persist the index and ignore malformed data", () => {
+    const index = buildStatsIndex([pokemon("a", 30)], 1000);
+    saveStatsIndex(index);
+    expect(loadStatsIndex()).toEqual(index);
+
+    window.localStorage.setItem(STATS_INDEX_STORAGE_KEY, JSON.stringify({ builtAt: 1, count: 1, values: { hp: ["x"] } }));
+    expect(loadStatsIndex()).toBeNull();
+  });
+});
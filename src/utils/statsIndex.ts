@@ -0,0 +1,88 @@
+/**
+ * Stats Index
+ *
+ * Every Pokemon's base stats, precomputed once from the API and kept in
+ * localStorage, so a stat can be ranked against all Pokemon without loading
+ * them again. Each stat (and the total) is stored as a sorted list of values.
+ */
+
+import { getBaseStat, getStatTotal, STAT_NAMES } from "./pokemonFilters";
+import type { StatName } from "./pokemonFilters";
+import type { Pokemon } from "../types/pokemon";
+
+export const STATS_INDEX_STORAGE_KEY = "pokemon-stats-index";
+
+export type IndexedStat = StatName | "total";
+
+export const INDEXED_STATS: IndexedStat[] = [...STAT_NAMES, "total"];
+
+export interface StatsIndex {
+  /** When the index was built, in ms since the epoch */
+  builtAt: number;
+  /** Number of Pokemon indexed */
+  count: number;
+  /** Every Pokemon's value of each stat, ascending */
+  values: Record<IndexedStat, number[]>;
+}
+
+export function getIndexedStat(pokemon: Pick<Pokemon, "stats">, stat: IndexedStat): number {
+  return stat === "total" ? getStatTotal(pokemon) : getBaseStat(pokemon, stat);
+}
+
+export function buildStatsIndex(pokemon: Pick<Pokemon, "stats">[], builtAt: number = Date.now()): StatsIndex {
+  const values = Object.fromEntries(INDEXED_STATS.map((stat) => [stat, pokemon.map((p) => getIndexedStat(p, stat)).sort((a, b) => a - b)])) as Record<IndexedStat, number[]>;
+  return { builtAt, count: pokemon.length, values };
+}
+
+/**
+ * Percentile rank of `value`: the share of Pokemon with a lower value, counting ties as half
+ *
+ * @returns 0-100, or null if the index has no values for the stat
+ */
+export function getPercentile(index: StatsIndex, stat: IndexedStat, value: number): number | null {
+  const values = index.values[stat];
+  if (!values?.length) return null;
+  const below = values.filter((other) => other < value).length;
+  const equal = values.filter((other) => other === value).length;
+  return Math.round(((below + equal / 2) / values.length) * 100);
+}
+
+/**
+ * Highest value of a stat across all Pokemon, or null if the index has none
+ */
+export function getStatMax(index: StatsIndex, stat: IndexedStat): number | null {
+  const values = index.values[stat];
+  return values?.length ? values[values.length - 1] : null;
+}
+
+const isStatsIndex = (value: unknown): value is StatsIndex => {
+  const index = value as StatsIndex;
+  return (
+    typeof index?.builtAt === "number" &&
+    typeof index.count === "number" &&
+    INDEXED_STATS.every((stat) => {
+      const values: unknown = index.values?.[stat];
+      return Array.isArray(values) && values.every((entry) => typeof entry === "number");
+    })
+  );
+};
+
+/**
+ * Reads the saved index; missing, unreadable or malformed data yields null
+ */
+export function loadStatsIndex(storage: Storage = window.localStorage): StatsIndex | null {
+  try {
+    const saved = JSON.parse(storage.getItem(STATS_INDEX_STORAGE_KEY) ?? "null");
+    return isStatsIndex(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStatsIndex(index: StatsIndex, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(STATS_INDEX_STORAGE_KEY, JSON.stringify(index));
+  } catch (err) {
+    console.error("Failed to save stats index:", err);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for team analysis
+ */
+
+import { describe, it, expect } from "vitest";
+import { analyzeTeam } from "./teamAnalysis";
+import { buildTypeChart, getMultiplier } from "./typeEffectiveness";
+import type { Pokemon } from "../types/pokemon";
+
+const names = (list: string[] = []) => list.map((name) => ({ name, url: "" }));
+
+// Offensive relations for the types used below, from the games' type chart
+const typeData = (name: string, double: string[], half: string[], none: string[] = []) => ({
+  name,
+  damage_relations: {
+    double_damage_to: names(double),
+    half_damage_to: names(half),
+    no_damage_to: names(none),
+    double_damage_from: [],
+    half_damage_from: [],
+    no_damage_from: [],
+  },
+});
+
+const chart = buildTypeChart([
+  typeData("electric", ["water", "flying"], ["electric", "grass", "dragon"], ["ground"]),
+  typeData("ground", ["fire", "electric", "poison", "rock", "steel"], ["grass", "bug"], ["flying"]),
+  typeData("water", ["fire", "ground", "rock"], ["water", "grass", "dragon"]),
+  typeData("ice", ["grass", "ground", "flying", "dragon"], ["fire", "water", "ice", "steel"]),
+  typeData("grass", ["water", "ground", "rock"], ["fire", "grass", "poison", "flying", "bug", "dragon", "steel"]),
+]);
+
+const pokemon = (name: string, types: string[], stats: number[]): Pokemon => ({
+  id: 1,
+  name,
+  sprites: { front_default: null },
+  types: types.map((type, i) => ({ slot: i + 1, type: { name: type, url: "" } })),
+  abilities: [],
+  moves: [],
+  stats: ["hp", "attack", "defense", "special-attack", "special-defense", "speed"].map((stat, i) => ({ base_stat: stats[i], effort: 0, stat: { name: stat, url: "" } })),
+  species: { name, url: "" },
+});
+
+const gyarados = pokemon("gyarados", ["water", "flying"], [95, 125, 79, 60, 100, 81]);
+const pelipper = pokemon("pelipper", ["water", "flying"], [60, 50, 100, 95, 70, 65]);
+const garchomp = pokemon("garchomp", ["dragon", "ground"], [108, 130, 95, 80, 85, 102]);
+
+describe("Team analysis", () => {
+  it("should build a chart that multiplies across dual types", () => {
+    expect(getMultiplier(chart, "electric", ["water", "flying"])).toBe(4);
+    expect(getMultiplier(chart, "electric", ["dragon", "ground"])).toBe(0);
+    expect(getMultiplier(chart, "ice", ["dragon", "ground"])).toBe(4);
+    expect(getMultiplier(chart, "fire", ["water"])).toBe(1); // not in the chart above
+  });
+
+  it("should report weaknesses shared by several members", () => {
+    const analysis = analyzeTeam([gyarados, pelipper, garchomp], chart);
+    const electric = analysis.defense.find((entry) => entry.type === "electric");
+
+    expect(electric).toEqual({ type: "electric", weak: ["gyarados", "pelipper"], resist: [], immune: ["garchomp"] });
+    expect(analysis.sharedWeaknesses).toContain("electric");
+    // Only Garchomp is weak to ice; water cancels out flying's weakness for the other two
+    expect(analysis.sharedWeaknesses).not.toContain("ice");
+  });
+
+  it("should cover types hit super effectively by a member's own types", () => {
+    const analysis = analyzeTeam([gyarados, garchomp], chart);
+    const coverage = (type: string) => analysis.offense.find((entry) => entry.type === type).coveredBy;
+
+    expect(coverage("fire")).toEqual(["gyarados", "garchomp"]);
+    expect(coverage("electric")).toEqual(["garchomp"]);
+    expect(coverage("grass")).toEqual([]);
+  });
+
+  it("should average base stats across members", () => {
+    const analysis = analyzeTeam([gyarados, garchomp], chart);
+
+    expect(analysis.averageStats.hp).toBe(102);
+    expect(analysis.averageStats.attack).toBe(128);
+    expect(analysis.averageTotal).toBe(Math.round((540 + 600) / 2));
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Team Analysis
+ *
+ * Type coverage and average stats for a team, from each member's types and
+ * base stats and the full type chart (see buildTypeChart).
+ */
+
+import { POKEMON_TYPES } from "./pokemonTypes";
+import { getMultiplier } from "./typeEffectiveness";
+import { getBaseStat, getStatTotal, STAT_NAMES } from "./pokemonFilters";
+import type { TypeChart } from "./typeEffectiveness";
+import type { StatName } from "./pokemonFilters";
+import type { Pokemon } from "../types/pokemon";
+
+/**
+ * How the team fares against one attacking type
+ */
+export interface DefensiveCoverage {
+  type: string;
+  /** Members taking more than 1x */
+  weak: string[];
+  /** Members taking less than 1x but more than 0x */
+  resist: string[];
+  immune: string[];
+}
+
+/**
+ * Which members hit one defending type super effectively with a move of their own type
+ */
+export interface OffensiveCoverage {
+  type: string;
+  coveredBy: string[];
+}
+
+export interface TeamAnalysis {
+  defense: DefensiveCoverage[];
+  offense: OffensiveCoverage[];
+  /** Attacking types at least two members are weak to and no more than one member resists or is immune to */
+  sharedWeaknesses: string[];
+  averageStats: Record<StatName, number>;
+  averageTotal: number;
+}
+
+const typesOf = (pokemon: Pokemon) => pokemon.types.map((entry) => entry.type.name);
+
+const average = (values: number[]) => (values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0);
+
+/**
+ * Analyzes a team's coverage
+ * Offensive coverage only considers same-type attacks, since the members' moves aren't known.
+ */
+export function analyzeTeam(members: Pokemon[], chart: TypeChart): TeamAnalysis {
+  const defense = POKEMON_TYPES.map((type) => {
+    const coverage: DefensiveCoverage = { type, weak: [], resist: [], immune: [] };
+    for (const member of members) {
+      const multiplier = getMultiplier(chart, type, typesOf(member));
+      if (multiplier === 0) coverage.immune.push(member.name);
+      else if (multiplier > 1) coverage.weak.push(member.name);
+      else if (multiplier < 1) coverage.resist.push(member.name);
+    }
+    return coverage;
+  });
+
+  const offense = POKEMON_TYPES.map((type) => ({
+    type,
+    coveredBy: members.filter((member) => typesOf(member).some((attacker) => getMultiplier(chart, attacker, [type]) > 1)).map((member) => member.name),
+  }));
+
+  const averageStats = Object.fromEntries(STAT_NAMES.map((stat) => [stat, average(members.map((member) => getBaseStat(member, stat)))])) as Record<StatName, number>;
+
+  return {
+    defense,
+    offense,
+    sharedWeaknesses: defense.filter((entry) => entry.weak.length >= 2 && entry.resist.length + entry.immune.length <= 1).map((entry) => entry.type),
+    averageStats,
+    averageTotal: average(members.map(getStatTotal)),
+  };
+}
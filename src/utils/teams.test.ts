@@ -0,0 +1,38 @@
+/**
+ * Unit tests for saved teams
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { TEAMS_STORAGE_KEY, TEAM_SIZE, addTeamMember, createTeam, loadTeams, removeTeamMember, saveTeams } from "./teams";
+
+describe("Teams", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should cap a team at six distinct members", () => {
+    let team = createTeam("Rain", "rain");
+    for (const name of ["pelipper", "kingdra", "pelipper", "ferrothorn", "toxapex", "barraskewda", "zapdos", "tornadus"]) {
+      team = addTeamMember(team, name);
+    }
+
+    expect(team.members).toHaveLength(TEAM_SIZE);
+    expect(team.members).toEqual(["pelipper", "kingdra", "ferrothorn", "toxapex", "barraskewda", "zapdos"]);
+    expect(removeTeamMember(team, "kingdra").members).not.toContain("kingdra");
+  });
+
+  it("should save and load several named teams", () => {
+    const teams = [addTeamMember(createTeam("Rain", "rain"), "pelipper"), createTeam("Sun", "sun")];
+    saveTeams(teams);
+
+    expect(loadTeams()).toEqual(teams);
+  });
+
+  it("should ignore unreadable or malformed saved data", () => {
+    window.localStorage.setItem(TEAMS_STORAGE_KEY, "{not json");
+    expect(loadTeams()).toEqual([]);
+
+    window.localStorage.setItem(TEAMS_STORAGE_KEY, JSON.stringify([{ id: "ok", name: "Ok", members: ["mew"] }, { id: 3, name: "Bad" }, "junk"]));
+    expect(loadTeams()).toEqual([{ id: "ok", name: "Ok", members: ["mew"] }]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Teams
+ *
+ * Named teams of up to six Pokemon, kept in localStorage so they survive reloads.
+ * Members are stored by name; their data is loaded (and cached) through the client.
+ */
+
+import { fromApiName } from "./showdown";
+import type { ShowdownSet } from "./showdown";
+
+export const TEAM_SIZE = 6;
+
+export const TEAMS_STORAGE_KEY = "pokemon-teams";
+
+export interface Team {
+  id: string;
+  name: string;
+  members: string[];
+  /** Showdown sets (item, EVs, moves, ...) of members that have one, keyed by member name */
+  sets?: Record<string, ShowdownSet>;
+}
+
+export function createTeam(name: string, id = `team-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`): Team {
+  return { id, name, members: [] };
+}
+
+/**
+ * Adds a member unless the team is full or already has it
+ */
+export function addTeamMember(team: Team, name: string): Team {
+  if (team.members.length >= TEAM_SIZE || team.members.includes(name)) return team;
+  return { ...team, members: [...team.members, name] };
+}
+
+export function removeTeamMember(team: Team, name: string): Team {
+  const { [name]: _removed, ...sets } = team.sets ?? {};
+  return { ...team, members: team.members.filter((member) => member !== name), sets };
+}
+
+/**
+ * Sets for every member in team order, for a Showdown export
+ * Members without an imported set export as the bare species.
+ */
+export function getTeamSets(team: Team): ShowdownSet[] {
+  return team.members.map((name) => team.sets?.[name] ?? { species: fromApiName(name), evs: {}, ivs: {}, moves: [] });
+}
+
+const isTeam = (value: unknown): value is Team => {
+  const team = value as Team;
+  return (
+    typeof team?.id === "string" &&
+    typeof team.name === "string" &&
+    Array.isArray(team.members) &&
+    team.members.every((member) => typeof member === "string") &&
+    (team.sets === undefined || (typeof team.sets === "object" && team.sets !== null))
+  );
+};
+
+/**
+ * Reads saved teams; missing, unreadable or malformed data yields no teams
+ */
+export function loadTeams(storage: Storage = window.localStorage): Team[] {
+  try {
+    const saved = JSON.parse(storage.getItem(TEAMS_STORAGE_KEY) ?? "[]");
+    return Array.isArray(saved) ? saved.filter(isTeam).map((team) => ({ ...team, members: team.members.slice(0, TEAM_SIZE) })) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves every team; a full or unavailable storage keeps the teams for this session only
+ */
+export function saveTeams(teams: Team[], storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(TEAMS_STORAGE_KEY, JSON.stringify(teams));
+  } catch (err) {
+    console.error("Failed to save teams:", err);
+  }
+}
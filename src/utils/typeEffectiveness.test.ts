@@ -0,0 +1,62 @@
+/**
+ * Unit tests for type effectiveness
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatMultiplier, getDefensiveMultipliers, groupMatchups } from "./typeEffectiveness";
+import type { TypeDamageRelations } from "../types/pokemon";
+
+const relations = (relation: Partial<Record<"double" | "half" | "no", string[]>>): { damage_relations: TypeDamageRelations } => {
+  const names = (list: string[] = []) => list.map((name) => ({ name, url: "" }));
+  return {
+    damage_relations: {
+      double_damage_from: names(relation.double),
+      half_damage_from: names(relation.half),
+      no_damage_from: names(relation.no),
+      double_damage_to: [],
+      half_damage_to: [],
+      no_damage_to: [],
+    },
+  };
+};
+
+// Defensive relations from the games' type chart
+const bug = relations({ double: ["flying", "rock", "fire"], half: ["fighting", "ground", "grass"] });
+const steel = relations({
+  double: ["fighting", "ground", "fire"],
+  half: ["normal", "flying", "rock", "bug", "steel", "grass", "psychic", "ice", "dragon", "fairy"],
+  no: ["poison"],
+});
+const grass = relations({ double: ["flying", "poison", "bug", "fire", "ice"], half: ["ground", "water", "grass", "electric"] });
+
+describe("Type effectiveness", () => {
+  it("should multiply dual-type relations", () => {
+    // Scizor (bug/steel): fire is the only weakness, at 4x
+    const scizor = getDefensiveMultipliers([bug, steel]);
+
+    expect(scizor.fire).toBe(4);
+    expect(scizor.fighting).toBe(1);
+    expect(scizor.grass).toBe(0.25);
+    expect(scizor.poison).toBe(0);
+    expect(scizor.water).toBe(1);
+  });
+
+  it("should group non-neutral matchups from strongest weakness to immunity", () => {
+    const groups = groupMatchups(getDefensiveMultipliers([bug, steel]));
+
+    expect(groups.map((group) => group.multiplier)).toEqual([4, 0.5, 0.25, 0]);
+    expect(groups[0].types).toEqual(["fire"]);
+    expect(groups[3].types).toEqual(["poison"]);
+  });
+
+  it("should treat a single type as is", () => {
+    const groups = groupMatchups(getDefensiveMultipliers([grass]));
+
+    expect(groups.map((group) => group.multiplier)).toEqual([2, 0.5]);
+    expect(groups[0].types).toEqual(["fire", "ice", "poison", "flying", "bug"]);
+  });
+
+  it("should format fractional multipliers", () => {
+    expect([4, 2, 0.5, 0.25, 0].map(formatMultiplier)).toEqual(["4×", "2×", "½×", "¼×", "0×"]);
+  });
+});
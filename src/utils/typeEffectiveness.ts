@@ -0,0 +1,90 @@
+/**
+ * Type Effectiveness
+ *
+ * Defensive matchups computed from the `/type/{name}` damage relations. The
+ * type endpoint is persisted by the client (see DEFAULT_PERSISTED_RESOURCES),
+ * so once a type has been loaded its chart also works offline.
+ */
+
+import { POKEMON_TYPES } from "./pokemonTypes";
+import type { TypeData } from "../types/pokemon";
+
+/**
+ * Damage multiplier taken from each attacking type
+ */
+export type TypeMultipliers = Record<string, number>;
+
+export interface MatchupGroup {
+  multiplier: number;
+  types: string[];
+}
+
+/**
+ * Multipliers worth showing, strongest weakness first; neutral (1x) matchups are left out
+ */
+export const MATCHUP_MULTIPLIERS = [4, 2, 0.5, 0.25, 0];
+
+/**
+ * Combines the defending types' damage relations into one multiplier per attacking type
+ * Dual types multiply, so two weaknesses make 4x and a weakness plus a resistance cancel out.
+ */
+export function getDefensiveMultipliers(types: Pick<TypeData, "damage_relations">[]): TypeMultipliers {
+  const multipliers: TypeMultipliers = Object.fromEntries(POKEMON_TYPES.map((type) => [type, 1]));
+
+  for (const { damage_relations: relations } of types) {
+    for (const { name } of relations.double_damage_from) multipliers[name] = (multipliers[name] ?? 1) * 2;
+    for (const { name } of relations.half_damage_from) multipliers[name] = (multipliers[name] ?? 1) * 0.5;
+    for (const { name } of relations.no_damage_from) multipliers[name] = 0;
+  }
+
+  return multipliers;
+}
+
+/**
+ * Groups attacking types by multiplier, in MATCHUP_MULTIPLIERS order, skipping empty groups
+ */
+export function groupMatchups(multipliers: TypeMultipliers): MatchupGroup[] {
+  return MATCHUP_MULTIPLIERS.map((multiplier) => ({
+    multiplier,
+    types: Object.keys(multipliers).filter((type) => multipliers[type] === multiplier),
+  })).filter((group) => group.types.length > 0);
+}
+
+/**
+ * "4×", "½×", "¼×", "0×"
+ */
+export function formatMultiplier(multiplier: number): string {
+  if (multiplier === 0.5) return "½×";
+  if (multiplier === 0.25) return "¼×";
+  return `${multiplier}×`;
+}
+
+/**
+ * Full attacking-type x defending-type chart: `chart[attacker][defender]` is the damage multiplier
+ */
+export type TypeChart = Record<string, Record<string, number>>;
+
+/**
+ * Builds the type chart from every type's offensive damage relations
+ * Pairs the relations don't mention are neutral (1x).
+ */
+export function buildTypeChart(types: Pick<TypeData, "name" | "damage_relations">[]): TypeChart {
+  const chart: TypeChart = {};
+
+  for (const { name, damage_relations: relations } of types) {
+    const row: Record<string, number> = Object.fromEntries(POKEMON_TYPES.map((type) => [type, 1]));
+    for (const { name: defender } of relations.double_damage_to) row[defender] = 2;
+    for (const { name: defender } of relations.half_damage_to) row[defender] = 0.5;
+    for (const { name: defender } of relations.no_damage_to) row[defender] = 0;
+    chart[name] = row;
+  }
+
+  return chart;
+}
+
+/**
+ * Multiplier of an attacking type against a (possibly dual-typed) defender
+ */
+export function getMultiplier(chart: TypeChart, attacker: string, defenderTypes: string[]): number {
+  return defenderTypes.reduce((multiplier, defender) => multiplier * (chart[attacker]?.[defender] ?? 1), 1);
+}
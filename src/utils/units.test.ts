@@ -0,0 +1,40 @@
+/**
+ * Unit tests for height and weight units
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { formatHeight, formatWeight, getBodyMassIndex, getSizeClass, loadUnitSystem, saveUnitSystem, UNITS_STORAGE_KEY } from "./units";
+
+describe("Units", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should format decimetres and hectograms in metric and imperial units", () => {
+    // Bulbasaur: 7 dm, 69 hg
+    expect(formatHeight(7, "metric")).toBe("0.7 m");
+    expect(formatHeight(7, "imperial")).toBe("2′04″");
+    expect(formatWeight(69, "metric")).toBe("6.9 kg");
+    expect(formatWeight(69, "imperial")).toBe("15.2 lbs");
+    // Onix: 88 dm is just under 29 ft
+    expect(formatHeight(88, "imperial")).toBe("28′10″");
+  });
+
+  it("should derive a size class from height and weight", () => {
+    expect(getBodyMassIndex(7, 69)).toBeCloseTo(14.08, 2);
+    expect(getBodyMassIndex(undefined, 69)).toBeNull();
+    expect(getBodyMassIndex(0, 69)).toBeNull();
+
+    expect(getSizeClass(getBodyMassIndex(13, 1)!)).toBe("airy"); // Gastly
+    expect(getSizeClass(getBodyMassIndex(7, 69)!)).toBe("slender"); // Bulbasaur
+    expect(getSizeClass(getBodyMassIndex(4, 60)!)).toBe("average"); // Pikachu
+    expect(getSizeClass(getBodyMassIndex(21, 4600)!)).toBe("heavyset"); // Snorlax
+  });
+
+  it("should persist the unit system", () => {
+    saveUnitSystem("imperial");
+    expect(loadUnitSystem()).toBe("imperial");
+    window.localStorage.setItem(UNITS_STORAGE_KEY, "cubits");
+    expect(loadUnitSystem()).toBe("metric");
+  });
+});
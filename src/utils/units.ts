@@ -0,0 +1,86 @@
+/**
+ * Units
+ *
+ * PokeAPI gives height in decimetres and weight in hectograms. These formatters
+ * show them in metres/kilograms or feet-inches/pounds, following the unit system
+ * the user picked (kept in localStorage).
+ */
+
+export type UnitSystem = "metric" | "imperial";
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "metric";
+
+export const UNITS_STORAGE_KEY = "pokemon-units";
+
+const INCHES_PER_DECIMETRE = 3.937;
+const POUNDS_PER_HECTOGRAM = 0.220462;
+
+/**
+ * A size class from the body mass index (kg / m²), from lightest to heaviest build
+ */
+export type SizeClass = "airy" | "slender" | "average" | "stocky" | "heavyset";
+
+// Upper BMI bound of each class but the last
+const SIZE_CLASS_LIMITS: [SizeClass, number][] = [
+  ["airy", 5],
+  ["slender", 20],
+  ["average", 50],
+  ["stocky", 100],
+];
+
+export function toMetres(decimetres: number): number {
+  return decimetres / 10;
+}
+
+export function toKilograms(hectograms: number): number {
+  return hectograms / 10;
+}
+
+/**
+ * 7 -> "0.7 m" or "2′04″"
+ */
+export function formatHeight(decimetres: number, system: UnitSystem): string {
+  if (system === "metric") return `${toMetres(decimetres).toFixed(1)} m`;
+  const inches = Math.round(decimetres * INCHES_PER_DECIMETRE);
+  return `${Math.floor(inches / 12)}′${String(inches % 12).padStart(2, "0")}″`;
+}
+
+/**
+ * 60 -> "6.0 kg" or "13.2 lbs"
+ */
+export function formatWeight(hectograms: number, system: UnitSystem): string {
+  if (system === "metric") return `${toKilograms(hectograms).toFixed(1)} kg`;
+  return `${(hectograms * POUNDS_PER_HECTOGRAM).toFixed(1)} lbs`;
+}
+
+/**
+ * BMI-style ratio of weight to height squared, or null when either is missing or zero
+ */
+export function getBodyMassIndex(decimetres: number | undefined, hectograms: number | undefined): number | null {
+  if (!decimetres || !hectograms) return null;
+  return toKilograms(hectograms) / toMetres(decimetres) ** 2;
+}
+
+export function getSizeClass(bodyMassIndex: number): SizeClass {
+  return SIZE_CLASS_LIMITS.find(([, limit]) => bodyMassIndex < limit)?.[0] ?? "heavyset";
+}
+
+/**
+ * Reads the saved unit system; anything missing or unknown yields the default
+ */
+export function loadUnitSystem(storage: Storage = window.localStorage): UnitSystem {
+  try {
+    const saved = storage.getItem(UNITS_STORAGE_KEY);
+    return saved === "metric" || saved === "imperial" ? saved : DEFAULT_UNIT_SYSTEM;
+  } catch {
+    return DEFAULT_UNIT_SYSTEM;
+  }
+}
+
+export function saveUnitSystem(system: UnitSystem, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(UNITS_STORAGE_KEY, system);
+  } catch (err) {
+    console.error("Failed to save unit system:", err);
+  }
+}
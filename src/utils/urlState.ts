@@ -0,0 +1,22 @@
+/**
+ * URL State Helpers
+ *
+ * Keeps shareable UI state (like the random list seed) in the query string.
+ */
+
+export function getSearchParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+/**
+ * Updates query parameters in place without adding a history entry
+ * A `null` value removes the parameter.
+ */
+export function setSearchParams(updates: Record<string, string | null>): void {
+  const url = new URL(window.location.href);
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === null) url.searchParams.delete(name);
+    else url.searchParams.set(name, value);
+  }
+  window.history.replaceState(window.history.state, "", url);
+}
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for PokeAPI response validators
+ *
+ * These tests validate that partial payloads degrade gracefully and broken ones fail clearly.
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeResponse, pokemonDecoder, pokemonListResponseDecoder, speciesDataDecoder, SchemaValidationError } from "./validators";
+import { MalformedResponseError } from "./apiErrors";
+
+const URL = "https://pokeapi.co/api/v2/pokemon/25/";
+
+describe("PokeAPI validators", () => {
+  it("should fill missing optional Pokemon sections with empty values", () => {
+    const pokemon = decodeResponse(pokemonDecoder, { id: 25, name: "pikachu", species: { name: "pikachu", url: "species-25" }, moves: [] }, URL);
+
+    expect(pokemon).toEqual({
+      id: 25,
+      name: "pikachu",
+      sprites: { front_default: null },
+      types: [],
+      abilities: [],
+      stats: [],
+      moves: [],
+      species: { name: "pikachu", url: "species-25" },
+    });
+  });
+
+  it("should default a missing sprites object so the front sprite can be read safely", () => {
+    const pokemon = decodeResponse(pokemonDecoder, { id: 25, name: "pikachu", sprites: null, species: { name: "pikachu", url: "species-25" } }, URL);
+
+    expect(pokemon.sprites.front_default).toBeNull();
+  });
+
+  it("should keep artwork and per-game sprites, dropping extras like animated sets", () => {
+    const sprites = {
+      front_default: "front.png",
+      other: { "official-artwork": { front_default: "artwork.png", front_shiny: null }, dream_world: { front_default: "dream.svg" } },
+      versions: { "generation-v": { "black-white": { front_default: "bw.png", animated: { front_default: "bw.gif" } } } },
+    };
+    const pokemon = decodeResponse(pokemonDecoder, { id: 25, name: "pikachu", sprites, species: { name: "pikachu", url: "species-25" } }, URL);
+
+    expect(pokemon.sprites.other).toEqual({ "official-artwork": { front_default: "artwork.png", front_shiny: null, back_default: null, back_shiny: null } });
+    expect(pokemon.sprites.versions?.["generation-v"]["black-white"]).toEqual({ front_default: "bw.png", front_shiny: null, back_default: null, back_shiny: null });
+  });
+
+  it("should report the path of an invalid required field", () => {
+    const payload = { id: 25, name: "pikachu", species: { name: "pikachu", url: "species-25" }, types: [{ slot: 1, type: { name: 13 } }] };
+
+    let error: SchemaValidationError;
+    try {
+      decodeResponse(pokemonDecoder, payload, URL);
+    } catch (err) {
+      error = err as SchemaValidationError;
+    }
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(error.path).toBe("types[0].type.name");
+    expect(error.message).toBe('Malformed response: expected string at "types[0].type.name", got number');
+    expect(error.url).toBe(URL);
+  });
+
+  it("should reject a list response without results", () => {
+    expect(() => decodeResponse(pokemonListResponseDecoder, { count: 1 }, URL)).toThrow('expected array at "results", got undefined');
+  });
+
+  it("should reject a body that is not an object", () => {
+    expect(() => decodeResponse(speciesDataDecoder, "<html>", URL)).toThrow('expected object at "(root)", got string');
+  });
+
+  it("should default missing species flavor text", () => {
+    expect(decodeResponse(speciesDataDecoder, { name: "pikachu" }, URL).flavor_text_entries).toEqual([]);
+  });
+});
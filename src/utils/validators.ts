@@ -0,0 +1,286 @@
+/**
+ * Runtime Validators for PokeAPI Responses
+ *
+ * The interfaces in types/pokemon.ts only exist at compile time. These decoders
+ * check the payload shape when it arrives, so a changed or partial response fails
+ * at the fetch boundary with a clear message instead of crashing a component later.
+ *
+ * Required fields throw a SchemaValidationError naming the offending path.
+ * Optional sections fall back to empty values so the UI can degrade gracefully.
+ */
+
+import { MalformedResponseError } from "./apiErrors";
+import type { PokemonListResponse, Pokemon, SpeciesData, NamedAPIResource, SpriteSet, PokemonSprites, PokemonType, PokemonAbility, PokemonStat, PokemonMove, MoveData, AbilityData, FlavorTextEntry, TypeData, TypeDamageRelations, GenerationData, EvolutionChain, EvolutionDetail, ChainLink } from "../types/pokemon";
+
+export class SchemaValidationError extends MalformedResponseError {
+  constructor(
+    url: string,
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {
+    super(url, `expected ${expected} at "${path}", got ${describeValue(received)}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+/**
+ * Decodes an unknown value at `path`, throwing SchemaValidationError on mismatch
+ */
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+/**
+ * Thrown internally and re-thrown with the request URL by `decodeResponse`
+ */
+class DecodeFailure extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {
+    super(`expected ${expected} at "${path}"`);
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const primitive =
+  <T>(expected: string, test: (value: unknown) => boolean): Decoder<T> =>
+  (value, path) => {
+    if (!test(value)) throw new DecodeFailure(path, expected, value);
+    return value as T;
+  };
+
+export const string = primitive<string>("string", (value) => typeof value === "string");
+export const number = primitive<number>("number", (value) => typeof value === "number" && Number.isFinite(value));
+export const boolean = primitive<boolean>("boolean", (value) => typeof value === "boolean");
+
+export const nullable =
+  <T>(decoder: Decoder<T>): Decoder<T | null> =>
+  (value, path) =>
+    value === null ? null : decoder(value, path);
+
+/**
+ * Accepts a missing (undefined or null) value, substituting `fallback`
+ */
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined>;
+export function optional<T, F>(decoder: Decoder<T>, fallback: F): Decoder<T | F>;
+export function optional<T, F>(decoder: Decoder<T>, fallback?: F): Decoder<T | F | undefined> {
+  return (value, path) => (value === undefined || value === null ? fallback : decoder(value, path));
+}
+
+export const array =
+  <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeFailure(path, "array", value);
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+  };
+
+/**
+ * Decodes an object with arbitrary keys whose values all share one shape
+ */
+export const record =
+  <T>(decoder: Decoder<T>): Decoder<Record<string, T>> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) throw new DecodeFailure(path, "object", value);
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decoder(item, path ? `${path}.${key}` : key)]));
+  };
+
+/**
+ * Decodes the listed fields only; unknown fields are dropped so the result matches its interface
+ */
+export const object =
+  <T>(shape: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) throw new DecodeFailure(path, "object", value);
+
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      const decoded = shape[key]((value as Record<string, unknown>)[key as string], path ? `${path}.${String(key)}` : String(key));
+      if (decoded !== undefined) result[key] = decoded;
+    }
+    return result;
+  };
+
+/**
+ * Runs a decoder against a response body, attributing failures to `url`
+ */
+export function decodeResponse<T>(decoder: Decoder<T>, value: unknown, url: string): T {
+  try {
+    return decoder(value, "");
+  } catch (err) {
+    if (err instanceof DecodeFailure) throw new SchemaValidationError(url, err.path || "(root)", err.expected, err.received);
+    throw err;
+  }
+}
+
+export const namedResourceDecoder: Decoder<NamedAPIResource> = object({ name: string, url: string });
+
+export const pokemonListResponseDecoder: Decoder<PokemonListResponse> = object({
+  count: number,
+  next: optional(string, null),
+  previous: optional(string, null),
+  results: array(namedResourceDecoder),
+});
+
+const spriteSetDecoder: Decoder<SpriteSet> = object({
+  front_default: optional(string, null),
+  front_shiny: optional(string, null),
+  back_default: optional(string, null),
+  back_shiny: optional(string, null),
+});
+
+const pokemonSpritesDecoder: Decoder<PokemonSprites> = object({
+  front_default: optional(string, null),
+  front_shiny: optional(string, null),
+  back_default: optional(string, null),
+  back_shiny: optional(string, null),
+  other: optional(
+    object({
+      "official-artwork": optional(spriteSetDecoder),
+      home: optional(spriteSetDecoder),
+      showdown: optional(spriteSetDecoder),
+    }),
+  ),
+  // Version groups may also hold extras like gen V's `animated`; only the static set is kept
+  versions: optional(record(record(spriteSetDecoder))),
+});
+
+const pokemonTypeDecoder: Decoder<PokemonType> = object({ slot: number, type: namedResourceDecoder });
+
+const pokemonAbilityDecoder: Decoder<PokemonAbility> = object({
+  ability: namedResourceDecoder,
+  is_hidden: optional(boolean, false),
+  slot: number,
+});
+
+const pokemonStatDecoder: Decoder<PokemonStat> = object({
+  base_stat: number,
+  effort: optional(number, 0),
+  stat: namedResourceDecoder,
+});
+
+const pokemonMoveDecoder: Decoder<PokemonMove> = object({
+  move: namedResourceDecoder,
+  version_group_details: optional(
+    array(
+      object({
+        level_learned_at: optional(number, 0),
+        move_learn_method: namedResourceDecoder,
+        version_group: namedResourceDecoder,
+      }),
+    ),
+    [],
+  ),
+});
+
+export const pokemonDecoder: Decoder<Pokemon> = object({
+  id: number,
+  name: string,
+  height: optional(number),
+  weight: optional(number),
+  sprites: optional(pokemonSpritesDecoder, { front_default: null }),
+  types: optional(array(pokemonTypeDecoder), []),
+  abilities: optional(array(pokemonAbilityDecoder), []),
+  stats: optional(array(pokemonStatDecoder), []),
+  moves: optional(array(pokemonMoveDecoder), []),
+  species: namedResourceDecoder,
+  base_experience: optional(number),
+});
+
+const flavorTextEntryDecoder: Decoder<FlavorTextEntry> = object({
+  flavor_text: string,
+  language: namedResourceDecoder,
+  version: namedResourceDecoder,
+});
+
+export const speciesDataDecoder: Decoder<SpeciesData> = object({
+  flavor_text_entries: optional(array(flavorTextEntryDecoder), []),
+  name: string,
+  names: optional(array(object({ name: string, language: namedResourceDecoder })), []),
+  order: optional(number),
+  evolution_chain: optional(object({ url: string })),
+  varieties: optional(array(object({ is_default: optional(boolean, false), pokemon: namedResourceDecoder })), []),
+});
+
+const resourceList = optional(array(namedResourceDecoder), []);
+
+const typeDamageRelationsDecoder: Decoder<TypeDamageRelations> = object({
+  double_damage_from: resourceList,
+  double_damage_to: resourceList,
+  half_damage_from: resourceList,
+  half_damage_to: resourceList,
+  no_damage_from: resourceList,
+  no_damage_to: resourceList,
+});
+
+export const typeDataDecoder: Decoder<TypeData> = object({
+  id: number,
+  name: string,
+  damage_relations: optional(typeDamageRelationsDecoder, {
+    double_damage_from: [],
+    double_damage_to: [],
+    half_damage_from: [],
+    half_damage_to: [],
+    no_damage_from: [],
+    no_damage_to: [],
+  }),
+  pokemon: optional(array(object({ slot: number, pokemon: namedResourceDecoder })), []),
+});
+
+export const generationDataDecoder: Decoder<GenerationData> = object({
+  id: number,
+  name: string,
+  pokemon_species: resourceList,
+});
+
+const optionalResource = optional(namedResourceDecoder, null);
+
+const evolutionDetailDecoder: Decoder<EvolutionDetail> = object({
+  trigger: namedResourceDecoder,
+  min_level: optional(number, null),
+  item: optionalResource,
+  held_item: optionalResource,
+  min_happiness: optional(number, null),
+  min_affection: optional(number, null),
+  known_move: optionalResource,
+  known_move_type: optionalResource,
+  location: optionalResource,
+  time_of_day: optional(string, ""),
+  trade_species: optionalResource,
+});
+
+// Declared as a function so the decoder can refer to itself for `evolves_to`
+function chainLinkDecoder(value: unknown, path: string): ChainLink {
+  return object<ChainLink>({
+    species: namedResourceDecoder,
+    evolution_details: optional(array(evolutionDetailDecoder), []),
+    evolves_to: optional(array(chainLinkDecoder), []),
+  })(value, path);
+}
+
+export const evolutionChainDecoder: Decoder<EvolutionChain> = object({
+  id: number,
+  chain: chainLinkDecoder,
+});
+
+export const abilityDataDecoder: Decoder<AbilityData> = object({
+  id: number,
+  name: string,
+  effect_entries: optional(array(object({ effect: string, short_effect: string, language: namedResourceDecoder })), []),
+  pokemon: optional(array(object({ is_hidden: optional(boolean, false), slot: number, pokemon: namedResourceDecoder })), []),
+});
+
+export const moveDataDecoder: Decoder<MoveData> = object({
+  id: number,
+  name: string,
+  type: namedResourceDecoder,
+  power: optional(number, null),
+  accuracy: optional(number, null),
+  pp: optional(number, null),
+  damage_class: optional(namedResourceDecoder, null),
+});
@@ -1,9 +1,32 @@
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Must match PRECACHE_MANIFEST_URL in public/sw.js
+const PRECACHE_MANIFEST = "precache-manifest.json";
+
+/**
+ * Lists the built scripts, styles and assets for the service worker to cache when it installs,
+ * so the app opens offline after a single visit
+ */
+function precacheManifest(): Plugin {
+  let base = "/";
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_options, bundle) {
+      const urls = Object.keys(bundle).map((fileName) => `${base}${fileName}`);
+      this.emitFile({ type: "asset", fileName: PRECACHE_MANIFEST, source: JSON.stringify(urls) });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   server: {
     port: 5173,
     open: true,